@@ -0,0 +1,261 @@
+// Lobby and relay server for online matches: `npm run relay` (PORT=8787 by default).
+// Clients join a room, the first two in a room are paired (first = Player 1, the host),
+// then every message from one player is forwarded unchanged to the other.
+// No dependencies - just enough of the WebSocket protocol (RFC 6455) for text messages,
+// including ones split across continuation frames.
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024; // Turn snapshots are the biggest messages
+
+// Close codes (RFC 6455 section 7.4.1)
+const CLOSE_NORMAL = 1000;
+const CLOSE_GOING_AWAY = 1001;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED_DATA = 1003;
+const CLOSE_TOO_BIG = 1009;
+
+// Codes a close frame may carry (1004-1006 and 1015 are reserved, 3000-4999 are for applications)
+function isValidCloseCode(code) {
+  return (code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1011) || (code >= 3000 && code <= 4999);
+}
+
+// Room name -> the players in it (host first)
+const rooms = new Map();
+
+// Wrap a raw socket so the rest of the server only sees whole text messages
+function createConnection(socket) {
+  const connection = { socket, room: null, send, close, onMessage: () => {}, onClose: () => {} };
+  let buffer = Buffer.alloc(0);
+  let closed = false;
+  // Message being put together from fragments (opcode of its first frame, and the payloads so far)
+  let fragmentOpcode = 0;
+  let fragments = [];
+  let fragmentBytes = 0;
+
+  function writeFrame(opcode, payload) {
+    let header;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    socket.write(Buffer.concat([header, payload]));
+  }
+
+  function send(message) {
+    if (!closed) writeFrame(0x1, Buffer.from(JSON.stringify(message)));
+  }
+
+  // Send a close frame with a status code and hang up
+  function close(code = CLOSE_NORMAL) {
+    if (closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    writeFrame(0x8, payload);
+    socket.end();
+    finish();
+  }
+
+  function finish() {
+    if (closed) return;
+    closed = true;
+    connection.onClose();
+  }
+
+  // A whole message arrived (in one frame or several)
+  function receive(opcode, payload) {
+    if (opcode !== 0x1) {
+      console.warn("Relay: binary messages aren't supported, dropping client");
+      close(CLOSE_UNSUPPORTED_DATA);
+      return;
+    }
+    try {
+      connection.onMessage(JSON.parse(payload.toString("utf8")));
+    } catch (err) {
+      console.warn("Relay: ignoring invalid message:", err.message);
+    }
+  }
+
+  // Pull every complete frame out of the buffer. Clients must mask their frames; big messages
+  // may arrive as a first frame plus continuation frames, with control frames in between
+  function readFrames() {
+    while (buffer.length >= 2 && !closed) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) {
+        console.warn("Relay: unmasked frame from client, dropping client");
+        close(CLOSE_PROTOCOL_ERROR);
+        return;
+      }
+      if (fragmentBytes + length > MAX_MESSAGE_BYTES) {
+        console.warn("Relay: message too big, dropping client");
+        close(CLOSE_TOO_BIG);
+        return;
+      }
+
+      const maskOffset = offset;
+      offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode >= 0x8) {
+        // Control frames are never fragmented and can come between a message's fragments
+        if (!fin) {
+          close(CLOSE_PROTOCOL_ERROR);
+          return;
+        }
+        if (opcode === 0x8) {
+          // Echo the client's status code back (a payload without one means a normal close)
+          const code = payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL;
+          if (code !== CLOSE_NORMAL && code !== CLOSE_GOING_AWAY) {
+            console.log(`Relay: client closed with code ${code}`);
+          }
+          close(isValidCloseCode(code) ? code : CLOSE_PROTOCOL_ERROR);
+          return;
+        }
+        if (opcode === 0x9) writeFrame(0xa, payload); // Pong
+        continue;
+      }
+
+      if (opcode === 0x0) {
+        if (fragments.length === 0) {
+          close(CLOSE_PROTOCOL_ERROR); // Continuation with nothing to continue
+          return;
+        }
+        fragments.push(payload);
+        fragmentBytes += payload.length;
+      } else {
+        if (fragments.length > 0) {
+          close(CLOSE_PROTOCOL_ERROR); // New message before the last one finished
+          return;
+        }
+        fragmentOpcode = opcode;
+        fragments = [payload];
+        fragmentBytes = payload.length;
+      }
+
+      if (fin) {
+        const message = Buffer.concat(fragments);
+        fragments = [];
+        fragmentBytes = 0;
+        receive(fragmentOpcode, message);
+      }
+    }
+  }
+
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.on("close", finish);
+  socket.on("error", finish);
+  return connection;
+}
+
+// Put a client in a room: wait for an opponent, or pair with the one already waiting
+function join(connection, room) {
+  const players = rooms.get(room) ?? [];
+  if (players.length >= 2) {
+    connection.send({ type: "error", reason: `Room "${room}" already has two players` });
+    return;
+  }
+
+  connection.room = room;
+  players.push(connection);
+  rooms.set(room, players);
+
+  if (players.length === 1) {
+    console.log(`Relay: player waiting in room "${room}"`);
+    connection.send({ type: "waiting", room });
+    return;
+  }
+
+  console.log(`Relay: room "${room}" paired`);
+  players[0].send({ type: "paired", player: 1 });
+  players[1].send({ type: "paired", player: 2 });
+}
+
+function leave(connection) {
+  const players = rooms.get(connection.room);
+  if (!players) return;
+
+  rooms.delete(connection.room);
+  for (const other of players) {
+    if (other === connection) continue;
+    other.send({ type: "peerLeft" });
+    other.close();
+  }
+  console.log(`Relay: room "${connection.room}" closed`);
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain" });
+  res.end(`Stellar Spite relay - ${rooms.size} room(s) open\n`);
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  const connection = createConnection(socket);
+  connection.onMessage = (message) => {
+    if (!connection.room) {
+      if (message.type === "join" && typeof message.room === "string" && message.room.length > 0) {
+        join(connection, message.room);
+      } else {
+        connection.send({ type: "error", reason: "Join a room first" });
+      }
+      return;
+    }
+
+    // Game messages go straight to the other player
+    const players = rooms.get(connection.room) ?? [];
+    for (const other of players) {
+      if (other !== connection) other.send(message);
+    }
+  };
+  connection.onClose = () => leave(connection);
+});
+
+server.listen(PORT, () => {
+  console.log(`Relay listening on ws://localhost:${PORT}`);
+});
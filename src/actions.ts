@@ -0,0 +1,58 @@
+import type { BuildingKind } from "./buildings";
+
+/**
+ * Typed player/AI commands.
+ * Every change a player makes to a match goes through GameState.execute() as one
+ * of these, so a match can be recorded and replayed from its seed.
+ * Sprites are referenced by their center cell on the grid.
+ */
+export type GameAction =
+  | {
+      type: "placeBuilding";
+      player: number;
+      kind: BuildingKind;
+      gridX: number;
+      gridY: number;
+    }
+  | { type: "placeBunny"; player: number; gridX: number; gridY: number }
+  | {
+      type: "launch";
+      player: number;
+      gridX: number;
+      gridY: number;
+      vx: number;
+      vy: number;
+    }
+  | { type: "trash"; player: number; gridX: number; gridY: number }
+  | {
+      type: "fire";
+      player: number;
+      gridX: number;
+      gridY: number;
+      vx: number;
+      vy: number;
+    }
+  | { type: "endTurn"; player: number };
+
+// An action as stored in the log: tick is the number of physics steps run before it happened
+export type RecordedAction = GameAction & { tick: number };
+
+// Short human readable description for logs and the replay viewer
+export function describeAction(action: GameAction): string {
+  if (action.type === "placeBuilding") {
+    return `Player ${action.player} placed ${action.kind} at (${action.gridX}, ${action.gridY})`;
+  }
+  if (action.type === "placeBunny") {
+    return `Player ${action.player} placed a bunny at (${action.gridX}, ${action.gridY})`;
+  }
+  if (action.type === "launch") {
+    return `Player ${action.player} launched (${action.gridX}, ${action.gridY}) at (${action.vx.toFixed(2)}, ${action.vy.toFixed(2)})`;
+  }
+  if (action.type === "trash") {
+    return `Player ${action.player} trashed (${action.gridX}, ${action.gridY})`;
+  }
+  if (action.type === "fire") {
+    return `Player ${action.player} fired (${action.gridX}, ${action.gridY}) at (${action.vx.toFixed(2)}, ${action.vy.toFixed(2)})`;
+  }
+  return `Player ${action.player} ended their turn`;
+}
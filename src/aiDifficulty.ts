@@ -0,0 +1,72 @@
+export type AiDifficulty = "easy" | "normal" | "hard" | "brutal";
+
+export const AI_DIFFICULTIES: AiDifficulty[] = [
+  "easy",
+  "normal",
+  "hard",
+  "brutal",
+];
+
+/**
+ * How well the AI plays at one difficulty level.
+ * Normal is the AI as it always played; the other levels tune how carefully it aims,
+ * how it builds up its economy and how hard it fires.
+ */
+export interface AiProfile {
+  name: string; // Shown in the VS AI menu
+  aimAngleStep: number; // Degrees between the launch angles it tries
+  aimSpeedStep: number; // Launch speed between the speeds it tries (2 to 6)
+  inaccuracy: number; // Random jitter added to each launch velocity component (+/-)
+  fullPreview: boolean; // Aims with collisions - otherwise only gravity, flying blind through asteroids and buildings
+  ammoShare: number; // Fraction of its total ammo fired each turn
+  mines: number; // Mines it builds before anything else
+  solarPanels: number;
+  shield: boolean; // Builds a dome shield before turrets
+}
+
+export const AI_PROFILES: Record<AiDifficulty, AiProfile> = {
+  easy: {
+    name: "Easy",
+    aimAngleStep: 30,
+    aimSpeedStep: 1,
+    inaccuracy: 0.6,
+    fullPreview: false,
+    ammoShare: 0.2,
+    mines: 1,
+    solarPanels: 0,
+    shield: false,
+  },
+  normal: {
+    name: "Normal",
+    aimAngleStep: 10,
+    aimSpeedStep: 0.5,
+    inaccuracy: 0.15,
+    fullPreview: true,
+    ammoShare: 0.4,
+    mines: 2,
+    solarPanels: 1,
+    shield: true,
+  },
+  hard: {
+    name: "Hard",
+    aimAngleStep: 5,
+    aimSpeedStep: 0.5,
+    inaccuracy: 0.05,
+    fullPreview: true,
+    ammoShare: 0.6,
+    mines: 3,
+    solarPanels: 1,
+    shield: true,
+  },
+  brutal: {
+    name: "Brutal",
+    aimAngleStep: 4,
+    aimSpeedStep: 0.5,
+    inaccuracy: 0,
+    fullPreview: true,
+    ammoShare: 0.8,
+    mines: 4,
+    solarPanels: 2,
+    shield: true,
+  },
+};
@@ -0,0 +1,506 @@
+import type { GameState } from "./gameState";
+import type { Random } from "./random";
+import type { AiProfile } from "./aiDifficulty";
+import { GameSprite, PlanetSprite, Weapon, isWeapon } from "./sprite";
+import {
+  BUILDINGS,
+  BUILDING_KINDS,
+  BuildingKind,
+  BASE_ORE_INCOME,
+  buildingFor,
+} from "./buildings";
+import { simulateTrajectory } from "./trajectory";
+import { TILE_SIZE, PLANET_RADIUS } from "./constants";
+
+/**
+ * Tunable weights for the AI planner. Every candidate action is scored in the same units
+ * (roughly "points of damage dealt to the enemy base"), so a building competes directly with a shot.
+ */
+export interface AiWeights {
+  mine: number; // A mine while we have fewer than the difficulty's target (less for each one after)
+  solarPanel: number; // A solar panel while under target, or when energy can't cover our turrets' shots
+  shield: number; // A dome shield when we want one
+  turret: number; // More firepower (less for each turret we already have)
+  rebuild: number; // Extra for replacing turrets we have lost
+  damageReaction: number; // How much losing base HP since our last turn raises defense and counter-fire
+  baseTarget: number; // Per point of damage to an enemy base
+  economyTarget: number; // Per point of damage to enemy mines and solar panels
+  turretTarget: number; // Per point of damage to enemy turrets
+  shieldTarget: number; // Per point of damage to enemy dome shields
+  kill: number; // Extra for destroying a building outright
+  finishBase: number; // Extra for a shot that could destroy an enemy base
+  nearMiss: number; // Share of a base hit's value for shots that only pass close to it
+  surplusOre: number; // Raises a building's score by this share per 100 ore we would still have after buying it (so ore doesn't pile up)
+  saveOre: number; // Ending the turn - the planner stops once nothing scores higher
+}
+
+export const DEFAULT_AI_WEIGHTS: AiWeights = {
+  mine: 350,
+  solarPanel: 150,
+  shield: 250,
+  turret: 320,
+  rebuild: 200,
+  damageReaction: 1.5,
+  baseTarget: 1,
+  economyTarget: 1.2,
+  turretTarget: 1.1,
+  shieldTarget: 0.4,
+  kill: 150,
+  finishBase: 2000,
+  nearMiss: 0.5,
+  surplusOre: 0.1,
+  saveOre: 60,
+};
+
+// Base HP lost since our last turn (as a share of max HP) that counts as full alarm
+const FULL_ALARM_DAMAGE = 0.2;
+
+// Wait a turn for a building we can't afford yet if what we can buy now is worth less than this share of it
+const SAVE_FOR_SHARE = 0.8;
+
+// Spots tried around our base for each kind of building
+const BUILD_SPOT_ATTEMPTS = 30;
+
+// Steps a shot is followed for when aiming - long enough to cross a medium map (shots fly until they hit something)
+const AIM_STEPS = 1200;
+
+// Shots passing within this many pixels of an enemy base's center count as near misses
+const NEAR_MISS_RANGE = PLANET_RADIUS * TILE_SIZE * 3;
+
+export type AiPlan =
+  | {
+      type: "build";
+      kind: BuildingKind;
+      gridX: number;
+      gridY: number;
+      score: number;
+    }
+  | {
+      type: "fire";
+      turret: GameSprite & Weapon;
+      target: GameSprite;
+      vx: number;
+      vy: number;
+      score: number;
+    }
+  | { type: "save"; score: number }; // End the turn, keeping the ore for later
+
+// Best aim found for a turret this turn
+interface Aim {
+  target: GameSprite;
+  vx: number;
+  vy: number;
+  value: number; // Score of taking the shot
+}
+
+/**
+ * Utility-based AI for one player. Each call to plan() scores every candidate action
+ * (build a building at a spot, fire a turret at a target, save ore) from the game state
+ * and returns the best. The caller carries it out and asks again until the plan is to save.
+ */
+export class AiPlanner {
+  readonly state: GameState;
+  readonly player: number;
+  private profile: AiProfile;
+  private weights: AiWeights;
+  private rng: Random;
+
+  // Remembered between turns
+  private turnRound = 0; // Round of the turn being planned (each player has one turn a round)
+  private peakTurrets = 0;
+  private lastBaseHealth: number | null = null;
+
+  // For the turn being planned
+  private alarm = 0; // 0-1, how hard our base was hit since our last turn
+  private shotsLeft = 0;
+  private aims = new Map<GameSprite, Aim | null>();
+
+  constructor(
+    state: GameState,
+    player: number,
+    profile: AiProfile,
+    rng: Random,
+    weights: AiWeights = DEFAULT_AI_WEIGHTS,
+  ) {
+    this.state = state;
+    this.player = player;
+    this.profile = profile;
+    this.rng = rng;
+    this.weights = weights;
+  }
+
+  // Best thing to do next this turn
+  plan(): AiPlan {
+    if (this.turnRound !== this.state.round) this.startTurn();
+
+    const candidates: AiPlan[] = [
+      ...this.buildCandidates(),
+      ...this.fireCandidates(),
+      this.saveCandidate(),
+    ];
+    let best = candidates[0];
+    for (const candidate of candidates) {
+      if (candidate.score > best.score) best = candidate;
+    }
+
+    if (best.type === "build") {
+      this.aims.clear(); // A new building can block shots
+    } else if (best.type === "fire") {
+      this.shotsLeft--;
+      // Inaccuracy is added when the shot is taken, so the aim stays good for the next one
+      best = {
+        ...best,
+        vx: best.vx + (this.rng.next() - 0.5) * this.profile.inaccuracy * 2,
+        vy: best.vy + (this.rng.next() - 0.5) * this.profile.inaccuracy * 2,
+      };
+    }
+    return best;
+  }
+
+  // Look at what happened since our last turn
+  private startTurn() {
+    this.turnRound = this.state.round;
+    this.aims.clear();
+
+    const base = this.state.getPlayerBase(this.player);
+    const damage =
+      base && this.lastBaseHealth !== null
+        ? Math.max(0, this.lastBaseHealth - base.health)
+        : 0;
+    this.alarm = base
+      ? Math.min(1, damage / base.maxHealth / FULL_ALARM_DAMAGE)
+      : 0;
+    this.lastBaseHealth = base ? base.health : null;
+
+    const turrets = this.countOwned((sprite) => isWeapon(sprite));
+    this.peakTurrets = Math.max(this.peakTurrets, turrets);
+
+    let ammo = 0;
+    this.forEachOwned((sprite) => {
+      if (isWeapon(sprite)) ammo += sprite.ammo;
+    });
+    this.shotsLeft =
+      ammo > 0 ? Math.max(1, Math.floor(ammo * this.profile.ammoShare)) : 0;
+
+    if (this.alarm > 0) {
+      console.log(
+        `AI (Player ${this.player}) lost ${damage} base HP since its last turn (alarm ${this.alarm.toFixed(2)})`,
+      );
+    }
+  }
+
+  // How much each kind of building is wanted right now (before checking we can afford or place it)
+  private buildValue(kind: BuildingKind): number {
+    const w = this.weights;
+    const defense = 1 + w.damageReaction * this.alarm;
+
+    if (kind === "mine") {
+      const mines = this.state.playerMineCount[this.player];
+      const value =
+        mines < this.profile.mines
+          ? w.mine
+          : (w.mine * 0.25) / (mines - this.profile.mines + 1);
+      // Late in a limited match a mine won't pay for itself
+      const roundsLeft =
+        this.state.settings.turnLimit > 0
+          ? this.state.settings.turnLimit - this.state.round
+          : Infinity;
+      return value * Math.min(1, roundsLeft / 5);
+    }
+
+    if (kind === "solarPanel") {
+      let shotEnergy = 0;
+      this.forEachOwned((sprite) => {
+        if (isWeapon(sprite)) shotEnergy += sprite.fireEnergy;
+      });
+      if (this.state.playerSolarCount[this.player] < this.profile.solarPanels)
+        return w.solarPanel;
+      return this.state.playerMaxEnergy[this.player] < shotEnergy
+        ? w.solarPanel * 0.5
+        : 0;
+    }
+
+    if (kind === "domeShield") {
+      const wanted = (this.profile.shield ? 1 : 0) + (this.alarm > 0.5 ? 1 : 0);
+      return this.countOwned((sprite) => sprite.kind === "domeShield") < wanted
+        ? w.shield * defense
+        : 0;
+    }
+
+    // Turrets - their value is damage over the ammo they regain each turn, relative to a missile turret
+    const turrets = this.countOwned((sprite) => isWeapon(sprite));
+    const weapon = BUILDINGS[kind].weapon!;
+    const missile = BUILDINGS.turret.weapon!;
+    const firepower =
+      (weapon.damage * weapon.ammoRegenRate) /
+      (missile.damage * missile.ammoRegenRate);
+    const rebuild = turrets < this.peakTurrets ? w.rebuild : 0;
+    return (
+      (w.turret / (1 + turrets * 0.5)) * (0.5 + 0.5 * firepower) * defense +
+      rebuild
+    );
+  }
+
+  private buildCandidates(): AiPlan[] {
+    const base = this.state.getPlayerBase(this.player);
+    if (!base) return [];
+
+    // Save ore for a building we can afford next turn instead of spending it on something worth much less
+    const ore = this.state.playerOre[this.player];
+    const income =
+      BASE_ORE_INCOME +
+      this.state.playerMineCount[this.player] *
+        this.state.settings.oreIncomePerMine;
+    const kinds = BUILDING_KINDS;
+    let saving = 0;
+    for (const kind of kinds) {
+      const cost = BUILDINGS[kind].ore;
+      const value = this.buildValue(kind) * SAVE_FOR_SHARE;
+      if (ore < cost && ore + income >= cost && value > saving) {
+        saving = value;
+      }
+    }
+
+    const candidates: AiPlan[] = [];
+    for (const kind of kinds) {
+      const def = BUILDINGS[kind];
+      if (ore < def.ore || this.state.playerEnergy[this.player] < def.energy)
+        continue;
+
+      const value = this.buildValue(kind);
+      if (value <= 0 || value < saving) continue;
+
+      const spot = this.findBuildSpot(base, kind);
+      const surplus = 1 + (this.weights.surplusOre * (ore - def.ore)) / 100;
+      if (spot)
+        candidates.push({
+          type: "build",
+          kind,
+          gridX: spot.x,
+          gridY: spot.y,
+          score: value * surplus,
+        });
+    }
+    return candidates;
+  }
+
+  // Free spot inside our shield - turrets and shields face the enemy, economy buildings hide behind the base
+  private findBuildSpot(
+    base: PlanetSprite,
+    kind: BuildingKind,
+  ): { x: number; y: number } | null {
+    const def = BUILDINGS[kind];
+    const enemy = this.nearestEnemyBase(base);
+    const enemyAngle = enemy
+      ? Math.atan2(enemy.centerY - base.centerY, enemy.centerX - base.centerX)
+      : 0;
+    const facesEnemy = def.type !== "Resource";
+
+    let best: { x: number; y: number } | null = null;
+    let bestFacing = -Infinity;
+    for (let attempts = 0; attempts < BUILD_SPOT_ATTEMPTS; attempts++) {
+      const angle = this.rng.next() * Math.PI * 2;
+      const dist = this.state.shieldRadius * (0.4 + this.rng.next() * 0.55);
+      const x = Math.floor(base.centerX + Math.cos(angle) * dist);
+      const y = Math.floor(base.centerY + Math.sin(angle) * dist);
+
+      if (
+        !this.state.inBounds(x, y) ||
+        !this.state.isPositionWithinShield(x, y, this.player)
+      )
+        continue;
+      const rotation =
+        kind === "domeShield"
+          ? this.state.tangentRotation(base, x, y)
+          : undefined;
+      if (
+        !this.state.canPlaceInRadius(
+          x,
+          y,
+          def.radius,
+          def.shape,
+          def.width,
+          def.height,
+          rotation,
+        )
+      )
+        continue;
+
+      const facing = Math.cos(angle - enemyAngle) * (facesEnemy ? 1 : -1);
+      if (facing > bestFacing) {
+        bestFacing = facing;
+        best = { x, y };
+      }
+    }
+    return best;
+  }
+
+  private fireCandidates(): AiPlan[] {
+    if (this.shotsLeft <= 0) return [];
+
+    const candidates: AiPlan[] = [];
+    this.forEachOwned((sprite) => {
+      if (
+        !isWeapon(sprite) ||
+        sprite.ammo <= 0 ||
+        this.state.playerEnergy[this.player] < sprite.fireEnergy
+      )
+        return;
+
+      // Aim again if the last target has gone (e.g. destroyed by an earlier shot)
+      let aim = this.aims.get(sprite);
+      if (
+        aim === undefined ||
+        (aim &&
+          this.state.getSpriteAt(aim.target.gridX, aim.target.gridY) !==
+            aim.target)
+      ) {
+        aim = this.aim(sprite);
+        this.aims.set(sprite, aim);
+      }
+      if (aim) {
+        candidates.push({
+          type: "fire",
+          turret: sprite,
+          target: aim.target,
+          vx: aim.vx,
+          vy: aim.vy,
+          score: aim.value,
+        });
+      }
+    });
+    return candidates;
+  }
+
+  // Sweep launch angles and speeds (as finely as the difficulty allows) and keep the most valuable shot
+  private aim(turret: GameSprite & Weapon): Aim | null {
+    const ownBase = this.state.getPlayerBase(this.player);
+    const enemyBases = this.state.activePlayers
+      .filter((player) => !this.state.areAllies(player, this.player))
+      .map((player) => this.state.getPlayerBase(player)!);
+
+    // Without the full preview only gravity is considered - it flies blind through everything but the bases
+    const passThrough = this.profile.fullPreview
+      ? undefined
+      : (sprite: GameSprite) => !(sprite instanceof PlanetSprite);
+
+    let best: Aim | null = null;
+    for (let speed = 2; speed <= 6; speed += this.profile.aimSpeedStep) {
+      for (
+        let angleDeg = -180;
+        angleDeg <= 180;
+        angleDeg += this.profile.aimAngleStep
+      ) {
+        const angle = (angleDeg * Math.PI) / 180;
+        const vx = Math.cos(angle) * speed;
+        const vy = Math.sin(angle) * speed;
+        const result = simulateTrajectory(
+          this.state,
+          { x: turret.x, y: turret.y, vx, vy },
+          {
+            collision: "projectile",
+            ignore: turret,
+            maxSteps: AIM_STEPS,
+            passThrough,
+          },
+        );
+        if (result.hit && result.hit === ownBase) continue;
+
+        let target: GameSprite | null = null;
+        let value = 0;
+        if (result.hit && this.isEnemy(result.hit)) {
+          target = result.hit;
+          value = this.hitValue(result.hit, turret.damage);
+        }
+
+        // Shots that only pass close to an enemy base are worth part of a hit
+        for (const base of enemyBases) {
+          if (result.hit === base) continue;
+          let closest = Infinity;
+          for (const point of result.path) {
+            closest = Math.min(
+              closest,
+              Math.hypot(point.x - base.x, point.y - base.y),
+            );
+          }
+          const nearMiss =
+            this.hitValue(base, turret.damage) *
+            this.weights.nearMiss *
+            Math.max(0, 1 - closest / NEAR_MISS_RANGE);
+          if (nearMiss > value) {
+            target = base;
+            value = nearMiss;
+          }
+        }
+
+        if (target && (!best || value > best.value)) {
+          best = { target, vx, vy, value };
+        }
+      }
+    }
+    return best;
+  }
+
+  // What landing a shot on an enemy sprite is worth
+  private hitValue(sprite: GameSprite, damage: number): number {
+    const w = this.weights;
+    const dealt = Math.min(damage, sprite.health);
+
+    if (sprite instanceof PlanetSprite) {
+      return (
+        dealt * w.baseTarget + (damage >= sprite.health ? w.finishBase : 0)
+      );
+    }
+
+    const def = buildingFor(sprite);
+    if (!def) return 0;
+    const kill = damage >= sprite.health ? w.kill : 0;
+    if (def.type === "Resource") return dealt * w.economyTarget + kill;
+    if (def.type === "Weapon")
+      return (
+        (dealt * w.turretTarget + kill) * (1 + w.damageReaction * this.alarm)
+      ); // Counter-fire
+    return dealt * w.shieldTarget + kill;
+  }
+
+  private saveCandidate(): AiPlan {
+    return { type: "save", score: this.weights.saveOre };
+  }
+
+  private isEnemy(sprite: GameSprite): boolean {
+    const owner = this.state.playerOf(sprite);
+    return owner > 0 && !this.state.areAllies(owner, this.player);
+  }
+
+  private nearestEnemyBase(base: PlanetSprite): PlanetSprite | null {
+    let nearest: PlanetSprite | null = null;
+    let nearestDistance = Infinity;
+    for (const player of this.state.activePlayers) {
+      const enemy = this.state.getPlayerBase(player);
+      if (!enemy || this.state.areAllies(player, this.player)) continue;
+      const distance = Math.hypot(
+        enemy.centerX - base.centerX,
+        enemy.centerY - base.centerY,
+      );
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = enemy;
+      }
+    }
+    return nearest;
+  }
+
+  private forEachOwned(callback: (sprite: GameSprite) => void) {
+    this.state.forEachSprite((sprite) => {
+      if (sprite.owner === this.player) callback(sprite);
+    });
+  }
+
+  private countOwned(predicate: (sprite: GameSprite) => boolean): number {
+    let count = 0;
+    this.forEachOwned((sprite) => {
+      if (predicate(sprite)) count++;
+    });
+    return count;
+  }
+}
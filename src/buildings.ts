@@ -0,0 +1,181 @@
+export type BuildingKind =
+  | "turret"
+  | "laserTurret"
+  | "mine"
+  | "solarPanel"
+  | "domeShield";
+
+// Projectile texture and sound family
+export type ProjectileKind = "missile" | "laser";
+
+// Stats for buildings that can fire
+export interface WeaponStats {
+  damage: number;
+  maxAmmo: number;
+  ammoRegenRate: number; // Ammo regained at the start of each of the owner's turns
+  fireEnergy: number; // Energy used per shot
+  projectileKind: ProjectileKind;
+  aimPower: number; // Launch velocity per pixel of aiming drag
+  trailColor: number;
+  trailSize: number; // Trail particle radius in pixels
+}
+
+/**
+ * One entry in the building catalogue.
+ * Costs, stats and descriptions all come from here, so balancing a building
+ * is a single edit that the rules, sprites, toolbar, info panel and AI pick up.
+ */
+export interface BuildingDef {
+  kind: BuildingKind;
+  name: string; // Sprite name, e.g. "Laser Turret"
+  label: string; // Used in messages ("Not enough ore to buy laser turret!")
+  toolbarLabel: string;
+  type: "Weapon" | "Resource" | "Defense";
+  ore: number; // Build cost
+  energy: number;
+  health: number;
+  radius: number; // In tiles (squares are 2 * radius + 1 wide)
+  shape: "circle" | "square" | "rectangle";
+  width?: number; // Rectangles only, in tiles
+  height?: number;
+  weapon?: WeaponStats;
+  oreIncome?: number; // Ore added every turn
+  maxEnergyBonus?: number; // Added to the owner's max energy
+  description: string; // Flavour text for the info panel
+}
+
+// Fraction of the ore cost returned when a building is trashed
+export const TRASH_REFUND = 0.25;
+
+// Ore every player gets per turn before mines
+export const BASE_ORE_INCOME = 50;
+
+export const BUILDINGS: Record<BuildingKind, BuildingDef> = {
+  turret: {
+    kind: "turret",
+    name: "Turret",
+    label: "turret",
+    toolbarLabel: "Missile",
+    type: "Weapon",
+    ore: 150,
+    energy: 20,
+    health: 200,
+    radius: 2, // 4x4 texture
+    shape: "square",
+    weapon: {
+      damage: 250,
+      maxAmmo: 1,
+      ammoRegenRate: 1,
+      fireEnergy: 15,
+      projectileKind: "missile",
+      aimPower: 0.1,
+      trailColor: 0xff6600, // Orange
+      trailSize: 4,
+    },
+    description: "Heavy kinetic payload. Slow reload, devastating impact.",
+  },
+  laserTurret: {
+    kind: "laserTurret",
+    name: "Laser Turret",
+    label: "laser turret",
+    toolbarLabel: "Laser",
+    type: "Weapon",
+    ore: 100,
+    energy: 20,
+    health: 150,
+    radius: 2,
+    shape: "square",
+    weapon: {
+      damage: 100,
+      maxAmmo: 3,
+      ammoRegenRate: 1,
+      fireEnergy: 15,
+      projectileKind: "laser",
+      aimPower: 0.15, // Lasers are faster
+      trailColor: 0x00ffff, // Cyan
+      trailSize: 3,
+    },
+    description: "Rapid-fire energy weapon. Lower damage, higher rate.",
+  },
+  mine: {
+    kind: "mine",
+    name: "Mine",
+    label: "mine",
+    toolbarLabel: "Mine",
+    type: "Resource",
+    ore: 100,
+    energy: 15,
+    health: 100,
+    radius: 1, // 3x3 tiles
+    shape: "square",
+    oreIncome: 75,
+    description: "Extracts precious ore from asteroids.",
+  },
+  solarPanel: {
+    kind: "solarPanel",
+    name: "Solar Panel",
+    label: "solar panel",
+    toolbarLabel: "Solar",
+    type: "Resource",
+    ore: 75,
+    energy: 10,
+    health: 80,
+    radius: 1,
+    shape: "square",
+    maxEnergyBonus: 50,
+    description: "Harvests stellar energy.",
+  },
+  domeShield: {
+    kind: "domeShield",
+    name: "Dome Shield",
+    label: "dome shield",
+    toolbarLabel: "Dome",
+    type: "Defense",
+    ore: 75,
+    energy: 15,
+    health: 500,
+    radius: 0,
+    shape: "rectangle",
+    width: 8,
+    height: 2,
+    description: "Defensive barrier. Absorbs incoming fire.",
+  },
+};
+
+// Toolbar and info panel order
+export const BUILDING_KINDS: BuildingKind[] = [
+  "turret",
+  "laserTurret",
+  "mine",
+  "solarPanel",
+  "domeShield",
+];
+
+export function isBuildingKind(kind: string): kind is BuildingKind {
+  return (BUILDING_KINDS as string[]).includes(kind);
+}
+
+// Catalogue entry for a placed sprite (null for bunnies, planets, asteroids...)
+export function buildingFor(sprite: { kind: string }): BuildingDef | null {
+  return isBuildingKind(sprite.kind) ? BUILDINGS[sprite.kind] : null;
+}
+
+// One line per stat, shared by the info panel and the toolbar tooltip
+export function describeBuilding(def: BuildingDef): string[] {
+  const lines = [
+    `Cost: ${def.ore} Ore + ${def.energy} Energy`,
+    `HP: ${def.health}`,
+  ];
+  if (def.weapon) {
+    lines.push(
+      `Dmg: ${def.weapon.damage} | Ammo: ${def.weapon.maxAmmo} | Shot: ${def.weapon.fireEnergy} Energy`,
+    );
+  }
+  if (def.oreIncome) {
+    lines.push(`+${def.oreIncome} ore/turn`);
+  }
+  if (def.maxEnergyBonus) {
+    lines.push(`Max energy +${def.maxEnergyBonus}`);
+  }
+  return lines;
+}
@@ -0,0 +1,53 @@
+import type { GameState } from "./gameState";
+import { isWeapon } from "./sprite";
+
+// FNV-1a, 32 bit - cheap and plenty to tell two game states apart
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hash of everything that decides how a settled match continues: what is on the grid
+ * (with HP and ammo), whose turn (and round) it is, each player's resources and the RNG position.
+ * Leaves out what differs harmlessly between clients - physics tick counts, the action log's
+ * ticks and the order sprites were added in (sprites are sorted by cell first).
+ */
+export function stateChecksum(state: GameState): number {
+  const sprites: string[] = [];
+  state.forEachSprite((sprite) => {
+    const ammo = isWeapon(sprite) ? sprite.ammo : "";
+    sprites.push(
+      `${sprite.gridY},${sprite.gridX},${sprite.kind},${sprite.owner},${sprite.health},${sprite.maxHealth},${ammo},${sprite.rotation ?? ""}`,
+    );
+  });
+  sprites.sort();
+
+  // Index 0 is unused - players are numbered from 1
+  const players = state.playerOre
+    .map(
+      (ore, player) =>
+        `${ore},${state.playerEnergy[player]},${state.playerMaxEnergy[player]},${state.playerMineCount[player]},${state.playerSolarCount[player]}`,
+    )
+    .slice(1);
+
+  return fnv1a(
+    [
+      state.currentPlayer,
+      state.round,
+      state.winner ?? "",
+      state.rng.snapshot(),
+      ...players,
+      ...sprites,
+    ].join("|"),
+  );
+}
+
+// Checksums are shown as 8 hex digits in logs and desync warnings
+export function formatChecksum(checksum: number): string {
+  return checksum.toString(16).padStart(8, "0");
+}
@@ -1,16 +1,45 @@
 // Tile and grid settings
 export const TILE_SIZE = 16; // Grid tile size for placement and collision
 
-// Zoom settings - grid will be sized for max zoom out
-export const MIN_ZOOM = 0.2; // Max zoom out - shows entire grid
+// Physics settings - simulation advances in fixed steps (in 60 fps frames)
+export const PHYSICS_STEP = 1; // One step per 60 Hz frame, matches trajectory previews
+export const MAX_PHYSICS_STEPS = 5; // Max steps per rendered frame before dropping time
+export const MAX_VELOCITY = 8; // Speed cap for anything in flight (pixels per step)
+export const MAX_ACCELERATION = 20; // Gravity cap to prevent extreme forces near planets
+
+// World size in tiles - the same for every player, whatever their window size
+export const DEFAULT_WORLD_WIDTH = 600;
+export const DEFAULT_WORLD_HEIGHT = 338;
+
+// World sizes offered by the match setup screen
+export const WORLD_SIZES = [
+  { name: "Small", width: 400, height: 225 },
+  { name: "Medium", width: DEFAULT_WORLD_WIDTH, height: DEFAULT_WORLD_HEIGHT },
+  { name: "Large", width: 800, height: 450 },
+];
+
+// Zoom settings - max zoom out is computed from the viewport so the whole world fits
 export const MAX_ZOOM = 2; // Max zoom in
 export const ZOOM_SPEED = 0.1;
 
+// Screen pixels between the gravity overlay's arrows (more cells per arrow when zoomed out)
+export const GRAVITY_ARROW_SPACING = 48;
+
+// Players in a match (free-for-all with more than two)
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+// UI color of each player, indexed by player number (index 0 is neutral)
+export const PLAYER_COLORS = [0xffffff, 0x4caf50, 0x2196f3, 0xff9800, 0xe91e63];
+
 // World generation settings
 export const NUM_STARS = 200;
 export const NUM_ASTEROIDS = 50;
 export const NUM_BLACK_HOLES = 3;
 
+// Base planet HP when the match settings don't change it
+export const PLANET_HEALTH = 1200;
+
 // Sprite sizes (in tiles)
 export const BUNNY_TILES = 2;
 export const TURRET_TILES = 4;
@@ -24,6 +53,14 @@ export const BLACK_HOLE_RADIUS = 20; // Reduced proportionally
 export const PLANET_RADIUS = 25; // 1.25x black hole radius
 export const PLANET_DETECTION_DISTANCE = 25;
 
+// Gravity fields (radius in tiles) used when a map doesn't set its own
+export const PLANET_GRAVITY = { radius: 35, strength: 0.5 };
+export const ASTEROID_GRAVITY = { radius: 15, strength: 0.35 };
+export const BLACK_HOLE_GRAVITY = { radius: 30, strength: 1.0 };
+
+// Broad-phase collision bucket size (in pixels, 8 tiles)
+export const SPATIAL_HASH_CELL_SIZE = 128;
+
 // Rotation speed ranges
 export const ASTEROID_ROTATION_MIN = 0.002;
 export const ASTEROID_ROTATION_MAX = 0.01;
@@ -1,39 +1,135 @@
-import { Application, Container, Graphics, Ticker, Text, Sprite, Texture } from "pixi.js";
+import {
+  Application,
+  Container,
+  FederatedPointerEvent,
+  Graphics,
+  Ticker,
+  Text,
+  Sprite,
+  Texture,
+} from "pixi.js";
 import { Renderer } from "./renderer";
-import { GameSprite, GridCell, Grid, PlanetSprite, ExplosionSprite, createSprite, applyGravityField } from "./sprite";
+import { GameSprite, PlanetSprite, ProjectileSprite, isWeapon } from "./sprite";
+import {
+  ActionResult,
+  GameState,
+  WorldLayout,
+  WORLD_LAYOUT_NAMES,
+} from "./gameState";
+import {
+  GameMap,
+  MapBody,
+  bodyGravity,
+  createBodySprite,
+  downloadMap,
+  mapPlayerCount,
+  pickMapFile,
+} from "./gameMap";
+import {
+  FairnessReport,
+  analyzeFairness,
+  describeFairness,
+  generateFairWorld,
+} from "./fairness";
+import {
+  MapEditor,
+  EditorTool,
+  EDITOR_TOOLS,
+  EDITOR_SCALE,
+  EDITOR_GRAVITY_RADIUS,
+  EDITOR_GRAVITY_STRENGTH,
+  blankMap,
+  newBody,
+} from "./mapEditor";
+import { EventBus, GameEvents } from "./events";
+import { MatchSettings, NumericSetting, SETTING_RANGES } from "./matchSettings";
+import { AiDifficulty, AI_DIFFICULTIES, AI_PROFILES } from "./aiDifficulty";
+import { AiPlanner } from "./aiPlanner";
+import {
+  BUILDINGS,
+  BUILDING_KINDS,
+  BuildingKind,
+  ProjectileKind,
+  describeBuilding,
+} from "./buildings";
+import { simulateTrajectory } from "./trajectory";
+import { ReplayPlayer, MatchRecord, createWorld, recordMatch } from "./replay";
+import { OnlineSession } from "./online";
+import { formatChecksum } from "./checksum";
+import {
+  TurnFile,
+  createTurnFile,
+  downloadTurnFile,
+  pickTurnFile,
+  rebuildMatch,
+  turnLink,
+} from "./turnFile";
+import { RecordedAction } from "./actions";
+import { Random } from "./random";
+import {
+  SaveData,
+  serializeState,
+  deserializeState,
+  saveToLocalStorage,
+  loadFromLocalStorage,
+  clearAutosave,
+  downloadSave,
+  pickSaveFile,
+} from "./saveGame";
+import {
+  SpriteTextures,
+  ExplosionSprite,
+  createSpriteDisplay,
+  createProjectileDisplay,
+  syncSpriteDisplay,
+  interpolatePosition,
+  tintPlanetShield,
+} from "./spriteDisplay";
 import { SoundManager } from "./soundManager";
 import {
-  MIN_ZOOM,
   MAX_ZOOM,
+  DEFAULT_WORLD_WIDTH,
+  DEFAULT_WORLD_HEIGHT,
   ZOOM_SPEED,
-  NUM_ASTEROIDS,
-  NUM_BLACK_HOLES,
-  ASTEROID_RADIUS,
-  BLACK_HOLE_RADIUS,
-  PLANET_RADIUS,
-  ASTEROID_ROTATION_MIN,
-  ASTEROID_ROTATION_MAX,
-  PLANET_ROTATION_MIN,
-  PLANET_ROTATION_MAX,
-  BLACK_HOLE_TILES,
-  PLANET_TILES,
+  GRAVITY_ARROW_SPACING,
   TURRET_TILES,
   TILE_SIZE as CONST_TILE_SIZE,
+  PHYSICS_STEP,
+  MAX_PHYSICS_STEPS,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  PLAYER_COLORS,
+  WORLD_SIZES,
 } from "./constants";
 
 type Star = { graphics: Graphics; speed: number; alphaDir: number };
 
+// Toolbar labels for the map editor's bodies
+const EDITOR_TOOL_LABELS: Record<EditorTool, string> = {
+  base1: "Base 1",
+  base2: "Base 2",
+  base3: "Base 3",
+  base4: "Base 4",
+  asteroid: "Asteroid",
+  blackhole: "Black Hole",
+};
+
+// Sound played when each kind of projectile is fired
+const FIRE_SOUNDS: Record<ProjectileKind, string> = {
+  missile: "missileFire",
+  laser: "laser",
+};
+
 export class Engine {
   private app: Application;
   private world: Container;
   private renderer: Renderer;
   private starArray: Star[];
   private TILE_SIZE: number;
-  private GRID_WIDTH: number;
-  private GRID_HEIGHT: number;
-  private grid: Grid;
-  private zoom = MIN_ZOOM;
-  private targetZoom = MIN_ZOOM;
+  private state: GameState;
+  private zoom = 1;
+  private targetZoom = 1;
+  private minZoom = 1; // Zoom at which the whole world fits the viewport
 
   // panning
   private isDragging = false;
@@ -47,23 +143,27 @@ export class Engine {
   private highlightGraphic!: Graphics;
   
   // Drag/drop state
-  private previewSprite: Sprite | null = null;
+  private previewSprite: Container | null = null;
+  private previewRadius = 0; // Footprint checked while dragging (0 = a single cell)
   private isDraggingFromToolbar = false;
-  private selectedTexture: Texture | null = null;
+  private selectedKind: BuildingKind | "bunny" | null = null;
   
   // Toolbar elements
   private trashCan!: Graphics;
-  private bunnyTexture: Texture | null = null; // Bunny texture for projectiles
-  private turretTexture: Texture | null = null;
-  private gunTexture: Texture | null = null; // Gun texture for planet placement
+  private textures!: SpriteTextures;
   private explosionTexture: Texture | null = null;
-  private missileTexture: Texture | null = null; // Missile projectile for regular turrets
-  private laserTexture: Texture | null = null; // Laser projectile for laser turrets
   private gridToggleButton!: Graphics;
+  private seedText: Text | null = null;
+  private saveButtons: Container | null = null;
   private gridToggleText!: Text;
+  private gravityToggleButton!: Graphics;
+  private gravityToggleText!: Text;
   
   // Grid visibility toggle
   private showGrid = false;
+  // Gravity arrows over the visible part of the map
+  private showGravityField = false;
+  private gravityFieldView = ""; // What the arrows were last drawn for, so they're only redrawn when it changes
   private needsOccupiedCellsRedraw = false;
   
   // Bunny launch system
@@ -77,14 +177,11 @@ export class Engine {
   private deleteButtonOriginalPos = { x: 460, y: 5 };
   private highlightedBuildingForDelete: GameSprite | null = null;
   
-  // Planets for tracking
-  private planets: PlanetSprite[] = [];
+  // Display objects for sprites and projectiles in the game state
+  private displays: Map<GameSprite, Container> = new Map();
   
   // Active explosions
-  private explosions: GameSprite[] = [];
-  
-  // Active projectiles (not in grid yet)
-  private projectiles: GameSprite[] = [];
+  private explosions: ExplosionSprite[] = [];
   
   // Particle trails
   private particleTrails: Map<GameSprite, Graphics[]> = new Map();
@@ -95,27 +192,17 @@ export class Engine {
   // Sound manager
   private soundManager: SoundManager;
 
-  // Game state
+  // Game over screen shown
   private gameOver = false;
   private winner: string | null = null;
-  private currentPlayer = 1; // 1 or 2
   
   // Screen shake
   private shakeAmount = 0;
   private shakeDecay = 0.9;
   
-  // New resource systems
-  private playerOre = [0, 200, 200]; // Ore for building - reduced to encourage building mines
-  private playerEnergy = [0, 50, 50]; // Current energy - reduced to encourage building solar panels
-  private playerMaxEnergy = [0, 50, 50]; // Max energy capacity
-  private playerMineCount = [0, 0, 0]; // Number of mines owned by each player
-  private playerSolarCount = [0, 0, 0]; // Number of solar panels owned by each player
-  
-  // Base planets (for win/loss detection)
-  private player1Base: PlanetSprite | null = null;
-  private player2Base: PlanetSprite | null = null;
-  private shieldRadius: number = 0; // Shield radius for placement restriction
-  
+  // Leftover frame time not yet simulated (in 60 fps frames)
+  private physicsAccumulator = 0;
+
   // Game UI
   private gameOverContainer: Container | null = null;
   private gameInfoText: Text | null = null;
@@ -123,12 +210,14 @@ export class Engine {
   private energyText: Text | null = null;
   private energyBarBg: Graphics | null = null;
   private energyBarFill: Graphics | null = null;
-  private player1HealthText: Text | null = null;
-  private player2HealthText: Text | null = null;
-  private player1HealthBarBg: Graphics | null = null;
-  private player1HealthBarFill: Graphics | null = null;
-  private player2HealthBarBg: Graphics | null = null;
-  private player2HealthBarFill: Graphics | null = null;
+  private healthPanel: Container | null = null;
+  private healthBars: {
+    row: Container;
+    label: Text;
+    fill: Graphics;
+    text: Text;
+  }[] = []; // Player 1 first
+  private resourcePanel: Container | null = null;
   private endTurnButton: Graphics | null = null;
   private endTurnText: Text | null = null;
   
@@ -136,27 +225,76 @@ export class Engine {
   private infoPanelContainer: Container | null = null;
   private infoPanelVisible: boolean = false;
   
-  // New building textures
-  private mineTexture: Texture | null = null;
-  private solarPanelTexture: Texture | null = null;
-  private domeShieldTexture: Texture | null = null;
-  
   // Main menu
   private mainMenuContainer: Container | null = null;
   private gameStarted: boolean = false;
   
   // AI mode
   private isAIMode: boolean = false;
+  private aiDifficulty: AiDifficulty = "normal";
   private aiThinkingDelay: number = 0;
-
-  constructor(app: Application) {
+  // Separate from the game state's RNG so AI decisions don't change what a replay sees
+  private aiRng: Random;
+  private aiPlanners = new Map<number, AiPlanner>();
+
+  // Replay mode - the live match is parked in liveState while a replay is shown
+  private replay: ReplayPlayer | null = null;
+  private liveState: GameState | null = null;
+  private replayControls: Container | null = null;
+  private replayStatusText: Text | null = null;
+  private replayPlayText: Text | null = null;
+
+  // Online match through the relay (null for local and AI matches)
+  private online: OnlineSession | null = null;
+
+  // Online and play-by-file messages (top center)
+  private statusText: Text | null = null;
+  // Play-by-file: the turn is sent once its shots have landed
+  private turnExportPending = false;
+  // Autosave waits for the turn's shots to land too (saves don't hold projectiles in flight)
+  private autosavePending = false;
+
+  // Events from whichever game state is shown (live match or replay)
+  readonly events: EventBus<GameEvents> = new EventBus();
+  private stopForwarding: (() => void) | null = null;
+
+  // Map editor (only while editing - the match we came from is kept to return to)
+  private editor: MapEditor | null = null;
+  private editorReturnState: GameState | null = null;
+  private editorPanel: Container | null = null;
+  private editorToolbar: Container | null = null;
+  private editorInfoText: Text | null = null;
+  private editorMessageText: Text | null = null;
+  private editorTool: EditorTool | null = null; // New body being dragged from the toolbar
+  private editorDrag: MapBody | null = null; // Placed body being moved
+  private editorPress: { body: MapBody; x: number; y: number } | null = null;
+  private gravityGraphics!: Graphics;
+  private showGravityPreview = true;
+
+  // Fairness of the current world, worked out once per state for the pre-match screen
+  private fairness: {
+    state: GameState;
+    report: FairnessReport;
+    attempts: number; // Worlds generated to find it (1 for maps)
+  } | null = null;
+
+  constructor(
+    app: Application,
+    seed?: number,
+    worldWidth = DEFAULT_WORLD_WIDTH,
+    worldHeight = DEFAULT_WORLD_HEIGHT,
+  ) {
     this.soundManager = new SoundManager();
     this.app = app;
+    this.subscribeToEvents();
     this.TILE_SIZE = CONST_TILE_SIZE;
     
-    // Initialize grid dimensions based on screen size and min zoom
-    this.GRID_WIDTH = Math.ceil(app.screen.width / (this.TILE_SIZE * MIN_ZOOM));
-    this.GRID_HEIGHT = Math.ceil(app.screen.height / (this.TILE_SIZE * MIN_ZOOM));
+    // World size comes from the match settings, the camera adapts to the window
+    this.state = new GameState(worldWidth, worldHeight, seed);
+    this.stopForwarding = this.state.events.forwardTo(this.events);
+    this.aiRng = new Random(this.state.seed ^ 0x9e3779b9);
+    this.updateZoomLimits();
+    this.zoom = this.targetZoom = this.minZoom;
     
     // Create stars FIRST (background layer)
     this.starArray = [];
@@ -184,20 +322,19 @@ export class Engine {
     this.world = new Container();
     app.stage.addChild(this.world);
     
-    // Initialize grid
-    this.grid = [];
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      const row: GridCell[] = [];
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        row.push({ gravity: { ax: 0, ay: 0 }, sprite: null, occupied: false });
-      }
-      this.grid.push(row);
-    }
-    
     // Create renderer
     const gridGraphics = new Graphics();
     this.world.addChild(gridGraphics);
-    this.renderer = new Renderer(gridGraphics, this.TILE_SIZE, this.GRID_WIDTH, this.GRID_HEIGHT);
+    this.renderer = new Renderer(
+      gridGraphics,
+      this.TILE_SIZE,
+      worldWidth,
+      worldHeight,
+    );
+
+    // Gravity field arrows (the overlay toggle and the map editor's preview)
+    this.gravityGraphics = new Graphics();
+    this.world.addChild(this.gravityGraphics);
 
     // Create aimer graphics for trajectory preview
     this.aimerGraphics = new Graphics();
@@ -216,19 +353,17 @@ export class Engine {
     this.renderer.hideGrid(); // Start with grid hidden
   }
 
-  // Initialize toolbar with bunny, turret, and laser turret sprites
-  initToolbar(bunnyTexture: Texture, turretTexture: Texture, laserTurretTexture: Texture, mineTexture: Texture, solarPanelTexture: Texture, domeShieldTexture: Texture, missileTexture: Texture, laserTexture: Texture, oreIconTexture: Texture, energyIconTexture: Texture) {
+  // Set the textures used to draw sprites and toolbar buttons
+  setTextures(textures: SpriteTextures) {
+    this.textures = textures;
+  }
+
+  // Initialize toolbar with bunny, turret, laser turret and building sprites
+  initToolbar(oreIconTexture: Texture, energyIconTexture: Texture) {
     // Initialize tooltip first
     this.initTooltip();
     
-    this.bunnyTexture = bunnyTexture;
-    this.turretTexture = turretTexture;
-    this.gunTexture = laserTurretTexture; // Reuse gunTexture variable for laser turret
-    this.mineTexture = mineTexture;
-    this.solarPanelTexture = solarPanelTexture;
-    this.domeShieldTexture = domeShieldTexture;
-    this.missileTexture = missileTexture;
-    this.laserTexture = laserTexture;
+    const bunnyTexture = this.textures.bunny;
     const BUNNY_TILES = 1;
 
     this.toolbar = new Container();
@@ -264,115 +399,57 @@ export class Engine {
     bunnyLabel.position.set(45, 70);
     this.toolbar.addChild(bunnyLabel);
 
-    // Turret sprite button (bigger, not rotated)
-    const turretScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(turretTexture.width, turretTexture.height));
-    const toolbarTurret = new Sprite(turretTexture);
-    toolbarTurret.anchor.set(0.5);
-    toolbarTurret.position.set(125, 35);
-    toolbarTurret.scale.set(turretScale * 0.8);
-    toolbarTurret.eventMode = "static";
-    toolbarTurret.cursor = "pointer";
-    this.toolbar.addChild(toolbarTurret);
-    
-    const turretLabel = new Text({
-      text: 'Missile',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 10,
-        fill: 0xffffff,
-      }
-    });
-    turretLabel.anchor.set(0.5);
-    turretLabel.position.set(125, 70);
-    this.toolbar.addChild(turretLabel);
-    
-    // Laser Turret sprite button
-    const laserTurretScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(laserTurretTexture.width, laserTurretTexture.height));
-    const toolbarLaserTurret = new Sprite(laserTurretTexture);
-    toolbarLaserTurret.anchor.set(0.5);
-    toolbarLaserTurret.position.set(205, 35);
-    toolbarLaserTurret.scale.set(laserTurretScale * 0.8);
-    toolbarLaserTurret.eventMode = "static";
-    toolbarLaserTurret.cursor = "pointer";
-    this.toolbar.addChild(toolbarLaserTurret);
-    
-    const laserLabel = new Text({
-      text: 'Laser',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 10,
-        fill: 0xffffff,
-      }
-    });
-    laserLabel.anchor.set(0.5);
-    laserLabel.position.set(205, 70);
-    this.toolbar.addChild(laserLabel);
-    
-    // Mine sprite button
-    const mineScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(mineTexture.width, mineTexture.height));
-    const toolbarMine = new Sprite(mineTexture);
-    toolbarMine.anchor.set(0.5);
-    toolbarMine.position.set(285, 35);
-    toolbarMine.scale.set(mineScale * 0.8);
-    toolbarMine.eventMode = "static";
-    toolbarMine.cursor = "pointer";
-    this.toolbar.addChild(toolbarMine);
-    
-    const mineLabel = new Text({
-      text: 'Mine',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 10,
-        fill: 0xffffff,
-      }
-    });
-    mineLabel.anchor.set(0.5);
-    mineLabel.position.set(285, 70);
-    this.toolbar.addChild(mineLabel);
-    
-    // Solar Panel sprite button
-    const solarScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(solarPanelTexture.width, solarPanelTexture.height));
-    const toolbarSolar = new Sprite(solarPanelTexture);
-    toolbarSolar.anchor.set(0.5);
-    toolbarSolar.position.set(365, 35);
-    toolbarSolar.scale.set(solarScale * 0.8);
-    toolbarSolar.eventMode = "static";
-    toolbarSolar.cursor = "pointer";
-    this.toolbar.addChild(toolbarSolar);
-    
-    const solarLabel = new Text({
-      text: 'Solar',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 10,
-        fill: 0xffffff,
-      }
-    });
-    solarLabel.anchor.set(0.5);
-    solarLabel.position.set(365, 70);
-    this.toolbar.addChild(solarLabel);
-    
-    // Dome Shield sprite button
-    const domeShieldScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(domeShieldTexture.width, domeShieldTexture.height));
-    const toolbarDomeShield = new Sprite(domeShieldTexture);
-    toolbarDomeShield.anchor.set(0.5);
-    toolbarDomeShield.position.set(445, 35);
-    toolbarDomeShield.scale.set(domeShieldScale * 0.8);
-    toolbarDomeShield.eventMode = "static";
-    toolbarDomeShield.cursor = "pointer";
-    this.toolbar.addChild(toolbarDomeShield);
-    
-    const domeShieldLabel = new Text({
-      text: 'Dome',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 10,
-        fill: 0xffffff,
-      }
+    // Building buttons, in catalogue order
+    BUILDING_KINDS.forEach((kind, index) => {
+      const def = BUILDINGS[kind];
+      const texture = this.textures[kind];
+      const x = 125 + index * 80;
+      const scale =
+        (this.TILE_SIZE * TURRET_TILES) /
+        Math.max(texture.width, texture.height);
+
+      const button = new Sprite(texture);
+      button.anchor.set(0.5);
+      button.position.set(x, 35);
+      button.scale.set(scale * 0.8);
+      button.eventMode = "static";
+      button.cursor = "pointer";
+      this.toolbar.addChild(button);
+
+      const label = new Text({
+        text: def.toolbarLabel,
+        style: {
+          fontFamily: "Orbitron",
+          fontSize: 10,
+          fill: 0xffffff,
+        },
+      });
+      label.anchor.set(0.5);
+      label.position.set(x, 70);
+      this.toolbar.addChild(label);
+
+      // Hover shows the building's cost and stats
+      button.on("pointerover", (e: FederatedPointerEvent) => {
+        if (this.isDraggingFromToolbar) return;
+        this.showTooltipLines(e.global.x, e.global.y - 120, [
+          def.name.toUpperCase(),
+          def.description,
+          ...describeBuilding(def),
+        ]);
+      });
+      button.on("pointerout", () => this.hideTooltip());
+
+      button.on("pointerdown", (e: FederatedPointerEvent) => {
+        e.stopPropagation();
+        this.selectedKind = kind;
+        console.log(`Selected ${def.name.toUpperCase()} from toolbar`);
+
+        const preview = new Sprite(texture);
+        preview.anchor.set(0.5);
+        preview.scale.set(scale);
+        this.startToolbarDrag(preview);
+      });
     });
-    domeShieldLabel.anchor.set(0.5);
-    domeShieldLabel.position.set(445, 70);
-    this.toolbar.addChild(domeShieldLabel);
 
     // Delete button (draggable X)
     this.trashCan = new Graphics();
@@ -395,9 +472,7 @@ export class Engine {
 
     // Grid toggle button (top-right corner)
     this.gridToggleButton = new Graphics();
-    this.gridToggleButton.rect(0, 0, 160, 40);
-    this.gridToggleButton.fill({ color: 0xaa0000, alpha: 0.8 });
-    this.gridToggleButton.stroke({ width: 2, color: 0xff0000 });
+    this.paintToggleButton(this.gridToggleButton, false);
     this.gridToggleButton.position.set(this.app.screen.width - 170, 10);
     this.gridToggleButton.eventMode = "static";
     this.gridToggleButton.cursor = "pointer";
@@ -411,6 +486,66 @@ export class Engine {
     this.gridToggleText.position.set(80, 20);
     this.gridToggleButton.addChild(this.gridToggleText);
 
+    // Gravity overlay toggle (left of the grid toggle)
+    this.gravityToggleButton = new Graphics();
+    this.paintToggleButton(this.gravityToggleButton, false);
+    this.gravityToggleButton.position.set(this.app.screen.width - 340, 10);
+    this.gravityToggleButton.eventMode = "static";
+    this.gravityToggleButton.cursor = "pointer";
+    this.uiContainer.addChild(this.gravityToggleButton);
+
+    this.gravityToggleText = new Text({
+      text: "Gravity Field: OFF",
+      style: { fontSize: 14, fill: 0xffffff, fontWeight: "bold" },
+    });
+    this.gravityToggleText.anchor.set(0.5);
+    this.gravityToggleText.position.set(80, 20);
+    this.gravityToggleButton.addChild(this.gravityToggleText);
+
+    // Seed display (below grid toggle) so maps can be shared and bugs reproduced
+    this.seedText = new Text({
+      text: this.seedLabel(),
+      style: { fontSize: 14, fill: 0xffffff, fontWeight: "bold" },
+    });
+    this.seedText.anchor.set(1, 0);
+    this.seedText.position.set(this.app.screen.width - 10, 60);
+    this.uiContainer.addChild(this.seedText);
+
+    // Export/import save buttons (below seed display)
+    this.saveButtons = new Container();
+    this.saveButtons.position.set(this.app.screen.width - 170, 85);
+    this.saveButtons.addChild(
+      this.createSmallButton("Export", 0, () => {
+        downloadSave(
+          serializeState(this.state, this.isAIMode, this.aiDifficulty),
+        );
+      }),
+    );
+    this.saveButtons.addChild(
+      this.createSmallButton("Import", 85, () => this.importSave()),
+    );
+    const replayButton = this.createSmallButton("Replay", 0, () =>
+      this.startReplay(recordMatch(this.state)),
+    );
+    replayButton.y = 35;
+    this.saveButtons.addChild(replayButton);
+    const sendTurnButton = this.createSmallButton("Send Turn", 85, () =>
+      this.sendTurn(),
+    );
+    sendTurnButton.y = 35;
+    this.saveButtons.addChild(sendTurnButton);
+    const loadTurnButton = this.createSmallButton("Load Turn", 0, () => {
+      pickTurnFile()
+        .then((file) => this.importTurn(file))
+        .catch((err) => {
+          console.error("Could not load turn:", err);
+          this.soundManager.play("invalidPlacement");
+        });
+    });
+    loadTurnButton.y = 70;
+    this.saveButtons.addChild(loadTurnButton);
+    this.uiContainer.addChild(this.saveButtons);
+
     // Grid toggle click handler
     this.gridToggleButton.on("pointerdown", (e: any) => {
       e.stopPropagation();
@@ -418,15 +553,7 @@ export class Engine {
       this.gridToggleText.text = this.showGrid ? "Graphic Content: ON" : "Graphic Content: OFF";
       
       // Update button color
-      this.gridToggleButton.clear();
-      this.gridToggleButton.rect(0, 0, 160, 40);
-      if (this.showGrid) {
-        this.gridToggleButton.fill({ color: 0x00aa00, alpha: 0.8 });
-        this.gridToggleButton.stroke({ width: 2, color: 0x00ff00 });
-      } else {
-        this.gridToggleButton.fill({ color: 0xaa0000, alpha: 0.8 });
-        this.gridToggleButton.stroke({ width: 2, color: 0xff0000 });
-      }
+      this.paintToggleButton(this.gridToggleButton, this.showGrid);
       
       // Update grid visibility
       if (this.showGrid) {
@@ -438,100 +565,28 @@ export class Engine {
       }
     });
 
-    // Bunny click handler
-    toolbarBunny.on("pointerdown", (e: any) => {
-      e.stopPropagation();
-      this.hideTooltip();
-      this.isDraggingFromToolbar = true;
-      this.selectedTexture = bunnyTexture;
-      this.soundManager.play('pickup');
-
-      this.previewSprite = new Sprite(bunnyTexture);
-      this.previewSprite.anchor.set(0.5);
-      this.previewSprite.alpha = 0.7;
-      this.previewSprite.scale.set(bunnyScale);
-      this.world.addChild(this.previewSprite);
-    });
-
-    // Turret click handler
-    toolbarTurret.on("pointerdown", (e: any) => {
-      e.stopPropagation();
-      this.hideTooltip();
-      this.isDraggingFromToolbar = true;
-      this.selectedTexture = turretTexture;
-      console.log("Selected TURRET from toolbar");
-      this.soundManager.play('pickup');
-
-      this.previewSprite = new Sprite(turretTexture);
-      this.previewSprite.anchor.set(0.5);
-      this.previewSprite.alpha = 0.7;
-      this.previewSprite.scale.set(turretScale);
-      this.world.addChild(this.previewSprite);
-    });
-    
-    // Laser Turret click handler
-    toolbarLaserTurret.on("pointerdown", (e: any) => {
+    // Gravity overlay click handler
+    this.gravityToggleButton.on("pointerdown", (e: FederatedPointerEvent) => {
       e.stopPropagation();
-      this.hideTooltip();
-      this.isDraggingFromToolbar = true;
-      this.selectedTexture = laserTurretTexture;
-      console.log("Selected LASER TURRET from toolbar");
-      this.soundManager.play('pickup');
-
-      this.previewSprite = new Sprite(laserTurretTexture);
-      this.previewSprite.anchor.set(0.5);
-      this.previewSprite.alpha = 0.7;
-      this.previewSprite.scale.set(laserTurretScale);
-      this.world.addChild(this.previewSprite);
+      this.showGravityField = !this.showGravityField;
+      this.gravityToggleText.text = this.showGravityField
+        ? "Gravity Field: ON"
+        : "Gravity Field: OFF";
+      this.paintToggleButton(this.gravityToggleButton, this.showGravityField);
+      this.drawGravityOverlay(true);
     });
-    
-    // Mine click handler
-    toolbarMine.on("pointerdown", (e: any) => {
-      e.stopPropagation();
-      this.hideTooltip();
-      this.isDraggingFromToolbar = true;
-      this.selectedTexture = mineTexture;
-      console.log("Selected MINE from toolbar");
-      this.soundManager.play('pickup');
 
-      this.previewSprite = new Sprite(mineTexture);
-      this.previewSprite.anchor.set(0.5);
-      this.previewSprite.alpha = 0.7;
-      this.previewSprite.scale.set(mineScale);
-      this.world.addChild(this.previewSprite);
-    });
-    
-    // Solar Panel click handler
-    toolbarSolar.on("pointerdown", (e: any) => {
+    // Bunny click handler
+    toolbarBunny.on("pointerdown", (e: any) => {
       e.stopPropagation();
-      this.hideTooltip();
-      this.isDraggingFromToolbar = true;
-      this.selectedTexture = solarPanelTexture;
-      console.log("Selected SOLAR PANEL from toolbar");
-      this.soundManager.play('pickup');
+      this.selectedKind = "bunny";
 
-      this.previewSprite = new Sprite(solarPanelTexture);
-      this.previewSprite.anchor.set(0.5);
-      this.previewSprite.alpha = 0.7;
-      this.previewSprite.scale.set(solarScale);
-      this.world.addChild(this.previewSprite);
+      const preview = new Sprite(bunnyTexture);
+      preview.anchor.set(0.5);
+      preview.scale.set(bunnyScale);
+      this.startToolbarDrag(preview);
     });
-    
-    toolbarDomeShield.on("pointerdown", (e: any) => {
-      e.stopPropagation();
-      this.hideTooltip();
-      this.isDraggingFromToolbar = true;
-      this.selectedTexture = domeShieldTexture;
-      console.log("Selected DOME SHIELD from toolbar");
-      this.soundManager.play('pickup');
 
-      this.previewSprite = new Sprite(domeShieldTexture);
-      this.previewSprite.anchor.set(0.5);
-      this.previewSprite.alpha = 0.7;
-      this.previewSprite.scale.set(domeShieldScale);
-      this.world.addChild(this.previewSprite);
-    });
-    
     // Delete button drag handler
     this.trashCan.on("pointerdown", (e: any) => {
       e.stopPropagation();
@@ -549,97 +604,68 @@ export class Engine {
     uiPanel.position.set(20, 20);
     this.uiContainer.addChild(uiPanel);
     
-    // Player 1 Planet health text
-    const p1HealthText = new Text({
-      text: `Player 1 Planet HP:`,
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 16,
-        fontWeight: 'bold',
-        fill: 0x4CAF50,
-        stroke: { color: 0x000000, width: 3 },
-      }
-    });
-    uiPanel.addChild(p1HealthText);
-    
-    // Player 1 health bar background
-    this.player1HealthBarBg = new Graphics();
-    this.player1HealthBarBg.rect(0, 0, 200, 20);
-    this.player1HealthBarBg.fill({ color: 0x333333, alpha: 0.8 });
-    this.player1HealthBarBg.stroke({ width: 2, color: 0x000000 });
-    this.player1HealthBarBg.position.set(0, 25);
-    uiPanel.addChild(this.player1HealthBarBg);
-    
-    // Player 1 health bar fill
-    this.player1HealthBarFill = new Graphics();
-    this.player1HealthBarFill.rect(0, 0, 200, 20);
-    this.player1HealthBarFill.fill({ color: 0x4CAF50, alpha: 0.9 });
-    this.player1HealthBarFill.position.set(0, 25);
-    uiPanel.addChild(this.player1HealthBarFill);
-    
-    // Player 1 health text
-    this.player1HealthText = new Text({
-      text: '1200/1200',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 14,
-        fontWeight: 'bold',
-        fill: 0xFFFFFF,
-        stroke: { color: 0x000000, width: 2 },
-      }
-    });
-    this.player1HealthText.position.set(210, 25);
-    uiPanel.addChild(this.player1HealthText);
+    // A planet health bar per player (rows for players not in the match are hidden)
+    this.healthPanel = new Container();
+    uiPanel.addChild(this.healthPanel);
+    for (let player = 1; player <= MAX_PLAYERS; player++) {
+      const row = new Container();
+      row.position.set(0, (player - 1) * 55);
+      this.healthPanel.addChild(row);
+
+      const label = new Text({
+        text: `Player ${player} Planet HP:`,
+        style: {
+          fontFamily: "Orbitron",
+          fontSize: 16,
+          fontWeight: "bold",
+          fill: PLAYER_COLORS[player],
+          stroke: { color: 0x000000, width: 3 },
+        },
+      });
+      row.addChild(label);
+
+      // Health bar background
+      const barBg = new Graphics();
+      barBg.rect(0, 0, 200, 20);
+      barBg.fill({ color: 0x333333, alpha: 0.8 });
+      barBg.stroke({ width: 2, color: 0x000000 });
+      barBg.position.set(0, 25);
+      row.addChild(barBg);
+
+      // Health bar fill
+      const fill = new Graphics();
+      fill.rect(0, 0, 200, 20);
+      fill.fill({ color: PLAYER_COLORS[player], alpha: 0.9 });
+      fill.position.set(0, 25);
+      row.addChild(fill);
+
+      // Health text
+      const text = new Text({
+        text: "1200/1200",
+        style: {
+          fontFamily: "Orbitron",
+          fontSize: 14,
+          fontWeight: "bold",
+          fill: 0xffffff,
+          stroke: { color: 0x000000, width: 2 },
+        },
+      });
+      text.position.set(210, 25);
+      row.addChild(text);
+
+      this.healthBars.push({ row, label, fill, text });
+    }
     
-    // Player 2 Planet health text
-    const p2HealthText = new Text({
-      text: `Player 2 Planet HP:`,
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 16,
-        fontWeight: 'bold',
-        fill: 0x2196F3,
-        stroke: { color: 0x000000, width: 3 },
-      }
-    });
-    p2HealthText.position.set(0, 55);
-    uiPanel.addChild(p2HealthText);
-    
-    // Player 2 health bar background
-    this.player2HealthBarBg = new Graphics();
-    this.player2HealthBarBg.rect(0, 0, 200, 20);
-    this.player2HealthBarBg.fill({ color: 0x333333, alpha: 0.8 });
-    this.player2HealthBarBg.stroke({ width: 2, color: 0x000000 });
-    this.player2HealthBarBg.position.set(0, 80);
-    uiPanel.addChild(this.player2HealthBarBg);
-    
-    // Player 2 health bar fill
-    this.player2HealthBarFill = new Graphics();
-    this.player2HealthBarFill.rect(0, 0, 200, 20);
-    this.player2HealthBarFill.fill({ color: 0x2196F3, alpha: 0.9 });
-    this.player2HealthBarFill.position.set(0, 80);
-    uiPanel.addChild(this.player2HealthBarFill);
-    
-    // Player 2 health text
-    this.player2HealthText = new Text({
-      text: '1200/1200',
-      style: {
-        fontFamily: 'Orbitron',
-        fontSize: 14,
-        fontWeight: 'bold',
-        fill: 0xFFFFFF,
-        stroke: { color: 0x000000, width: 2 },
-      }
-    });
-    this.player2HealthText.position.set(210, 80);
-    uiPanel.addChild(this.player2HealthText);
+    // Ore and energy sit below however many health bars are shown
+    this.resourcePanel = new Container();
+    uiPanel.addChild(this.resourcePanel);
     
     // Ore icon
     const oreIcon = new Sprite(oreIconTexture);
     oreIcon.width = 32;
     oreIcon.height = 32;
     oreIcon.position.set(0, 115);
-    uiPanel.addChild(oreIcon);
+    this.resourcePanel.addChild(oreIcon);
     
     // Ore count text
     this.oreText = new Text({
@@ -653,14 +679,14 @@ export class Engine {
       }
     });
     this.oreText.position.set(40, 115);
-    uiPanel.addChild(this.oreText);
+    this.resourcePanel.addChild(this.oreText);
     
     // Energy icon
     const energyIcon = new Sprite(energyIconTexture);
     energyIcon.width = 32;
     energyIcon.height = 32;
     energyIcon.position.set(0, 155);
-    uiPanel.addChild(energyIcon);
+    this.resourcePanel.addChild(energyIcon);
     
     // Energy count text with bar
     this.energyText = new Text({
@@ -674,7 +700,7 @@ export class Engine {
       }
     });
     this.energyText.position.set(40, 155);
-    uiPanel.addChild(this.energyText);
+    this.resourcePanel.addChild(this.energyText);
     
     // Energy bar background
     this.energyBarBg = new Graphics();
@@ -682,14 +708,14 @@ export class Engine {
     this.energyBarBg.fill({ color: 0x333333, alpha: 0.8 });
     this.energyBarBg.stroke({ width: 2, color: 0x000000 });
     this.energyBarBg.position.set(40, 190);
-    uiPanel.addChild(this.energyBarBg);
+    this.resourcePanel.addChild(this.energyBarBg);
     
     // Energy bar fill
     this.energyBarFill = new Graphics();
     this.energyBarFill.rect(0, 0, 200, 20);
     this.energyBarFill.fill({ color: 0xFFFF00, alpha: 0.9 });
     this.energyBarFill.position.set(40, 190);
-    uiPanel.addChild(this.energyBarFill);
+    this.resourcePanel.addChild(this.energyBarFill);
     
     // Current turn indicator (top center)
     this.gameInfoText = new Text({
@@ -777,35 +803,15 @@ export class Engine {
     leftTitle.position.set(boxWidth / 2, 15);
     leftBox.addChild(leftTitle);
     
+    const buildingLines: string[] = [];
+    BUILDING_KINDS.forEach((kind, index) => {
+      const def = BUILDINGS[kind];
+      if (index > 0) buildingLines.push("");
+      buildingLines.push(def.name.toUpperCase(), ...describeBuilding(def));
+    });
+
     const buildingsText = new Text({
-      text: [
-        'MISSILE TURRET',
-        'Cost: 150 Ore + 20 Energy',
-        'Heavy kinetic payload.',
-        'Slow reload, devastating impact.',
-        'Dmg: 250 | Ammo: 1',
-        '',
-        'LASER TURRET',
-        'Cost: 100 Ore + 20 Energy',
-        'Rapid-fire energy weapon.',
-        'Lower damage, higher rate.',
-        'Dmg: 100 | Ammo: 3',
-        '',
-        'MINE',
-        'Cost: 100 Ore + 15 Energy',
-        'Extracts precious ore from',
-        'asteroids. +75 ore/turn',
-        '',
-        'SOLAR PANEL',
-        'Cost: 75 Ore + 10 Energy',
-        'Harvests stellar energy.',
-        'Max energy +50',
-        '',
-        'DOME SHIELD',
-        'Cost: 75 Ore + 15 Energy',
-        'Defensive barrier. Absorbs',
-        'incoming fire. HP: 500',
-      ].join('\n'),
+      text: buildingLines.join("\n"),
       style: {
         fontFamily: 'Orbitron',
         fontSize: 13,
@@ -840,24 +846,24 @@ export class Engine {
     
     const controlsText = new Text({
       text: [
-        'PLACEMENT',
-        '• Click toolbar item to select',
-        '• Click grid to place building',
-        '• Must be inside your shield',
-        '  (glowing atmosphere)',
-        '',
-        'COMBAT',
-        '• Click & drag from turret',
-        '  to aim and fire',
-        '• Weapons use 20 energy',
-        '• Ammo regenerates per turn',
-        '',
-        'NAVIGATION',
-        '• Mouse wheel to zoom',
-        '• Click-drag to pan camera',
-        '• Press I to toggle this info',
-        '',
-        'TURNS',
+        "PLACEMENT",
+        "• Click toolbar item to select",
+        "• Click grid to place building",
+        "• Must be inside your shield",
+        "  (glowing atmosphere)",
+        "",
+        "COMBAT",
+        "• Click & drag from turret",
+        "  to aim and fire",
+        "• Each shot uses energy",
+        "• Ammo regenerates per turn",
+        "",
+        "NAVIGATION",
+        "• Mouse wheel to zoom",
+        "• Click-drag to pan camera",
+        "• Press I to toggle this info",
+        "",
+        "TURNS",
         '• Click "End Turn" to switch',
         '• Energy resets each turn',
         '• Ore accumulates',
@@ -906,168 +912,39 @@ export class Engine {
     }
   }
 
-  // Generate asteroids and planets
-  generateWorld(asteroidTexture: Texture, planetTexture: Texture, shieldTexture?: Texture, blackHoleTexture?: Texture) {
-    // Calculate scales based on TILE_SIZE
-    const blackHoleScale = blackHoleTexture ? (this.TILE_SIZE * BLACK_HOLE_TILES) / blackHoleTexture.width : 1;
-    const planetScale = (this.TILE_SIZE * PLANET_TILES) / planetTexture.width;
-
-    // Shield radius is 2x the planet radius (expanded from 1.4x)
-    this.shieldRadius = Math.round(PLANET_RADIUS * 2.0);
-
-    // Generate planets FIRST (so asteroids can avoid them)
-    const sharedRotationSpeed =
-      (Math.random() * (PLANET_ROTATION_MAX - PLANET_ROTATION_MIN) +
-        PLANET_ROTATION_MIN) *
-      (Math.random() < 0.5 ? 1 : -1);
-    
-    // Random starting rotations for visual variety
-    const planet1StartRotation = Math.random() * Math.PI * 2;
-    const planet2StartRotation = Math.random() * Math.PI * 2;
-
-    // Planet 1 (left side - close to edge, not in leftmost third)
-    // Place in the range of 10-25% from left edge
-    for (let attempt = 0; attempt < 100; attempt++) {
-      const x = Math.floor(this.GRID_WIDTH * 0.1 + Math.random() * (this.GRID_WIDTH * 0.15));
-      const y = Math.floor(Math.random() * this.GRID_HEIGHT);
-
-      if (this.canPlaceInRadius(x, y, PLANET_RADIUS)) {
-        const planet1 = createSprite("planet", {
-          texture: planetTexture,
-          rotationSpeed: sharedRotationSpeed,
-          name: "Player 1 Base",
-          centerX: x,
-          centerY: y,
-          shieldTexture: shieldTexture,
-          initialRotation: planet1StartRotation,
-        });
-        (planet1.getDisplay() as Container).scale.set(planetScale);
-
-        this.placeSprite(x, y, planet1);
-        this.player1Base = planet1 as PlanetSprite; // Store reference
-        
-        // Create gravity field for planet
-        applyGravityField(this.grid, x, y, 35, 0.5);
-        
-        break;
-      }
-    }
-
-    // Planet 2 (right side - close to edge, mirror of planet 1)
-    // Place in the range of 75-90% from left edge
-    for (let attempt = 0; attempt < 100; attempt++) {
-      const x = Math.floor(this.GRID_WIDTH * 0.75 + Math.random() * (this.GRID_WIDTH * 0.15));
-      const y = Math.floor(Math.random() * this.GRID_HEIGHT);
-
-      if (this.canPlaceInRadius(x, y, PLANET_RADIUS)) {
-        const planet2 = createSprite("planet", {
-          texture: planetTexture,
-          rotationSpeed: sharedRotationSpeed,
-          name: "Player 2 Base",
-          centerX: x,
-          centerY: y,
-          shieldTexture: shieldTexture,
-          initialRotation: planet2StartRotation,
-        });
-        (planet2.getDisplay() as Container).scale.set(planetScale);
-
-        this.placeSprite(x, y, planet2);
-        this.player2Base = planet2 as PlanetSprite; // Store reference
-        
-        // Create gravity field for planet
-        applyGravityField(this.grid, x, y, 35, 0.5);
-        
-        break;
-      }
-    }
-
-    // Generate asteroids (avoiding planet shields)
-    let placed = 0;
-    let attempts = 0;
-    const maxAttempts = NUM_ASTEROIDS * 10;
-
-    while (placed < NUM_ASTEROIDS && attempts < maxAttempts) {
-      attempts++;
-      const x = Math.floor(Math.random() * this.GRID_WIDTH);
-      const y = Math.floor(Math.random() * this.GRID_HEIGHT);
-
-      // Check if position is valid and not within shield radius of any planet
-      let tooCloseToShield = false;
-      for (const planet of this.planets) {
-        const dx = x - planet.centerX;
-        const dy = y - planet.centerY;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        // Add asteroid radius to shield radius to ensure no overlap
-        if (distance < this.shieldRadius + ASTEROID_RADIUS) {
-          tooCloseToShield = true;
-          break;
-        }
-      }
-
-      if (!tooCloseToShield && this.canPlaceInRadius(x, y, ASTEROID_RADIUS)) {
-        const rotationSpeed =
-          (Math.random() * (ASTEROID_ROTATION_MAX - ASTEROID_ROTATION_MIN) +
-            ASTEROID_ROTATION_MIN) *
-          (Math.random() < 0.5 ? 1 : -1);
-
-        // Random scale between 0.5 and 1.5
-        const randomScale = 0.5 + Math.random();
-
-        const asteroid = createSprite("asteroid", {
-          texture: asteroidTexture,
-          rotationSpeed,
-          scale: randomScale,
-        });
-
-        this.placeSprite(x, y, asteroid);
-        
-        // Create stronger gravity field for asteroid to affect projectiles more
-        applyGravityField(this.grid, x, y, 15, 0.35);
-        
-        placed++;
-      }
-    }
-    console.log(`Placed ${placed} asteroids out of ${NUM_ASTEROIDS} attempts`);
-
-    // Generate black holes as large obstacles in the middle zone between planets
-    if (blackHoleTexture) {
-      let blackHolesPlaced = 0;
-      for (let attempt = 0; attempt < 100 && blackHolesPlaced < NUM_BLACK_HOLES; attempt++) {
-        // Bias black holes to spawn in the middle 60% of the map (20-80% from left edge)
-        const x = Math.floor(this.GRID_WIDTH * 0.2 + Math.random() * (this.GRID_WIDTH * 0.6));
-        const y = Math.floor(Math.random() * this.GRID_HEIGHT);
-
-        // Check if position is not within shield radius of any planet
-        let tooCloseToShield = false;
-        for (const planet of this.planets) {
-          const dx = x - planet.centerX;
-          const dy = y - planet.centerY;
-          const distance = Math.sqrt(dx * dx + dy * dy);
-          // Add black hole radius to shield radius to ensure no overlap
-          if (distance < this.shieldRadius + BLACK_HOLE_RADIUS) {
-            tooCloseToShield = true;
-            break;
-          }
-        }
-
-        if (!tooCloseToShield && this.canPlaceInRadius(x, y, BLACK_HOLE_RADIUS)) {
-          const rotationSpeed = Math.random() * 0.003 + 0.001; // Slow rotation
-          const blackHole = createSprite("blackhole", {
-            texture: blackHoleTexture,
-            rotationSpeed,
-          });
-          (blackHole.getDisplay() as Sprite).scale.set(blackHoleScale);
+  // Generate asteroids, black holes and planets for a fresh match. Unfair worlds are
+  // rerolled on the following seeds until every side can hit the others about as easily
+  generateWorld(
+    layout: WorldLayout = "random",
+    playerCount = this.state.playerCount,
+    settings: Partial<MatchSettings> = this.state.settings,
+    size = { width: this.state.width, height: this.state.height },
+  ) {
+    const { state, report, attempts } = generateFairWorld(
+      size.width,
+      size.height,
+      this.state.seed,
+      layout,
+      5,
+      playerCount,
+      settings,
+    );
+    this.replaceMatch(state);
+    this.fairness = { state, report, attempts };
+    console.log(`Using seed ${state.seed} after ${attempts} fairness check(s)`);
+    if (this.seedText) this.seedText.text = this.seedLabel();
+  }
 
-          this.placeSprite(x, y, blackHole);
-          
-          // Create stronger gravity field for black hole
-          applyGravityField(this.grid, x, y, 30, 1.0);
-          
-          blackHolesPlaced++;
-        }
-      }
-      console.log(`Placed ${blackHolesPlaced} black holes out of ${NUM_BLACK_HOLES} attempts`);
+  // Fairness report for the world being shown (maps and generated worlds alike)
+  private fairnessReport(): { report: FairnessReport; attempts: number } {
+    if (!this.fairness || this.fairness.state !== this.state) {
+      this.fairness = {
+        state: this.state,
+        report: analyzeFairness(this.state),
+        attempts: 1,
+      };
     }
+    return this.fairness;
   }
 
   // Initialize tooltip UI
@@ -1134,17 +1011,27 @@ export class Engine {
     this.mainMenuContainer.addChild(subtitle);
     
     // Play Button
-    const playButton = this.createMenuButton('LOCAL MULTIPLAYER', this.app.screen.width / 2, 320, () => {
-      this.isAIMode = false;
-      this.showStoryScreen();
-    });
+    const playButton = this.createMenuButton(
+      "LOCAL MULTIPLAYER",
+      this.app.screen.width / 2,
+      320,
+      () => {
+        this.isAIMode = false;
+        this.showSetupScreen();
+      },
+    );
     this.mainMenuContainer.addChild(playButton);
     
     // AI Button
-    const aiButton = this.createMenuButton('VS AI', this.app.screen.width / 2, 420, () => {
-      this.isAIMode = true;
-      this.showStoryScreen();
-    });
+    const aiButton = this.createMenuButton(
+      "VS AI",
+      this.app.screen.width / 2,
+      420,
+      () => {
+        this.isAIMode = true;
+        this.showDifficultyMenu();
+      },
+    );
     this.mainMenuContainer.addChild(aiButton);
     
     // Instructions Button
@@ -1152,6 +1039,153 @@ export class Engine {
       this.showInstructions();
     });
     this.mainMenuContainer.addChild(instructionsButton);
+
+    // Map editor Button
+    const editorButton = this.createMenuButton(
+      "MAP EDITOR",
+      this.app.screen.width / 2,
+      620,
+      () => {
+        this.startEditor();
+      },
+    );
+    this.mainMenuContainer.addChild(editorButton);
+
+    // Continue Button (only when an unfinished match was autosaved)
+    const autosave = loadFromLocalStorage();
+    if (autosave) {
+      const continueButton = this.createMenuButton(
+        "CONTINUE",
+        this.app.screen.width / 2,
+        720,
+        () => {
+          this.loadSave(autosave);
+          this.startGame();
+        },
+      );
+      this.mainMenuContainer.addChild(continueButton);
+    }
+
+    // Load a match from an exported file
+    const loadButton = this.createMenuButton(
+      "LOAD FILE",
+      this.app.screen.width / 2,
+      autosave ? 820 : 720,
+      () => {
+        this.importSave();
+      },
+    );
+    this.mainMenuContainer.addChild(loadButton);
+  }
+
+  // Small UI button used for save export/import
+  private createSmallButton(
+    text: string,
+    x: number,
+    onClick: () => void,
+  ): Graphics {
+    const button = new Graphics();
+    button.rect(0, 0, 75, 30);
+    button.fill({ color: 0x003366, alpha: 0.8 });
+    button.stroke({ width: 2, color: 0x00ffff });
+    button.position.set(x, 0);
+    button.eventMode = "static";
+    button.cursor = "pointer";
+
+    const label = new Text({
+      text: text,
+      style: { fontSize: 14, fill: 0xffffff, fontWeight: "bold" },
+    });
+    label.anchor.set(0.5);
+    label.position.set(37.5, 15);
+    button.addChild(label);
+
+    button.on("pointerdown", (e: FederatedPointerEvent) => {
+      e.stopPropagation();
+      onClick();
+    });
+
+    return button;
+  }
+
+  // Ask for a save file and load it (starting the game if we're still in the menu)
+  private importSave() {
+    pickSaveFile()
+      .then((data) => {
+        this.loadSave(data);
+        if (!this.gameStarted) {
+          this.startGame();
+        }
+      })
+      .catch((err) => {
+        console.error("Could not load save:", err);
+        this.soundManager.play("invalidPlacement");
+      });
+  }
+
+  // Replace the current match with a saved one
+  loadSave(data: SaveData) {
+    const { state, aiMode, aiDifficulty } = deserializeState(data);
+    this.replaceMatch(state);
+    this.isAIMode = aiMode;
+    this.aiDifficulty = aiDifficulty;
+    console.log(`Loaded save from ${data.savedAt} (seed ${data.seed})`);
+
+    if (state.winner) {
+      this.endGame(state.winner);
+    } else if (this.isAITurn()) {
+      this.aiThinkingDelay = 60; // Resume the AI's turn
+    }
+  }
+
+  // Start a new match on a hand-authored map (keeps the current seed for gameplay rolls)
+  loadMap(
+    map: GameMap,
+    settings: Partial<MatchSettings> = this.state.settings,
+  ) {
+    const state = new GameState(
+      map.width,
+      map.height,
+      this.state.seed,
+      mapPlayerCount(map),
+      settings,
+    );
+    state.loadMap(map);
+    this.replaceMatch(state);
+  }
+
+  // Show a different match and reset everything tied to the old one
+  private replaceMatch(state: GameState) {
+    if (this.replay) this.exitReplay();
+
+    this.attachState(state);
+    this.aiRng = new Random(state.seed ^ 0x9e3779b9);
+    this.aiPlanners.clear();
+    this.gameOver = false;
+    this.winner = null;
+    this.aiThinkingDelay = 0;
+    this.autosavePending = false;
+    this.physicsAccumulator = 0;
+
+    if (this.gameOverContainer) {
+      this.uiContainer.removeChild(this.gameOverContainer);
+      this.gameOverContainer = null;
+    }
+
+    if (this.seedText) this.seedText.text = this.seedLabel();
+    this.needsOccupiedCellsRedraw = true;
+    this.updateGameInfo();
+  }
+
+  // Seed display text (maps show their name too)
+  private seedLabel(): string {
+    if (this.state.map) {
+      return `Map: ${this.state.map.name} - Seed: ${this.state.seed}`;
+    }
+    if (this.state.layout !== "random") {
+      return `${WORLD_LAYOUT_NAMES[this.state.layout]} - Seed: ${this.state.seed}`;
+    }
+    return `Seed: ${this.state.seed}`;
   }
   
   // Helper to create menu buttons
@@ -1200,41 +1234,314 @@ export class Engine {
     return button;
   }
   
-  // Show humorous story screen before starting game
-  private showStoryScreen() {
-    const storyContainer = new Container();
-    this.uiContainer.addChild(storyContainer);
-    
-    // Full opacity background
+  // Pick how well the AI plays, then set up the match
+  private showDifficultyMenu() {
+    const difficultyContainer = new Container();
+    this.uiContainer.addChild(difficultyContainer);
+
     const overlay = new Graphics();
     overlay.rect(0, 0, this.app.screen.width, this.app.screen.height);
     overlay.fill({ color: 0x000000, alpha: 1.0 });
-    storyContainer.addChild(overlay);
-    
-    // Story panel
-    const panelWidth = 750;
-    const panelHeight = 600;
-    const panelX = (this.app.screen.width - panelWidth) / 2;
-    const panelY = (this.app.screen.height - panelHeight) / 2;
-    
-    const panel = new Graphics();
-    panel.rect(0, 0, panelWidth, panelHeight);
-    panel.fill({ color: 0x001122, alpha: 1 });
-    panel.stroke({ width: 4, color: 0x00ffff });
-    panel.position.set(panelX, panelY);
-    storyContainer.addChild(panel);
-    
-    // Title
+    difficultyContainer.addChild(overlay);
+
     const title = new Text({
-      text: 'THE GREAT SPACE FEUD',
+      text: "AI DIFFICULTY",
       style: {
-        fontFamily: 'Orbitron',
-        fontSize: 36,
+        fontFamily: "Orbitron",
+        fontSize: 48,
         fill: 0x00ffff,
-        fontWeight: 'bold',
-      }
+        fontWeight: "bold",
+      },
     });
-    title.anchor.set(0.5, 0);
+    title.anchor.set(0.5);
+    title.position.set(this.app.screen.width / 2, 180);
+    difficultyContainer.addChild(title);
+
+    AI_DIFFICULTIES.forEach((difficulty, i) => {
+      const button = this.createMenuButton(
+        AI_PROFILES[difficulty].name.toUpperCase(),
+        this.app.screen.width / 2,
+        300 + i * 100,
+        () => {
+          this.aiDifficulty = difficulty;
+          this.aiPlanners.clear();
+          console.log(`AI difficulty: ${AI_PROFILES[difficulty].name}`);
+          this.uiContainer.removeChild(difficultyContainer);
+          this.showSetupScreen();
+        },
+      );
+      difficultyContainer.addChild(button);
+    });
+
+    const backButton = this.createMenuButton(
+      "BACK",
+      this.app.screen.width / 2,
+      300 + AI_DIFFICULTIES.length * 100,
+      () => {
+        this.isAIMode = false;
+        this.uiContainer.removeChild(difficultyContainer);
+      },
+    );
+    difficultyContainer.addChild(backButton);
+  }
+
+  // Match setup: world size, players and rules. Starts from the current match, so URL options carry over
+  private showSetupScreen() {
+    const setupContainer = new Container();
+    this.uiContainer.addChild(setupContainer);
+
+    const overlay = new Graphics();
+    overlay.rect(0, 0, this.app.screen.width, this.app.screen.height);
+    overlay.fill({ color: 0x000000, alpha: 1.0 });
+    setupContainer.addChild(overlay);
+
+    const panelWidth = 750;
+    const panelHeight = 720;
+    const panel = new Graphics();
+    panel.rect(0, 0, panelWidth, panelHeight);
+    panel.fill({ color: 0x001122, alpha: 1 });
+    panel.stroke({ width: 4, color: 0x00ffff });
+    panel.position.set(
+      (this.app.screen.width - panelWidth) / 2,
+      Math.max(0, (this.app.screen.height - panelHeight) / 2),
+    );
+    setupContainer.addChild(panel);
+
+    const title = new Text({
+      text: "MATCH SETUP",
+      style: {
+        fontFamily: "Orbitron",
+        fontSize: 36,
+        fill: 0x00ffff,
+        fontWeight: "bold",
+      },
+    });
+    title.anchor.set(0.5, 0);
+    title.position.set(panelWidth / 2, 25);
+    panel.addChild(title);
+
+    // Maps bring their own size, players and bodies
+    const map = this.state.map;
+    let sizeIndex = WORLD_SIZES.findIndex(
+      (size) =>
+        size.width === this.state.width && size.height === this.state.height,
+    );
+    let playerCount = this.state.playerCount;
+    const settings: MatchSettings = { ...this.state.settings };
+
+    const step = (setting: NumericSetting, direction: number) => {
+      const range = SETTING_RANGES[setting];
+      settings[setting] = Math.min(
+        range.max,
+        Math.max(range.min, settings[setting] + direction * range.step),
+      );
+    };
+    const numberRow = (
+      setting: NumericSetting,
+      label: string,
+      fromMap = false,
+    ) => ({
+      label,
+      value: () => (fromMap && map ? "From map" : `${settings[setting]}`),
+      change:
+        fromMap && map ? null : (direction: number) => step(setting, direction),
+    });
+
+    // enabled - rows that only mean something with other settings (e.g. friendly fire needs teams)
+    const rows: {
+      label: string;
+      value: () => string;
+      change: ((direction: number) => void) | null;
+      enabled?: () => boolean;
+    }[] = [
+      {
+        label: "World size",
+        value: () =>
+          map
+            ? `${map.width}x${map.height} (map)`
+            : sizeIndex < 0
+              ? `${this.state.width}x${this.state.height}`
+              : `${WORLD_SIZES[sizeIndex].name} (${WORLD_SIZES[sizeIndex].width}x${WORLD_SIZES[sizeIndex].height})`,
+        change: map
+          ? null
+          : (direction) => {
+              sizeIndex = Math.min(
+                WORLD_SIZES.length - 1,
+                Math.max(0, (sizeIndex < 0 ? 1 : sizeIndex) + direction),
+              );
+            },
+      },
+      {
+        label: "Players",
+        value: () => `${playerCount}${map ? " (map)" : ""}`,
+        change: map
+          ? null
+          : (direction) => {
+              playerCount = Math.min(
+                MAX_PLAYERS,
+                Math.max(MIN_PLAYERS, playerCount + direction),
+              );
+              if (playerCount !== 4)
+                settings.teams = settings.friendlyFire = false; // Teams are 2v2
+            },
+      },
+      {
+        label: "Teams",
+        value: () => (settings.teams ? "2v2" : "Free-for-all"),
+        change:
+          map && playerCount !== 4
+            ? null
+            : () => {
+                settings.teams = !settings.teams;
+                if (settings.teams) playerCount = 4;
+                else settings.friendlyFire = false;
+              },
+      },
+      {
+        label: "Friendly fire",
+        value: () =>
+          !settings.teams ? "-" : settings.friendlyFire ? "On" : "Off",
+        change: () => (settings.friendlyFire = !settings.friendlyFire),
+        enabled: () => settings.teams,
+      },
+      numberRow("asteroidCount", "Asteroids", true),
+      numberRow("blackHoleCount", "Black holes", true),
+      numberRow("startingOre", "Starting ore"),
+      numberRow("startingEnergy", "Starting energy"),
+      numberRow("baseHealth", "Base HP"),
+      numberRow("oreIncomePerMine", "Ore per mine"),
+      {
+        label: "Turn limit (rounds)",
+        value: () =>
+          settings.turnLimit > 0 ? `${settings.turnLimit}` : "None",
+        change: (direction) => step("turnLimit", direction),
+      },
+    ];
+
+    const valueTexts: Text[] = [];
+    const rowButtons: Graphics[][] = [];
+    const refresh = () =>
+      rows.forEach((row, i) => {
+        valueTexts[i].text = row.value();
+        const enabled = row.enabled?.() ?? true;
+        rowButtons[i].forEach((button) => (button.visible = enabled));
+      });
+    rows.forEach((row, i) => {
+      const y = 95 + i * 44;
+      const label = new Text({
+        text: row.label,
+        style: { fontFamily: "Orbitron", fontSize: 18, fill: 0xffffff },
+      });
+      label.position.set(50, y + 4);
+      panel.addChild(label);
+
+      const value = new Text({
+        text: "",
+        style: { fontFamily: "Orbitron", fontSize: 18, fill: 0x00ffff },
+      });
+      value.anchor.set(0.5, 0);
+      value.position.set(550, y + 4);
+      panel.addChild(value);
+      valueTexts.push(value);
+      rowButtons.push([]);
+
+      if (row.change) {
+        const change = row.change;
+        const less = this.createSmallButton("<", 340, () => {
+          change(-1);
+          refresh();
+        });
+        const more = this.createSmallButton(">", 685, () => {
+          change(1);
+          refresh();
+        });
+        less.width = more.width = 40;
+        less.y = more.y = y;
+        panel.addChild(less);
+        panel.addChild(more);
+        rowButtons[i].push(less, more);
+      }
+    });
+    refresh();
+
+    const continueButton = this.createMenuButton(
+      "CONTINUE",
+      panelWidth / 2,
+      panelHeight - 60,
+      () => {
+        this.uiContainer.removeChild(setupContainer);
+        this.showStoryScreen(() =>
+          this.applySetup(sizeIndex, playerCount, settings),
+        );
+      },
+    );
+    panel.addChild(continueButton);
+  }
+
+  // Rebuild the world if the setup screen changed anything it depends on
+  private applySetup(
+    sizeIndex: number,
+    playerCount: number,
+    settings: MatchSettings,
+  ) {
+    const size =
+      sizeIndex < 0
+        ? { width: this.state.width, height: this.state.height }
+        : WORLD_SIZES[sizeIndex];
+    const unchanged =
+      size.width === this.state.width &&
+      size.height === this.state.height &&
+      playerCount === this.state.playerCount &&
+      JSON.stringify(settings) === JSON.stringify(this.state.settings);
+    if (unchanged) return;
+
+    console.log(
+      `Match setup: ${size.width}x${size.height}, ${playerCount} players,`,
+      settings,
+    );
+    if (this.state.map) {
+      this.loadMap(this.state.map, settings);
+      return;
+    }
+    this.generateWorld(this.state.layout, playerCount, settings, size);
+  }
+
+  // Show humorous story screen before starting game. prepare (e.g. rebuilding the world
+  // for new match settings) runs once the screen is up
+  private showStoryScreen(prepare?: () => void) {
+    const storyContainer = new Container();
+    this.uiContainer.addChild(storyContainer);
+    
+    // Full opacity background
+    const overlay = new Graphics();
+    overlay.rect(0, 0, this.app.screen.width, this.app.screen.height);
+    overlay.fill({ color: 0x000000, alpha: 1.0 });
+    storyContainer.addChild(overlay);
+    
+    // Story panel
+    const panelWidth = 750;
+    const panelHeight = 640;
+    const panelX = (this.app.screen.width - panelWidth) / 2;
+    const panelY = (this.app.screen.height - panelHeight) / 2;
+    
+    const panel = new Graphics();
+    panel.rect(0, 0, panelWidth, panelHeight);
+    panel.fill({ color: 0x001122, alpha: 1 });
+    panel.stroke({ width: 4, color: 0x00ffff });
+    panel.position.set(panelX, panelY);
+    storyContainer.addChild(panel);
+    
+    // Title
+    const title = new Text({
+      text: 'THE GREAT SPACE FEUD',
+      style: {
+        fontFamily: 'Orbitron',
+        fontSize: 36,
+        fill: 0x00ffff,
+        fontWeight: 'bold',
+      }
+    });
+    title.anchor.set(0.5, 0);
     title.position.set(panelWidth / 2, 30);
     panel.addChild(title);
     
@@ -1272,11 +1579,43 @@ export class Engine {
     story.position.set(50, 90);
     panel.addChild(story);
     
-    // Begin button
-    const beginButton = this.createMenuButton('ENGAGE IN PETTINESS', panelWidth / 2, panelHeight - 60, () => {
-      this.uiContainer.removeChild(storyContainer);
-      this.startGame();
+    // How even the sides' firing lanes are. Preparing the world and working this out takes
+    // a moment, so the screen is drawn first and the report filled in after
+    const fairnessText = new Text({
+      text: "Checking map fairness...",
+      style: {
+        fontSize: 13,
+        fill: 0xaaaaaa,
+        align: "center",
+        wordWrap: true,
+        wordWrapWidth: panelWidth - 60,
+      },
     });
+    fairnessText.anchor.set(0.5, 0);
+    fairnessText.position.set(panelWidth / 2, 500);
+    panel.addChild(fairnessText);
+    let prepared = false;
+    const finishPreparing = () => {
+      if (prepared) return;
+      prepared = true;
+      prepare?.();
+      const { report, attempts } = this.fairnessReport();
+      fairnessText.text = describeFairness(report, attempts);
+      fairnessText.style.fill = report.fair ? 0x00ff88 : 0xffaa00;
+    };
+    requestAnimationFrame(() => setTimeout(finishPreparing, 0));
+
+    // Begin button
+    const beginButton = this.createMenuButton(
+      "ENGAGE IN PETTINESS",
+      panelWidth / 2,
+      panelHeight - 60,
+      () => {
+        finishPreparing(); // In case it's pressed before the screen was drawn
+        this.uiContainer.removeChild(storyContainer);
+        this.startGame();
+      },
+    );
     panel.addChild(beginButton);
   }
   
@@ -1296,14 +1635,11 @@ export class Engine {
     if (this.energyText) this.energyText.visible = true;
     if (this.energyBarBg) this.energyBarBg.visible = true;
     if (this.energyBarFill) this.energyBarFill.visible = true;
-    if (this.player1HealthText) this.player1HealthText.visible = true;
-    if (this.player2HealthText) this.player2HealthText.visible = true;
-    if (this.player1HealthBarBg) this.player1HealthBarBg.visible = true;
-    if (this.player1HealthBarFill) this.player1HealthBarFill.visible = true;
-    if (this.player2HealthBarBg) this.player2HealthBarBg.visible = true;
-    if (this.player2HealthBarFill) this.player2HealthBarFill.visible = true;
+    if (this.healthPanel) this.healthPanel.visible = true;
     if (this.endTurnButton) this.endTurnButton.visible = true;
     if (this.endTurnText) this.endTurnText.visible = true;
+    if (this.seedText) this.seedText.visible = true;
+    if (this.saveButtons) this.saveButtons.visible = true;
   }
   
   // Show instructions overlay
@@ -1368,34 +1704,37 @@ export class Engine {
         'Build defenses, gather resources, and destroy the enemy planet to win!',
         '',
         'OBJECTIVE',
-        '• Destroy the enemy planet (1200 HP) to win',
+        `• Destroy the enemy planet (${this.state.settings.baseHealth} HP) to win`,
         '• Protect your own planet from destruction',
         '',
         'RESOURCES',
         '• ORE: Used to build structures. Accumulates each turn.',
-        '  - Start with 600 ore',
-        '  - Mines generate +75 ore per turn',
+        `  - Start with ${this.state.settings.startingOre} ore`,
+        `  - Mines generate +${this.state.settings.oreIncomePerMine} ore per turn`,
         '• ENERGY: Powers your buildings. Resets each turn.',
-        '  - Start with 100 energy per turn',
-        '  - Solar Panels increase max energy by +50',
-        '  - Weapons consume 15 energy per shot',
-        '',
-        'BUILDINGS (Must be placed within your shield)',
-        '• MISSILE TURRET: 150 ore + 20 energy - Heavy damage (250)',
-        '• LASER TURRET: 100 ore + 20 energy - Fast damage (100)',
-        '• MINE: 100 ore + 15 energy - Generates +75 ore/turn',
-        '• SOLAR PANEL: 75 ore + 10 energy - Increases max energy',
-        '• DOME SHIELD: 75 ore + 15 energy - 500 HP defensive wall',
-        '',
-        'COMBAT',
-        '• Click and drag from your turrets to aim and fire',
-        '• Missiles: 1 ammo max, +1 per turn',
-        '• Lasers: 3 ammo max, +1 per turn',
-        '• All weapons consume 15 energy per shot',
-        '',
-        'CONTROLS',
-        '• Click toolbar items to select, then click grid to place',
-        '• Drag buildings to trash can to delete',
+        `  - Start with ${this.state.settings.startingEnergy} energy per turn`,
+        `  - Solar Panels increase max energy by +${BUILDINGS.solarPanel.maxEnergyBonus}`,
+        "  - Weapons consume energy per shot",
+        "",
+        "BUILDINGS (Must be placed within your shield)",
+        ...BUILDING_KINDS.map((kind) => {
+          const def = BUILDINGS[kind];
+          return `• ${def.name.toUpperCase()}: ${def.ore} ore + ${def.energy} energy - ${def.description}`;
+        }),
+        "",
+        "COMBAT",
+        "• Click and drag from your turrets to aim and fire",
+        ...BUILDING_KINDS.filter((kind) => BUILDINGS[kind].weapon).map(
+          (kind) => {
+            const def = BUILDINGS[kind];
+            const weapon = def.weapon!;
+            return `• ${def.name}: ${weapon.damage} damage, ${weapon.maxAmmo} ammo max, +${weapon.ammoRegenRate} per turn, ${weapon.fireEnergy} energy per shot`;
+          },
+        ),
+        "",
+        "CONTROLS",
+        "• Click toolbar items to select, then click grid to place",
+        "• Drag buildings to trash can to delete",
         '• Press "End Turn" when done building/attacking',
         '• Press "I" key to view detailed building stats',
         '• Mouse wheel to zoom, click-drag to pan',
@@ -1507,19 +1846,35 @@ export class Engine {
       lines.splice(1, 0, `Health: ${sprite.health}`);
     }
     
-    // Show owner if owned by a player
+    // Show owner if owned by a player (and whose side they're on in team matches)
+    const teams = this.state.settings.teams;
+    const allied = this.state.areAllies(sprite.owner, this.state.currentPlayer);
     if (sprite.owner > 0) {
-      lines.push(`Owner: Player ${sprite.owner}`);
-    }
-    
-    // Show ammo and damage for turrets
-    const turret = sprite as any;
-    if (turret.ammo !== undefined && turret.maxAmmo !== undefined) {
-      lines.push(`Ammo: ${turret.ammo}/${turret.maxAmmo}`);
-    }
-    if (turret.damage !== undefined) {
-      lines.push(`Damage: ${turret.damage}`);
-    }
+      const side = !teams
+        ? ""
+        : sprite.owner === this.state.currentPlayer
+          ? ""
+          : allied
+            ? " (teammate)"
+            : " (enemy)";
+      lines.push(`Owner: Player ${sprite.owner}${side}`);
+    }
+    
+    // Show ammo and damage for turrets - in team matches only your side's turrets give that away
+    if (isWeapon(sprite) && teams && !allied) {
+      lines.push("Ammo: unknown");
+    } else if (isWeapon(sprite)) {
+      lines.push(`Ammo: ${sprite.ammo}/${sprite.maxAmmo}`);
+      lines.push(`Damage: ${sprite.damage}`);
+      lines.push(`Shot cost: ${sprite.fireEnergy} energy`);
+    }
+
+    this.showTooltipLines(x, y, lines);
+  }
+
+  // Show a tooltip box with the given lines at (x, y)
+  showTooltipLines(x: number, y: number, lines: string[]) {
+    if (!this.tooltipBg || !this.tooltipText) return;
 
     this.tooltipText.text = lines.join("\n");
 
@@ -1551,9 +1906,9 @@ export class Engine {
     if (!this.showGrid) return; // Only draw when grid is visible
     
     // Draw occupied cells
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
+    for (let y = 0; y < this.state.height; y++) {
+      for (let x = 0; x < this.state.width; x++) {
+        const cell = this.state.grid[y][x];
         if (cell.occupied) {
           this.highlightGraphic.rect(
             x * this.TILE_SIZE,
@@ -1572,15 +1927,13 @@ export class Engine {
     const arrowScale = 3; // Scale factor for arrow length
     const minArrowMagnitude = 0.01; // Only draw arrows above this threshold
     
-    for (let y = 0; y < this.GRID_HEIGHT; y += arrowSpacing) {
-      for (let x = 0; x < this.GRID_WIDTH; x += arrowSpacing) {
-        const cell = this.grid[y][x];
-        const ax = cell.gravity.ax;
-        const ay = cell.gravity.ay;
+    for (let y = 0; y < this.state.height; y += arrowSpacing) {
+      for (let x = 0; x < this.state.width; x += arrowSpacing) {
+        const worldPos = this.state.gridToWorld(x, y);
+        const { ax, ay } = this.state.gravityAt(worldPos.x, worldPos.y);
         const magnitude = Math.sqrt(ax * ax + ay * ay);
         
         if (magnitude > minArrowMagnitude) {
-          const worldPos = this.gridToWorld(x, y);
           const endX = worldPos.x + ax * arrowScale * this.TILE_SIZE;
           const endY = worldPos.y + ay * arrowScale * this.TILE_SIZE;
           
@@ -1612,13 +1965,13 @@ export class Engine {
     }
     
     // Draw gravity radius circles for objects with gravity
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
+    for (let y = 0; y < this.state.height; y++) {
+      for (let x = 0; x < this.state.width; x++) {
+        const cell = this.state.grid[y][x];
         // Only draw for center cells to avoid duplicates
         if (cell.sprite && (!cell.centerX || (cell.centerX === x && cell.centerY === y))) {
           const sprite = cell.sprite;
-          const worldPos = this.gridToWorld(x, y);
+          const worldPos = this.state.gridToWorld(x, y);
           
           // Determine gravity radius based on sprite type
           let gravityRadius = 0;
@@ -1654,14 +2007,11 @@ export class Engine {
     if (this.energyText) this.energyText.visible = false;
     if (this.energyBarBg) this.energyBarBg.visible = false;
     if (this.energyBarFill) this.energyBarFill.visible = false;
-    if (this.player1HealthText) this.player1HealthText.visible = false;
-    if (this.player2HealthText) this.player2HealthText.visible = false;
-    if (this.player1HealthBarBg) this.player1HealthBarBg.visible = false;
-    if (this.player1HealthBarFill) this.player1HealthBarFill.visible = false;
-    if (this.player2HealthBarBg) this.player2HealthBarBg.visible = false;
-    if (this.player2HealthBarFill) this.player2HealthBarFill.visible = false;
+    if (this.healthPanel) this.healthPanel.visible = false;
     if (this.endTurnButton) this.endTurnButton.visible = false;
     if (this.endTurnText) this.endTurnText.visible = false;
+    if (this.seedText) this.seedText.visible = false;
+    if (this.saveButtons) this.saveButtons.visible = false;
     
     // Show main menu
     this.showMainMenu();
@@ -1676,7 +2026,7 @@ export class Engine {
         event.preventDefault();
         this.targetZoom += -event.deltaY * 0.001;
         this.targetZoom = Math.max(
-          MIN_ZOOM,
+          this.minZoom,
           Math.min(MAX_ZOOM, this.targetZoom),
         );
       },
@@ -1688,64 +2038,47 @@ export class Engine {
       (this.app as any).canvas ?? (this.app.renderer as any).view ?? (this.app as any).view;
 
     canvas.addEventListener("mousedown", (e: MouseEvent) => {
-      if (!this.gameStarted) return; // Ignore input until game starts
+      if (this.editor) {
+        this.editorMouseDown(e);
+        return;
+      }
+      if (!this.gameStarted || this.replay) return; // Ignore input until game starts and while replaying
       if (!this.isDraggingFromToolbar) {
         const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
         
-        // First check if clicking on a gun
-        if (gridX >= 0 && gridX < this.GRID_WIDTH && gridY >= 0 && gridY < this.GRID_HEIGHT) {
-          const cell = this.grid[gridY][gridX];
-          
-          if (cell.occupied) {
-            // For multi-tile sprites, get sprite from center cell
-            let sprite = cell.sprite;
-            let centerX = gridX;
-            let centerY = gridY;
-            
-            if (!sprite && cell.centerX !== undefined && cell.centerY !== undefined) {
-              centerX = cell.centerX;
-              centerY = cell.centerY;
-              sprite = this.grid[centerY][centerX].sprite;
-            }
+        // First check if clicking on a gun (multi-tile sprites resolve to their center cell)
+        const sprite = this.state.getSpriteAt(gridX, gridY);
 
-            if (sprite) {
-              console.log(`Clicked sprite: ${sprite.name}, type: ${sprite.type}, immutable: ${sprite.immutable}, owner: ${sprite.owner}`);
-              if (sprite.type === "Weapon") {
-                // Check if player owns this turret
-                if (sprite.owner !== this.currentPlayer) {
-                  console.log(`Cannot fire enemy turret!`);
-                  this.soundManager.play('invalidPlacement');
-                  return;
-                }
-                
-                // Turrets fire projectiles instead of being launched
-                this.isLaunching = true;
-                this.launchStartPos = { x: e.clientX, y: e.clientY };
-                this.launchSprite = sprite; // Store turret reference to get position
-                console.log(`Click and drag to fire projectile from ${sprite.name}`);
-              } else if (sprite.immutable) {
-                console.log(`Cannot move ${sprite.name} - it's immutable`);
-                this.isDragging = true;
-                this.dragStart.x = e.clientX - this.world.x;
-                this.dragStart.y = e.clientY - this.world.y;
-              } else {
-                // Start launch mode for bunnies
-                this.isLaunching = true;
-                this.launchStartPos = { x: e.clientX, y: e.clientY };
-                this.launchSprite = sprite;
-                console.log(`Click and drag to launch ${sprite.name}`);
-              }
-            } else {
-              // Start panning
-              this.isDragging = true;
-              this.dragStart.x = e.clientX - this.world.x;
-              this.dragStart.y = e.clientY - this.world.y;
+        if (sprite) {
+          console.log(
+            `Clicked sprite: ${sprite.name}, type: ${sprite.type}, immutable: ${sprite.immutable}, owner: ${sprite.owner}`,
+          );
+          if (sprite.type === "Weapon") {
+            // Check if player owns this turret
+            if (sprite.owner !== this.state.currentPlayer) {
+              console.log(`Cannot fire enemy turret!`);
+              this.soundManager.play("invalidPlacement");
+              return;
             }
-          } else {
-            // Start panning
+
+            // Turrets fire projectiles instead of being launched
+            this.isLaunching = true;
+            this.launchStartPos = { x: e.clientX, y: e.clientY };
+            this.launchSprite = sprite; // Store turret reference to get position
+            console.log(
+              `Click and drag to fire projectile from ${sprite.name}`,
+            );
+          } else if (sprite.immutable) {
+            console.log(`Cannot move ${sprite.name} - it's immutable`);
             this.isDragging = true;
             this.dragStart.x = e.clientX - this.world.x;
             this.dragStart.y = e.clientY - this.world.y;
+          } else {
+            // Start launch mode for bunnies
+            this.isLaunching = true;
+            this.launchStartPos = { x: e.clientX, y: e.clientY };
+            this.launchSprite = sprite;
+            console.log(`Click and drag to launch ${sprite.name}`);
           }
         } else {
           // Start panning
@@ -1757,111 +2090,46 @@ export class Engine {
     });
 
     canvas.addEventListener("mouseup", (e: MouseEvent) => {
-      if (!this.gameStarted) return; // Ignore input until game starts
-      if (this.gameOver) {
-        // Allow dragging camera even when game is over, but prevent other actions
+      if (this.editor) {
+        this.editorMouseUp(e);
+        return;
+      }
+      if (!this.gameStarted || this.replay) return; // Ignore input until game starts and while replaying
+      if (
+        this.state.gameOver ||
+        (this.online && !this.online.isLocalTurn(this.state))
+      ) {
+        // Allow dragging camera even when game is over (or it's the online opponent's turn), but prevent other actions
         this.isDragging = false;
         this.isLaunching = false;
         this.launchStartPos = null;
         this.launchSprite = null;
         this.aimerGraphics.clear();
-        this.isDraggingFromToolbar = false;
-        if (this.previewSprite) {
-          this.world.removeChild(this.previewSprite);
-          this.previewSprite = null;
-        }
-        this.selectedTexture = null;
+        this.clearToolbarDrag();
         return;
       }
       
       if (this.isLaunching && this.launchStartPos && this.launchSprite) {
         // Calculate launch velocity based on drag distance
-        const dx = this.launchStartPos.x - e.clientX;
-        const dy = this.launchStartPos.y - e.clientY;
-        
+        const { vx, vy } = this.launchVelocity(
+          this.launchSprite,
+          e.clientX,
+          e.clientY,
+        );
+
         // Check if launching from a turret (fire projectile) or launching a bunny
         if (this.launchSprite.type === "Weapon") {
-          // Check if player has energy remaining
-          const energyCost = 15; // Reduced for faster games
-          if (this.playerEnergy[this.currentPlayer] < energyCost) {
-            console.log("Not enough energy to fire!");
-            this.soundManager.play('invalidPlacement');
-            this.isLaunching = false;
-            this.launchStartPos = null;
-            this.launchSprite = null;
-            this.aimerGraphics.clear();
-            return;
-          }
-          
-          // Fire a projectile from turret instead of launching the turret
-          if (this.bunnyTexture) {
-            // Check if turret has ammo
-            const turret = this.launchSprite as any;
-            if (turret.ammo !== undefined && turret.ammo <= 0) {
-              console.log(`${this.launchSprite.name} has no ammo!`);
-              this.soundManager.play('invalidPlacement');
-              this.isLaunching = false;
-              this.launchStartPos = null;
-              this.launchSprite = null;
-              this.aimerGraphics.clear();
-              return;
-            }
-            
-            // Choose projectile texture and sound based on turret type
-            const isLaserTurret = this.launchSprite.name === "Laser Turret";
-            const projectileTexture = isLaserTurret ? this.laserTexture : this.missileTexture;
-            const soundEffect = isLaserTurret ? 'laser' : 'missileFire';
-            
-            const projectile = createSprite("bunny", {
-              texture: projectileTexture || this.bunnyTexture,
-              name: "Projectile",
-            });
-            
-            // Scale the projectile
-            const BUNNY_TILES = 1;
-            const projectileScale = ((this.TILE_SIZE * BUNNY_TILES) / Math.max((projectileTexture || this.bunnyTexture).width, (projectileTexture || this.bunnyTexture).height));
-            (projectile.getDisplay() as Sprite).scale.set(projectileScale);
-            
-            // Position at turret location
-            const turretPos = this.launchSprite.getDisplay().position;
-            projectile.getDisplay().position.set(turretPos.x, turretPos.y);
-            
-            // Set velocity based on drag (lasers are faster)
-            const velocityScale = isLaserTurret ? 0.15 : 0.1;
-            projectile.vx = dx * velocityScale;
-            projectile.vy = dy * velocityScale;
-            
-            // Store reference to firing turret and damage
-            (projectile as any).firingTurret = this.launchSprite;
-            (projectile as any).damage = turret.damage || 50; // Use turret's damage value
-            (projectile as any).isLaser = isLaserTurret; // Track projectile type for particle effects
-            
-            // Add to world and projectiles array (will be added to grid when it moves)
-            this.world.addChild(projectile.getDisplay());
-            this.projectiles.push(projectile);
-            
-            // Create particle trail for this projectile
-            this.particleTrails.set(projectile, []);
-            
-            // Decrement turret ammo
-            if (turret.ammo !== undefined) {
-              turret.ammo--;
-            }
-            
-            // Deduct energy cost
-            this.playerEnergy[this.currentPlayer] -= energyCost;
-            this.updateGameInfo();
-            
-            this.soundManager.play(soundEffect);
-            console.log(`Turret fired projectile with velocity (${projectile.vx.toFixed(2)}, ${projectile.vy.toFixed(2)})`);
-          }
+          this.fireTurret(this.launchSprite, vx, vy);
         } else {
           // Launch the sprite itself (bunnies)
-          const velocityScale = 0.1;
-          this.launchSprite.vx = dx * velocityScale;
-          this.launchSprite.vy = dy * velocityScale;
-          
-          console.log(`Launched ${this.launchSprite.name} with velocity (${this.launchSprite.vx.toFixed(2)}, ${this.launchSprite.vy.toFixed(2)})`);
+          this.state.execute({
+            type: "launch",
+            player: this.state.currentPlayer,
+            gridX: this.launchSprite.gridX,
+            gridY: this.launchSprite.gridY,
+            vx,
+            vy,
+          });
         }
         
         // Reset launch state and clear aimer
@@ -1869,342 +2137,68 @@ export class Engine {
         this.launchStartPos = null;
         this.launchSprite = null;
         this.aimerGraphics.clear();
-      } else if (this.isDraggingFromToolbar && this.previewSprite && this.selectedTexture) {
-        if (this.gameOver) return; // Prevent placement when game is over
-        
+      } else if (
+        this.isDraggingFromToolbar &&
+        this.previewSprite &&
+        this.selectedKind
+      ) {
         const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
 
-        if (gridX >= 0 && gridX < this.GRID_WIDTH && gridY >= 0 && gridY < this.GRID_HEIGHT) {
-          const isTurret = this.selectedTexture === this.turretTexture;
-          const isLaserTurret = this.selectedTexture === this.gunTexture; // gunTexture now holds laser turret
-          
-          if (isTurret) {
-            // Turret placement - fires bunny projectiles
-            const turretCost = 150; // Reduced for faster games
-            const turretEnergyCost = 20; // Reduced for faster games
-            
-            if (this.playerOre[this.currentPlayer] < turretCost) {
-              console.log("Not enough ore to buy turret!");
-              this.soundManager.play('invalidPlacement');
-            } else if (this.playerEnergy[this.currentPlayer] < turretEnergyCost) {
-              console.log("Not enough energy to build turret!");
-              this.soundManager.play('invalidPlacement');
-            } else if (!this.isWithinPlayerShield(gridX, gridY)) {
-              console.log("Cannot place turret - must be within your shield!");
-              this.soundManager.play('invalidPlacement');
-            } else {
-              const sprite = createSprite("turret", {
-                texture: this.selectedTexture,
-                name: "Turret",
-              });
-              sprite.owner = this.currentPlayer; // Set ownership
-              
-              if (this.canPlaceInRadius(gridX, gridY, sprite.radius)) {
-                const spriteScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(this.selectedTexture.width, this.selectedTexture.height));
-                const spriteDisplay = sprite.getDisplay() as Sprite;
-                spriteDisplay.scale.set(spriteScale);
-                
-                // Flip turret if on right half of screen
-                if (gridX > this.GRID_WIDTH / 2) {
-                  spriteDisplay.scale.x = -spriteScale;
-                }
-
-                const placed = this.placeSprite(gridX, gridY, sprite);
-                if (placed) {
-                  this.playerOre[this.currentPlayer] -= turretCost;
-                  this.playerEnergy[this.currentPlayer] -= turretEnergyCost;
-                  this.updateGameInfo();
-                  this.soundManager.play('placeBuilding');
-                  console.log(`Placed turret at grid (${gridX}, ${gridY}) with radius ${sprite.radius}`);
-                } else {
-                  this.soundManager.play('invalidPlacement');
-                  console.log("Cannot place turret - placeSprite failed");
-                }
-              } else {
-                this.soundManager.play('invalidPlacement');
-                console.log("Cannot place turret - cells occupied or out of bounds");
-              }
-            }
-          } else if (isLaserTurret) {
-            // Laser Turret placement
-            const laserTurretCost = 100; // Reduced for faster games
-            const laserTurretEnergyCost = 20; // Reduced for faster games
-            
-            if (this.playerOre[this.currentPlayer] < laserTurretCost) {
-              console.log("Not enough ore to buy laser turret!");
-              this.soundManager.play('invalidPlacement');
-            } else if (this.playerEnergy[this.currentPlayer] < laserTurretEnergyCost) {
-              console.log("Not enough energy to build laser turret!");
-              this.soundManager.play('invalidPlacement');
-            } else if (!this.isWithinPlayerShield(gridX, gridY)) {
-              console.log("Cannot place laser turret - must be within your shield!");
-              this.soundManager.play('invalidPlacement');
-            } else {
-              const sprite = createSprite("laserTurret", {
-                texture: this.selectedTexture,
-                name: "Laser Turret",
-              });
-              sprite.owner = this.currentPlayer; // Set ownership
-              
-              if (this.canPlaceInRadius(gridX, gridY, sprite.radius)) {
-                const spriteScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(this.selectedTexture.width, this.selectedTexture.height));
-                const spriteDisplay = sprite.getDisplay() as Sprite;
-                spriteDisplay.scale.set(spriteScale);
-                
-                // Flip laser turret if on right half of screen
-                if (gridX > this.GRID_WIDTH / 2) {
-                  spriteDisplay.scale.x = -spriteScale;
-                }
-
-                const placed = this.placeSprite(gridX, gridY, sprite);
-                if (placed) {
-                  this.playerOre[this.currentPlayer] -= laserTurretCost;
-                  this.playerEnergy[this.currentPlayer] -= laserTurretEnergyCost;
-                  this.updateGameInfo();
-                  this.soundManager.play('placeBuilding');
-                  console.log(`Placed laser turret at grid (${gridX}, ${gridY}) with radius ${sprite.radius}`);
-                } else {
-                  this.soundManager.play('invalidPlacement');
-                  console.log("Cannot place laser turret - placeSprite failed");
-                }
-              } else {
-                this.soundManager.play('invalidPlacement');
-                console.log("Cannot place laser turret - cells occupied or out of bounds");
-              }
-            }
-          } else if (this.selectedTexture === this.mineTexture) {
-            // Mine placement - generates ore per turn
-            const mineCost = 100; // Reduced for faster games
-            const mineEnergyCost = 15; // Reduced for faster games
-            
-            if (this.playerOre[this.currentPlayer] < mineCost) {
-              console.log("Not enough ore to buy mine!");
-              this.soundManager.play('invalidPlacement');
-            } else if (this.playerEnergy[this.currentPlayer] < mineEnergyCost) {
-              console.log("Not enough energy to build mine!");
-              this.soundManager.play('invalidPlacement');
-            } else if (!this.isWithinPlayerShield(gridX, gridY)) {
-              console.log("Cannot place mine - must be within your shield!");
-              this.soundManager.play('invalidPlacement');
-            } else {
-              const sprite = createSprite("mine", {
-                texture: this.selectedTexture,
-                name: "Mine",
-              });
-              sprite.owner = this.currentPlayer; // Set ownership
-              
-              if (this.canPlaceInRadius(gridX, gridY, sprite.radius)) {
-                const spriteScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(this.selectedTexture.width, this.selectedTexture.height));
-                (sprite.getDisplay() as Sprite).scale.set(spriteScale);
-
-                const placed = this.placeSprite(gridX, gridY, sprite);
-                if (placed) {
-                  this.playerOre[this.currentPlayer] -= mineCost;
-                  this.playerEnergy[this.currentPlayer] -= mineEnergyCost;
-                  this.playerMineCount[this.currentPlayer]++;
-                  this.updateGameInfo();
-                  this.soundManager.play('placeBuilding');
-                  console.log(`Placed mine at grid (${gridX}, ${gridY})`);
-                } else {
-                  this.soundManager.play('invalidPlacement');
-                  console.log("Cannot place mine - placeSprite failed");
-                }
-              } else {
-                this.soundManager.play('invalidPlacement');
-                console.log("Cannot place mine - cells occupied or out of bounds");
-              }
-            }
-          } else if (this.selectedTexture === this.solarPanelTexture) {
-            // Solar Panel placement - increases max energy
-            const solarCost = 75; // Reduced for faster games
-            const solarEnergyCost = 10; // Reduced for faster games
-            
-            if (this.playerOre[this.currentPlayer] < solarCost) {
-              console.log("Not enough ore to buy solar panel!");
-              this.soundManager.play('invalidPlacement');
-            } else if (this.playerEnergy[this.currentPlayer] < solarEnergyCost) {
-              console.log("Not enough energy to build solar panel!");
-              this.soundManager.play('invalidPlacement');
-            } else if (!this.isWithinPlayerShield(gridX, gridY)) {
-              console.log("Cannot place solar panel - must be within your shield!");
-              this.soundManager.play('invalidPlacement');
-            } else {
-              const sprite = createSprite("solarPanel", {
-                texture: this.selectedTexture,
-                name: "Solar Panel",
-              });
-              sprite.owner = this.currentPlayer; // Set ownership
-              
-              if (this.canPlaceInRadius(gridX, gridY, sprite.radius)) {
-                const spriteScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(this.selectedTexture.width, this.selectedTexture.height));
-                (sprite.getDisplay() as Sprite).scale.set(spriteScale);
-
-                const placed = this.placeSprite(gridX, gridY, sprite);
-                if (placed) {
-                  this.playerOre[this.currentPlayer] -= solarCost;
-                  this.playerEnergy[this.currentPlayer] -= solarEnergyCost;
-                  this.playerSolarCount[this.currentPlayer]++;
-                  this.playerMaxEnergy[this.currentPlayer] += 50; // +50 max energy per solar panel
-                  this.updateGameInfo();
-                  this.soundManager.play('placeBuilding');
-                  console.log(`Placed solar panel at grid (${gridX}, ${gridY})`);
-                } else {
-                  this.soundManager.play('invalidPlacement');
-                  console.log("Cannot place solar panel - placeSprite failed");
-                }
-              } else {
-                this.soundManager.play('invalidPlacement');
-                console.log("Cannot place solar panel - cells occupied or out of bounds");
-              }
-            }
-          } else if (this.selectedTexture === this.domeShieldTexture) {
-            // Dome Shield placement - defensive building with 500 HP
-            const domeShieldCost = 75; // Reduced for faster games
-            const domeShieldEnergyCost = 15; // Reduced for faster games
-            
-            if (this.playerOre[this.currentPlayer] < domeShieldCost) {
-              console.log("Not enough ore to buy dome shield!");
-              this.soundManager.play('invalidPlacement');
-            } else if (this.playerEnergy[this.currentPlayer] < domeShieldEnergyCost) {
-              console.log("Not enough energy to build dome shield!");
-              this.soundManager.play('invalidPlacement');
-            } else if (!this.isWithinPlayerShield(gridX, gridY)) {
-              console.log("Cannot place dome shield - must be within your shield!");
-              this.soundManager.play('invalidPlacement');
+        if (this.state.inBounds(gridX, gridY)) {
+          if (this.selectedKind === "bunny") {
+            // Bunny placement
+            const placed = this.state.execute({
+              type: "placeBunny",
+              player: this.state.currentPlayer,
+              gridX,
+              gridY,
+            });
+            if (placed.ok) {
+              this.soundManager.play("placeBuilding");
+              console.log(`Placed bunny at grid (${gridX}, ${gridY})`);
             } else {
-              const sprite = createSprite("domeShield", {
-                texture: this.selectedTexture,
-                name: "Dome Shield",
-              });
-              sprite.owner = this.currentPlayer; // Set ownership
-              
-              // Calculate rotation to be tangential to player's planet
-              const playerBase = this.currentPlayer === 1 ? this.player1Base : this.player2Base;
-              let rotation = 0;
-              if (playerBase) {
-                const planetPos = playerBase.getDisplay().position;
-                const worldPos = this.gridToWorld(gridX, gridY);
-                
-                // Calculate angle from dome shield to planet center
-                const dx = worldPos.x - planetPos.x;
-                const dy = worldPos.y - planetPos.y;
-                const angleToCenter = Math.atan2(dy, dx);
-                
-                // Rotate to be tangential (perpendicular to radius)
-                // Add 90 degrees (PI/2) to make it tangent to the circle
-                rotation = angleToCenter + Math.PI / 2;
-              }
-              
-              // Store rotation in sprite for later cleanup/collision
-              sprite.rotation = rotation;
-              
-              if (this.canPlaceInRadius(gridX, gridY, sprite.radius, sprite.shape, sprite.width, sprite.height, rotation)) {
-                // For dome shield (8x2 rectangle), scale larger to cover diagonal rotation
-                // At 45° rotation, diagonal is sqrt(8^2 + 2^2) ≈ 8.25 tiles
-                // Scale to 10 tiles to ensure full coverage at all angles
-                const spriteScale = ((this.TILE_SIZE * 10) / Math.max(this.selectedTexture.width, this.selectedTexture.height));
-                const spriteDisplay = sprite.getDisplay() as Sprite;
-                spriteDisplay.scale.set(spriteScale);
-                spriteDisplay.rotation = rotation;
-
-                const placed = this.placeSprite(gridX, gridY, sprite, rotation);
-                if (placed) {
-                  this.playerOre[this.currentPlayer] -= domeShieldCost;
-                  this.playerEnergy[this.currentPlayer] -= domeShieldEnergyCost;
-                  this.updateGameInfo();
-                  this.soundManager.play('placeBuilding');
-                  console.log(`Placed dome shield at grid (${gridX}, ${gridY})`);
-                } else {
-                  this.soundManager.play('invalidPlacement');
-                  console.log("Cannot place dome shield - placeSprite failed");
-                }
-              } else {
-                this.soundManager.play('invalidPlacement');
-                console.log("Cannot place dome shield - cells occupied or out of bounds");
-              }
+              this.soundManager.play("invalidPlacement");
+              console.log(
+                "Cannot place bunny - cells occupied or out of bounds",
+              );
             }
           } else {
-            // Bunny placement
-            const sprite = createSprite("bunny", {
-              texture: this.selectedTexture,
-              name: "Building",
+            const result = this.state.execute({
+              type: "placeBuilding",
+              player: this.state.currentPlayer,
+              kind: this.selectedKind,
+              gridX,
+              gridY,
             });
-            
-            if (this.canPlaceInRadius(gridX, gridY, sprite.radius)) {
-              const SPRITE_TILES = 1;
-              const spriteScale = ((this.TILE_SIZE * SPRITE_TILES) / Math.max(this.selectedTexture.width, this.selectedTexture.height));
-              (sprite.getDisplay() as Sprite).scale.set(spriteScale);
-
-              const placed = this.placeSprite(gridX, gridY, sprite);
-              if (placed) {
-                this.soundManager.play('placeBuilding');
-                console.log(`Placed bunny at grid (${gridX}, ${gridY}) with radius ${sprite.radius}`);
-              } else {
-                this.soundManager.play('invalidPlacement');
-                console.log("Cannot place bunny - placeSprite failed");
-              }
-            } else {
+            if (!result.ok) {
+              console.log(result.reason);
               this.soundManager.play('invalidPlacement');
-              console.log("Cannot place bunny - cells occupied or out of bounds");
             }
           }
         }
 
-        this.world.removeChild(this.previewSprite);
-        this.previewSprite = null;
-        this.highlightGraphic.clear();
-        this.selectedTexture = null;
+        this.clearToolbarDrag();
       } else if (this.isDraggingDeleteButton) {
         // Handle deletion if released over a building
         if (this.highlightedBuildingForDelete) {
           const sprite = this.highlightedBuildingForDelete;
           
-          // Find the sprite's grid position
-          let spriteGridX = -1;
-          let spriteGridY = -1;
-          outerLoop: for (let y = 0; y < this.GRID_HEIGHT; y++) {
-            for (let x = 0; x < this.GRID_WIDTH; x++) {
-              if (this.grid[y][x].sprite === sprite) {
-                spriteGridX = x;
-                spriteGridY = y;
-                break outerLoop;
-              }
-            }
-          }
-          
-          if (spriteGridX >= 0 && spriteGridY >= 0) {
-            // Calculate refund (1/4 of build cost)
-            let refund = 0;
-            if (sprite.name === "Turret") {
-              refund = Math.floor(200 / 4);
-            } else if (sprite.name === "Laser Turret") {
-              refund = Math.floor(300 / 4);
-            } else if (sprite.name === "Mine") {
-              refund = Math.floor(150 / 4);
-              this.playerMineCount[this.currentPlayer]--;
-            } else if (sprite.name === "Solar Panel") {
-              refund = Math.floor(100 / 4);
-              this.playerSolarCount[this.currentPlayer]--;
-              this.playerMaxEnergy[this.currentPlayer] -= 50;
-              // Cap current energy to new max
-              this.playerEnergy[this.currentPlayer] = Math.min(
-                this.playerEnergy[this.currentPlayer],
-                this.playerMaxEnergy[this.currentPlayer]
-              );
-            }
-            
-            // Remove tint before deletion
-            (sprite.getDisplay() as Sprite).tint = 0xffffff;
-            
-            // Delete the building
-            this.removeSprite(spriteGridX, spriteGridY);
-            
-            // Give refund
-            this.playerOre[this.currentPlayer] += refund;
-            this.updateGameInfo();
-            
-            this.soundManager.play('explosion');
-            console.log(`Deleted ${sprite.name}, refunded ${refund} ore`);
+          // Remove tint before deletion
+          this.setTint(sprite, 0xffffff);
+
+          const result = this.state.execute({
+            type: "trash",
+            player: this.state.currentPlayer,
+            gridX: sprite.gridX,
+            gridY: sprite.gridY,
+          });
+          if (result.ok) {
+            this.createExplosion(
+              sprite.x,
+              sprite.y,
+              Math.max(sprite.radius / 3, 1),
+            );
+            this.soundManager.play("explosion");
           }
           
           this.highlightedBuildingForDelete = null;
@@ -2221,7 +2215,18 @@ export class Engine {
     });
 
     canvas.addEventListener("mousemove", (e: MouseEvent) => {
-      if (!this.gameStarted) return; // Ignore input until game starts
+      // Editor: a body starts moving once the mouse has moved a little while pressed on it
+      if (
+        this.editorPress &&
+        Math.hypot(
+          e.clientX - this.editorPress.x,
+          e.clientY - this.editorPress.y,
+        ) > 4
+      ) {
+        this.startBodyDrag(this.editorPress.body, true);
+        this.editorPress = null;
+      }
+      if ((!this.gameStarted && !this.editor) || this.replay) return; // Ignore input until game starts and while replaying
       if (this.isDraggingDeleteButton) {
         // Move delete button with cursor
         const toolbarRelativeX = e.clientX - this.toolbar.position.x;
@@ -2230,49 +2235,24 @@ export class Engine {
         
         // Check if hovering over a building that can be deleted
         const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
-        if (gridX >= 0 && gridX < this.GRID_WIDTH && gridY >= 0 && gridY < this.GRID_HEIGHT) {
-          const cell = this.grid[gridY][gridX];
-          let sprite = cell.sprite;
-          if (!sprite && cell.centerX !== undefined && cell.centerY !== undefined) {
-            sprite = this.grid[cell.centerY][cell.centerX].sprite;
-          }
-          
-          // Can only delete buildings owned by current player (turrets, mines, solar panels - not planets, asteroids, black holes)
-          const isDeletableBuilding = sprite && sprite.owner === this.currentPlayer && 
-            (sprite.type === "Weapon" || sprite.type === "Resource");
-          
-          if (isDeletableBuilding && sprite) {
-            if (this.highlightedBuildingForDelete !== sprite) {
-              this.highlightedBuildingForDelete = sprite;
-              // Highlight the building with red tint
-              (sprite.getDisplay() as Sprite).tint = 0xff8888;
-            }
-          } else {
+        const sprite = this.state.getSpriteAt(gridX, gridY);
+
+        if (sprite && this.state.isDeletable(sprite)) {
+          if (this.highlightedBuildingForDelete !== sprite) {
             if (this.highlightedBuildingForDelete) {
-              (this.highlightedBuildingForDelete.getDisplay() as Sprite).tint = 0xffffff;
-              this.highlightedBuildingForDelete = null;
+              this.setTint(this.highlightedBuildingForDelete, 0xffffff);
             }
+            this.highlightedBuildingForDelete = sprite;
+            // Highlight the building with red tint
+            this.setTint(sprite, 0xff8888);
           }
-        } else {
-          if (this.highlightedBuildingForDelete) {
-            (this.highlightedBuildingForDelete.getDisplay() as Sprite).tint = 0xffffff;
-            this.highlightedBuildingForDelete = null;
-          }
+        } else if (this.highlightedBuildingForDelete) {
+          this.setTint(this.highlightedBuildingForDelete, 0xffffff);
+          this.highlightedBuildingForDelete = null;
         }
       } else if (this.isDraggingFromToolbar && this.previewSprite) {
         const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
-
-        if (gridX >= 0 && gridX < this.GRID_WIDTH && gridY >= 0 && gridY < this.GRID_HEIGHT) {
-          const worldPos = this.gridToWorld(gridX, gridY);
-          this.previewSprite.position.set(worldPos.x, worldPos.y);
-
-          this.highlightGraphic.clear();
-          const canPlace = this.canPlaceInRadius(gridX, gridY, 0);
-          const color = canPlace ? 0x00ff00 : 0xff0000;
-
-          this.highlightGraphic.rect(gridX * this.TILE_SIZE, gridY * this.TILE_SIZE, this.TILE_SIZE, this.TILE_SIZE);
-          this.highlightGraphic.fill({ color, alpha: 0.3 });
-        }
+        this.movePreview(gridX, gridY);
       } else if (this.isLaunching && this.launchStartPos && this.launchSprite) {
         // Draw aimer trajectory
         this.drawTrajectory(e.clientX, e.clientY);
@@ -2282,8 +2262,8 @@ export class Engine {
         const newY = e.clientY - this.dragStart.y;
         
         // Apply constraints immediately to prevent panning outside grid
-        const gridPixelWidth = this.GRID_WIDTH * this.TILE_SIZE * this.zoom;
-        const gridPixelHeight = this.GRID_HEIGHT * this.TILE_SIZE * this.zoom;
+        const gridPixelWidth = this.state.width * this.TILE_SIZE * this.zoom;
+        const gridPixelHeight = this.state.height * this.TILE_SIZE * this.zoom;
 
         const minX = this.app.screen.width - gridPixelWidth;
         const maxX = 0;
@@ -2306,24 +2286,10 @@ export class Engine {
       } else {
         // Show tooltip on hover for grid sprites
         const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
-        if (
-          gridX >= 0 &&
-          gridX < this.GRID_WIDTH &&
-          gridY >= 0 &&
-          gridY < this.GRID_HEIGHT
-        ) {
-          const cell = this.grid[gridY][gridX];
-          if (cell.occupied) {
-            // For multi-tile sprites, get sprite from center cell
-            let sprite = cell.sprite;
-            if (!sprite && cell.centerX !== undefined && cell.centerY !== undefined) {
-              sprite = this.grid[cell.centerY][cell.centerX].sprite;
-            }
-            if (sprite) {
-              this.showTooltip(e.clientX, e.clientY, sprite);
-              return;
-            }
-          }
+        const sprite = this.state.getSpriteAt(gridX, gridY);
+        if (sprite) {
+          this.showTooltip(e.clientX, e.clientY, sprite);
+          return;
         }
         this.hideTooltip();
       }
@@ -2333,26 +2299,16 @@ export class Engine {
     canvas.addEventListener("click", (e: MouseEvent) => {
       if (!this.isDraggingFromToolbar) {
         const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
-        if (
-          gridX >= 0 &&
-          gridX < this.GRID_WIDTH &&
-          gridY >= 0 &&
-          gridY < this.GRID_HEIGHT
-        ) {
-          const cell = this.grid[gridY][gridX];
-          if (cell.occupied) {
-            // For multi-tile sprites, get sprite from center cell
-            let sprite = cell.sprite;
-            if (!sprite && cell.centerX !== undefined && cell.centerY !== undefined) {
-              sprite = this.grid[cell.centerY][cell.centerX].sprite;
-            }
-            if (sprite) {
-              console.log(`Cell (${gridX}, ${gridY}) contains: ${sprite.name} (Type: ${sprite.type}, Health: ${sprite.health}, Radius: ${sprite.radius} tiles)`);
-            } else {
-              console.log(`Cell (${gridX}, ${gridY}) is occupied but sprite reference missing`);
-            }
+        if (this.state.inBounds(gridX, gridY)) {
+          const sprite = this.state.getSpriteAt(gridX, gridY);
+          if (sprite) {
+            console.log(
+              `Cell (${gridX}, ${gridY}) contains: ${sprite.name} (Type: ${sprite.type}, Health: ${sprite.health}, Radius: ${sprite.radius} tiles)`,
+            );
           } else {
-            console.log(`Cell (${gridX}, ${gridY}) is empty - valid for placement: ${this.canPlaceInRadius(gridX, gridY, 0)}`);
+            console.log(
+              `Cell (${gridX}, ${gridY}) is empty - valid for placement: ${this.state.canPlaceInRadius(gridX, gridY, 0)}`,
+            );
           }
         }
       }
@@ -2363,10 +2319,11 @@ export class Engine {
 
     const resizeWindow = (_ev?: UIEvent) => {
       this.app.renderer.resize(window.innerWidth, window.innerHeight);
+      this.updateZoomLimits();
 
       // Get the center point of the grid in world coordinates
-      const gridCenterX = (this.GRID_WIDTH * this.TILE_SIZE) / 2;
-      const gridCenterY = (this.GRID_HEIGHT * this.TILE_SIZE) / 2;
+      const gridCenterX = (this.state.width * this.TILE_SIZE) / 2;
+      const gridCenterY = (this.state.height * this.TILE_SIZE) / 2;
 
       // Center the world container on the screen, accounting for zoom
       this.world.x = this.app.screen.width / 2 - gridCenterX * this.zoom;
@@ -2381,6 +2338,20 @@ export class Engine {
       if (this.gridToggleButton) {
         this.gridToggleButton.position.set(this.app.screen.width - 170, 10);
       }
+      if (this.gravityToggleButton) {
+        this.gravityToggleButton.position.set(this.app.screen.width - 340, 10);
+      }
+
+      // Update seed text position
+      if (this.seedText) {
+        this.seedText.position.set(this.app.screen.width - 10, 60);
+      }
+      if (this.saveButtons) {
+        this.saveButtons.position.set(this.app.screen.width - 170, 85);
+      }
+      if (this.editorToolbar) {
+        this.editorToolbar.position.set(10, this.app.screen.height - 100);
+      }
     }
 
     // resize handling
@@ -2388,6 +2359,45 @@ export class Engine {
     resizeWindow();
   }
 
+  // Max zoom out shows the whole world in the current window
+  private updateZoomLimits() {
+    const worldPixelWidth = this.state.width * this.TILE_SIZE;
+    const worldPixelHeight = this.state.height * this.TILE_SIZE;
+    this.minZoom = Math.min(
+      MAX_ZOOM,
+      this.app.screen.width / worldPixelWidth,
+      this.app.screen.height / worldPixelHeight,
+    );
+    this.targetZoom = Math.max(
+      this.minZoom,
+      Math.min(MAX_ZOOM, this.targetZoom),
+    );
+  }
+
+  // Keep the world on screen - center it on any axis where it is smaller than the window
+  private clampCamera() {
+    const gridPixelWidth = this.state.width * this.TILE_SIZE * this.zoom;
+    const gridPixelHeight = this.state.height * this.TILE_SIZE * this.zoom;
+
+    if (gridPixelWidth <= this.app.screen.width) {
+      this.world.x = (this.app.screen.width - gridPixelWidth) / 2;
+    } else {
+      this.world.x = Math.max(
+        this.app.screen.width - gridPixelWidth,
+        Math.min(0, this.world.x),
+      );
+    }
+
+    if (gridPixelHeight <= this.app.screen.height) {
+      this.world.y = (this.app.screen.height - gridPixelHeight) / 2;
+    } else {
+      this.world.y = Math.max(
+        this.app.screen.height - gridPixelHeight,
+        Math.min(0, this.world.y),
+      );
+    }
+  }
+
   private tick(time: Ticker) {
     const prevZoom = this.zoom;
     this.zoom += (this.targetZoom - this.zoom) * ZOOM_SPEED;
@@ -2399,8 +2409,8 @@ export class Engine {
     this.world.y = centerY - (centerY - this.world.y) * (this.zoom / prevZoom);
     this.world.scale.set(this.zoom);
     
-    // AI thinking delay
-    if (this.aiThinkingDelay > 0) {
+    // AI thinking delay (the AI waits while a replay is shown)
+    if (this.aiThinkingDelay > 0 && !this.replay) {
       this.aiThinkingDelay--;
       if (this.aiThinkingDelay === 0) {
         this.executeAITurn();
@@ -2408,16 +2418,7 @@ export class Engine {
     }
     
     // Constrain panning to grid boundaries BEFORE applying shake
-    const gridPixelWidth = this.GRID_WIDTH * this.TILE_SIZE * this.zoom;
-    const gridPixelHeight = this.GRID_HEIGHT * this.TILE_SIZE * this.zoom;
-
-    const minX = this.app.screen.width - gridPixelWidth;
-    const maxX = 0;
-    const minY = this.app.screen.height - gridPixelHeight;
-    const maxY = 0;
-
-    this.world.x = Math.max(minX, Math.min(maxX, this.world.x));
-    this.world.y = Math.max(minY, Math.min(maxY, this.world.y));
+    this.clampCamera();
     
     // Apply screen shake on top of constrained position
     if (this.shakeAmount > 0.1) {
@@ -2433,6 +2434,31 @@ export class Engine {
     if (prevZoom !== this.zoom) {
       this.renderer.setZoom(this.zoom);
       this.needsOccupiedCellsRedraw = true;
+      if (this.editor) this.drawEditorOverlay(); // Arrow widths follow the zoom
+    }
+
+    // Gravity arrows follow the camera (only redrawn when the view changes)
+    this.drawGravityOverlay();
+
+    // Play-by-file: write the turn out once its shots have landed
+    if (this.turnExportPending && !this.replay && this.state.settled) {
+      this.turnExportPending = false;
+      this.exportTurn();
+    }
+
+    // Autosave once the turn's shots have landed (not a finished match - endGame cleared the autosave)
+    if (this.autosavePending && !this.replay && this.state.settled) {
+      this.autosavePending = false;
+      if (!this.state.gameOver) {
+        saveToLocalStorage(
+          serializeState(this.state, this.isAIMode, this.aiDifficulty),
+        );
+      }
+    }
+
+    // Online host: share the settled match once a turn's shots have landed
+    if (this.online && this.online.update(this.liveState ?? this.state)) {
+      this.updateGameInfo();
     }
 
     // Draw orange highlights for occupied cells (only when needed)
@@ -2441,189 +2467,37 @@ export class Engine {
       this.needsOccupiedCellsRedraw = false;
     }
 
-    // Update all sprites (only update center cells to avoid duplicates)
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
-        // Only update if this is the center cell (has the sprite reference)
-        if (cell.sprite && (!cell.centerX || (cell.centerX === x && cell.centerY === y))) {
-          const sprite = cell.sprite;
-          
-          // For moving sprites (with velocity), get gravity from current world position
-          if (sprite.vx !== 0 || sprite.vy !== 0) {
-            const worldPos = sprite.getDisplay().position;
-            const currentGridX = Math.floor(worldPos.x / this.TILE_SIZE);
-            const currentGridY = Math.floor(worldPos.y / this.TILE_SIZE);
-            
-            let ax = 0;
-            let ay = 0;
-            if (currentGridX >= 0 && currentGridX < this.GRID_WIDTH && 
-                currentGridY >= 0 && currentGridY < this.GRID_HEIGHT) {
-              ax = this.grid[currentGridY][currentGridX].gravity.ax;
-              ay = this.grid[currentGridY][currentGridX].gravity.ay;
-              
-              // If sprite should ignore gravity from a specific planet, calculate and subtract it
-              if (sprite.ignorePlanetGravity) {
-                const planetInfo = sprite.ignorePlanetGravity;
-                const dx = currentGridX - planetInfo.centerX;
-                const dy = currentGridY - planetInfo.centerY;
-                const dist = Math.sqrt(dx * dx + dy * dy);
-                
-                // Only subtract if within the planet's gravity radius (35 tiles for planets)
-                if (dist > 0 && dist <= 35) {
-                  // Calculate what the planet's gravity contribution would be
-                  const force = 0.5 * (1 - dist / 35); // Planet strength is 0.5, radius is 35
-                  const planetAx = (-dx / dist) * force;
-                  const planetAy = (-dy / dist) * force;
-                  
-                  // Subtract the planet's gravity
-                  ax -= planetAx;
-                  ay -= planetAy;
-                }
-              }
-            }
-            
-            sprite.update(time.deltaTime, ax, ay);
-            
-            // Check for collision with immutable objects
-            // Use worldPos already declared above
-            let collision = false;
-            
-            // Check all grid cells for immutable sprites
-            for (let checkY = 0; checkY < this.GRID_HEIGHT && !collision; checkY++) {
-              for (let checkX = 0; checkX < this.GRID_WIDTH && !collision; checkX++) {
-                const checkCell = this.grid[checkY][checkX];
-                // Only check center cells with immutable sprites
-                if (checkCell.sprite && checkCell.sprite.immutable && 
-                    (!checkCell.centerX || (checkCell.centerX === checkX && checkCell.centerY === checkY))) {
-                  const targetSprite = checkCell.sprite;
-                  const targetPos = targetSprite.getDisplay().position;
-                  
-                  // Calculate distance between sprites
-                  const dx = worldPos.x - targetPos.x;
-                  const dy = worldPos.y - targetPos.y;
-                  const distance = Math.sqrt(dx * dx + dy * dy);
-                  
-                  // Check if moving sprite is within target's radius
-                  const collisionRadius = targetSprite.radius * this.TILE_SIZE;
-                  if (distance < collisionRadius) {
-                    collision = true;
-                    
-                    // Create explosion at collision point
-                    this.createExplosion(worldPos.x, worldPos.y, 1.0);
-                    this.soundManager.play('explosion');
-                    
-                    // Apply damage to the target (10000 damage from bunny - dev tool!)
-                    // Skip damage for black holes - they are invulnerable
-                    let targetDestroyed = false;
-                    if (targetSprite.name !== "Black Hole") {
-                      targetDestroyed = targetSprite.takeDamage(10000);
-                      // Show damage number
-                      this.showDamageNumber(worldPos.x, worldPos.y, 10000);
-                    }
-                    
-                    // Remove the target if health reached 0
-                    if (targetDestroyed) {
-                      // Find the target's grid position
-                      const targetCells = this.getCellsInRadius(checkX, checkY, targetSprite.radius, targetSprite.shape, targetSprite.width, targetSprite.height, targetSprite.rotation);
-                      for (const targetCell of targetCells) {
-                        if (targetCell.x >= 0 && targetCell.x < this.GRID_WIDTH && 
-                            targetCell.y >= 0 && targetCell.y < this.GRID_HEIGHT) {
-                          const cell = this.grid[targetCell.y][targetCell.x];
-                          // Only clear if this cell belongs to the target sprite
-                          if (cell.centerX === checkX && cell.centerY === checkY) {
-                            this.grid[targetCell.y][targetCell.x].occupied = false;
-                            this.grid[targetCell.y][targetCell.x].sprite = null;
-                            this.grid[targetCell.y][targetCell.x].centerX = undefined;
-                            this.grid[targetCell.y][targetCell.x].centerY = undefined;
-                          }
-                        }
-                      }
-                      this.world.removeChild(targetSprite.getDisplay());
-                      
-                      // Remove from planets array if it was a planet
-                      const planetIndex = this.planets.indexOf(targetSprite as any);
-                      if (planetIndex > -1) {
-                        this.planets.splice(planetIndex, 1);
-                      }
-                      
-                      // Check win condition if a base planet was destroyed
-                      if (targetSprite === this.player1Base) {
-                        this.endGame("Player 2");
-                      } else if (targetSprite === this.player2Base) {
-                        this.endGame("Player 1");
-                      }
-                      
-                      console.log(`${targetSprite.name} destroyed!`);
-                    } else {
-                      console.log(`${targetSprite.name} took 100 damage. Health: ${targetSprite.health}/${targetSprite.maxHealth}`);
-                    }
-                    
-                    // Remove the moving sprite (projectile) - only clear cells that belong to this sprite
-                    const oldCells = this.getCellsInRadius(x, y, sprite.radius, sprite.shape, sprite.width, sprite.height, sprite.rotation);
-                    for (const oldCell of oldCells) {
-                      if (oldCell.x >= 0 && oldCell.x < this.GRID_WIDTH && 
-                          oldCell.y >= 0 && oldCell.y < this.GRID_HEIGHT) {
-                        const cell = this.grid[oldCell.y][oldCell.x];
-                        // Only clear if this cell belongs to the moving sprite (not to an immutable object)
-                        if (cell.centerX === x && cell.centerY === y) {
-                          this.grid[oldCell.y][oldCell.x].occupied = false;
-                          this.grid[oldCell.y][oldCell.x].sprite = null;
-                          this.grid[oldCell.y][oldCell.x].centerX = undefined;
-                          this.grid[oldCell.y][oldCell.x].centerY = undefined;
-                        }
-                      }
-                    }
-                    this.world.removeChild(sprite.getDisplay());
-                    this.needsOccupiedCellsRedraw = true;
-                    break;
-                  }
-                }
-              }
-            }
-            
-            // Only update grid position if no collision occurred
-            if (!collision) {
-              // Update grid position if sprite has moved to a new cell
-              if (currentGridX !== x || currentGridY !== y) {
-                // Clear old position
-                const oldCells = this.getCellsInRadius(x, y, sprite.radius, sprite.shape, sprite.width, sprite.height, sprite.rotation);
-                for (const oldCell of oldCells) {
-                  if (oldCell.x >= 0 && oldCell.x < this.GRID_WIDTH && 
-                      oldCell.y >= 0 && oldCell.y < this.GRID_HEIGHT) {
-                    this.grid[oldCell.y][oldCell.x].occupied = false;
-                    this.grid[oldCell.y][oldCell.x].sprite = null;
-                    this.grid[oldCell.y][oldCell.x].centerX = undefined;
-                    this.grid[oldCell.y][oldCell.x].centerY = undefined;
-                  }
-                }
-                
-                // Set new position (only if still in bounds)
-                if (currentGridX >= 0 && currentGridX < this.GRID_WIDTH && 
-                    currentGridY >= 0 && currentGridY < this.GRID_HEIGHT) {
-                  const newCells = this.getCellsInRadius(currentGridX, currentGridY, sprite.radius, sprite.shape, sprite.width, sprite.height, sprite.rotation);
-                  for (const newCell of newCells) {
-                    if (newCell.x >= 0 && newCell.x < this.GRID_WIDTH && 
-                        newCell.y >= 0 && newCell.y < this.GRID_HEIGHT) {
-                      this.grid[newCell.y][newCell.x].occupied = true;
-                      this.grid[newCell.y][newCell.x].centerX = currentGridX;
-                      this.grid[newCell.y][newCell.x].centerY = currentGridY;
-                      // Only add sprite reference to the center cell
-                      if (newCell.x === currentGridX && newCell.y === currentGridY) {
-                        this.grid[newCell.y][newCell.x].sprite = sprite;
-                      }
-                    }
-                  }
-                  this.needsOccupiedCellsRedraw = true;
-                }
-              }
-            }
-          } else {
-            // Static sprites (no velocity) - don't apply gravity, just update
-            sprite.update(time.deltaTime, 0, 0);
-          }
-        }
+    // Advance the game simulation in fixed steps so shots behave the same at any frame rate
+    // A paused replay doesn't advance at all
+    if (this.replay && !this.replay.playing) {
+      this.physicsAccumulator = 0;
+    } else {
+      this.physicsAccumulator += time.deltaTime;
+    }
+    let steps = 0;
+    while (
+      this.physicsAccumulator >= PHYSICS_STEP &&
+      steps < MAX_PHYSICS_STEPS
+    ) {
+      if (this.replay) {
+        this.replay.step();
+      } else {
+        this.state.step(PHYSICS_STEP);
       }
+      this.physicsAccumulator -= PHYSICS_STEP;
+      steps++;
+    }
+
+    // Drop time we couldn't catch up on (e.g. after the tab was in the background)
+    if (this.physicsAccumulator >= PHYSICS_STEP) {
+      this.physicsAccumulator = 0;
+    }
+
+    // Keep display objects in sync with the game state, interpolated between steps
+    this.syncDisplays(this.physicsAccumulator / PHYSICS_STEP);
+
+    if (this.replay) {
+      this.updateReplayStatus();
     }
 
     // Update and clean up explosions
@@ -2632,8 +2506,8 @@ export class Engine {
       explosion.update(time.deltaTime);
       
       // Remove finished explosions
-      if ((explosion as ExplosionSprite).isFinished()) {
-        this.world.removeChild(explosion.getDisplay());
+      if (explosion.isFinished()) {
+        this.world.removeChild(explosion.display);
         this.explosions.splice(i, 1);
       }
     }
@@ -2654,156 +2528,6 @@ export class Engine {
         this.damageTexts.splice(i, 1);
       }
     }
-    
-    // Update projectiles that aren't in the grid yet
-    for (let i = this.projectiles.length - 1; i >= 0; i--) {
-      const projectile = this.projectiles[i];
-      const worldPos = projectile.getDisplay().position;
-      const currentGridX = Math.floor(worldPos.x / this.TILE_SIZE);
-      const currentGridY = Math.floor(worldPos.y / this.TILE_SIZE);
-      
-      // Get gravity
-      let ax = 0;
-      let ay = 0;
-      if (currentGridX >= 0 && currentGridX < this.GRID_WIDTH && 
-          currentGridY >= 0 && currentGridY < this.GRID_HEIGHT) {
-        ax = this.grid[currentGridY][currentGridX].gravity.ax;
-        ay = this.grid[currentGridY][currentGridX].gravity.ay;
-      }
-      
-      // Update projectile physics
-      projectile.update(time.deltaTime, ax, ay);
-      
-      // Add particle trail
-      const pos = projectile.getDisplay().position;
-      const isLaser = (projectile as any).isLaser;
-      const trail = this.particleTrails.get(projectile) || [];
-      
-      // Create particle
-      const particle = new Graphics();
-      particle.circle(0, 0, isLaser ? 3 : 4);
-      const particleColor = isLaser ? 0x00ffff : 0xff6600; // Cyan for lasers, orange for missiles
-      particle.fill({ color: particleColor, alpha: 0.8 });
-      particle.position.set(pos.x, pos.y);
-      this.world.addChild(particle);
-      trail.push(particle);
-      this.particleTrails.set(projectile, trail);
-      
-      // Limit trail length and fade old particles
-      if (trail.length > 15) {
-        const oldParticle = trail.shift();
-        if (oldParticle) {
-          this.world.removeChild(oldParticle);
-        }
-      }
-      
-      // Fade particles
-      trail.forEach((p, idx) => {
-        p.alpha = (idx / trail.length) * 0.8;
-      });
-      
-      // Add to grid once it starts moving away from turret
-      const newGridX = Math.floor(projectile.getDisplay().position.x / this.TILE_SIZE);
-      const newGridY = Math.floor(projectile.getDisplay().position.y / this.TILE_SIZE);
-      
-      if (newGridX >= 0 && newGridX < this.GRID_WIDTH && newGridY >= 0 && newGridY < this.GRID_HEIGHT) {
-        const newCell = this.grid[newGridY][newGridX];
-        const firingTurret = (projectile as any).firingTurret;
-        
-        // Check if we're still inside the turret that fired us - just keep moving
-        if (newCell.occupied && newCell.sprite === firingTurret) {
-          // Still inside firing turret, don't add to grid yet
-          continue;
-        }
-        
-        // Check if we hit another sprite
-        if (newCell.occupied && newCell.sprite && newCell.sprite !== projectile) {
-          const hitSprite = newCell.sprite;
-          
-          // Black holes are indestructible - projectile is destroyed but black hole takes no damage
-          if (hitSprite.name === "Black Hole") {
-            console.log(`COLLISION! Projectile absorbed by ${hitSprite.name} (indestructible)`);
-            
-            // Create explosion at projectile location
-            const projectileWorldPos = projectile.getDisplay().position;
-            this.createExplosion(projectileWorldPos.x, projectileWorldPos.y, 0.5);
-            this.soundManager.play('explosion');
-            
-            // Clean up particle trail
-            const trail = this.particleTrails.get(projectile);
-            if (trail) {
-              trail.forEach(p => this.world.removeChild(p));
-              this.particleTrails.delete(projectile);
-            }
-            
-            // Remove projectile
-            this.world.removeChild(projectile.getDisplay());
-            this.projectiles.splice(i, 1);
-            
-            this.needsOccupiedCellsRedraw = true;
-            // Continue to next projectile
-            continue;
-          }
-          
-          // Collision! Deal damage to the sprite we hit
-          const damage = (projectile as any).damage || 50; // Use projectile's stored damage
-          hitSprite.health -= damage;
-          
-          // Show damage number
-          const hitWorldPos = projectile.getDisplay().position;
-          this.showDamageNumber(hitWorldPos.x, hitWorldPos.y, damage);
-          
-          console.log(`Projectile hit ${hitSprite.name} for ${damage} damage (${hitSprite.health} HP remaining)`);
-          
-          // Update UI immediately if a planet was hit
-          if (hitSprite.name === "Player 1 Base" || hitSprite.name === "Player 2 Base") {
-            this.updateGameInfo();
-          }
-          
-          // Create explosion at projectile location
-          const projectileWorldPos = projectile.getDisplay().position;
-          this.createExplosion(projectileWorldPos.x, projectileWorldPos.y, 0.5);
-          this.soundManager.play('explosion');
-          
-          // Clean up particle trail
-          const trail = this.particleTrails.get(projectile);
-          if (trail) {
-            trail.forEach(p => this.world.removeChild(p));
-            this.particleTrails.delete(projectile);
-          }
-          
-          // Remove projectile
-          this.world.removeChild(projectile.getDisplay());
-          this.projectiles.splice(i, 1);
-          
-          // Check if sprite was destroyed
-          if (hitSprite.health <= 0) {
-            console.log(`${hitSprite.name} destroyed!`);
-            // Use the center coordinates to properly remove multi-tile sprites
-            const centerX = newCell.centerX !== undefined ? newCell.centerX : newGridX;
-            const centerY = newCell.centerY !== undefined ? newCell.centerY : newGridY;
-            this.removeSprite(centerX, centerY);
-          }
-          this.needsOccupiedCellsRedraw = true;
-          // Continue to next projectile
-          continue;
-        }
-        // If cell is empty, projectile continues flying (don't add to grid)
-      }
-      
-      // Remove if out of bounds
-      if (newGridX < 0 || newGridX >= this.GRID_WIDTH || newGridY < 0 || newGridY >= this.GRID_HEIGHT) {
-        // Clean up particle trail
-        const trail = this.particleTrails.get(projectile);
-        if (trail) {
-          trail.forEach(p => this.world.removeChild(p));
-          this.particleTrails.delete(projectile);
-        }
-        
-        this.world.removeChild(projectile.getDisplay());
-        this.projectiles.splice(i, 1);
-      }
-    }
 
     // update stars
     this.starArray.forEach((star) => {
@@ -2824,320 +2548,304 @@ export class Engine {
     return { gridX, gridY };
   }
 
-  gridToWorld(gridX: number, gridY: number) {
-    return {
-      x: gridX * this.TILE_SIZE + this.TILE_SIZE / 2,
-      y: gridY * this.TILE_SIZE + this.TILE_SIZE / 2,
-    };
+  // Use a different game state (new match, loaded save or replay) and forward its events
+  private attachState(state: GameState) {
+    if (this.stopForwarding) this.stopForwarding();
+    this.state = state;
+    this.stopForwarding = state.events.forwardTo(this.events);
+
+    // Saves and replays keep their own world size
+    this.renderer.setGridSize(state.width, state.height);
+    this.updateZoomLimits();
+    this.needsOccupiedCellsRedraw = true;
+    this.drawGravityOverlay(true);
   }
 
-  // Helper to get all cells within a circular radius
-  getCellsInRadius(centerX: number, centerY: number, radius: number, shape: "circle" | "square" | "rectangle" = "circle", width?: number, height?: number, rotation?: number): { x: number; y: number }[] {
-    const cells: { x: number; y: number }[] = [];
-    
-    if (shape === "rectangle" && width !== undefined && height !== undefined) {
-      // Rectangle mode with dome shape: 
-      // For dome shields, create an arch pattern (wider at base, narrower at top)
-      const halfWidth = Math.floor(width / 2);
-      const halfHeight = Math.floor(height / 2);
-      
-      // If rotation is provided, rotate the rectangle cells
-      if (rotation !== undefined && rotation !== 0) {
-        const usedCells = new Set<string>();
-        for (let dy = -halfHeight; dy < height - halfHeight; dy++) {
-          // Calculate dome narrowing - top row is narrower
-          const rowFromBottom = dy + halfHeight; // 0 = bottom, height-1 = top
-          const narrowing = (rowFromBottom / (height - 1)) * 2; // 0 at bottom, 2 at top
-          const effectiveHalfWidth = Math.max(1, halfWidth - Math.floor(narrowing));
-          
-          for (let dx = -effectiveHalfWidth; dx < width - halfWidth - (halfWidth - effectiveHalfWidth); dx++) {
-            // Rotate the offset around the origin
-            const rotatedX = dx * Math.cos(rotation) - dy * Math.sin(rotation);
-            const rotatedY = dx * Math.sin(rotation) + dy * Math.cos(rotation);
-            
-            // Round to nearest grid cell
-            const cellX = centerX + Math.round(rotatedX);
-            const cellY = centerY + Math.round(rotatedY);
-            
-            // Use a Set to avoid duplicate cells
-            const key = `${cellX},${cellY}`;
-            if (!usedCells.has(key)) {
-              cells.push({ x: cellX, y: cellY });
-              usedCells.add(key);
-            }
-          }
-        }
-      } else {
-        // No rotation - dome-shaped horizontal rectangle
-        for (let dy = -halfHeight; dy < height - halfHeight; dy++) {
-          // Calculate dome narrowing - top row is narrower
-          const rowFromBottom = dy + halfHeight; // 0 = bottom, height-1 = top
-          const narrowing = (rowFromBottom / (height - 1)) * 2; // 0 at bottom, 2 at top
-          const effectiveHalfWidth = Math.max(1, halfWidth - Math.floor(narrowing));
-          
-          for (let dx = -effectiveHalfWidth; dx < width - halfWidth - (halfWidth - effectiveHalfWidth); dx++) {
-            cells.push({ x: centerX + dx, y: centerY + dy });
-          }
-        }
-      }
-    } else if (shape === "square") {
-      // For square mode:
-      // radius 0 = 2x2 square starting at (centerX, centerY)
-      // radius 1 = 3x3 square centered on (centerX, centerY)
-      // radius 2 = 5x5 square centered on (centerX, centerY)
-      if (radius === 0) {
-        // 2x2 square: (x, y), (x+1, y), (x, y+1), (x+1, y+1)
-        for (let dy = 0; dy <= 1; dy++) {
-          for (let dx = 0; dx <= 1; dx++) {
-            cells.push({ x: centerX + dx, y: centerY + dy });
-          }
-        }
-      } else {
-        // NxN square centered on (centerX, centerY)
-        for (let dy = -radius; dy <= radius; dy++) {
-          for (let dx = -radius; dx <= radius; dx++) {
-            cells.push({ x: centerX + dx, y: centerY + dy });
-          }
-        }
-      }
+  // Red/green background for the on/off buttons in the top-right corner
+  private paintToggleButton(button: Graphics, on: boolean) {
+    button.clear();
+    button.rect(0, 0, 160, 40);
+    if (on) {
+      button.fill({ color: 0x00aa00, alpha: 0.8 });
+      button.stroke({ width: 2, color: 0x00ff00 });
     } else {
-      // Circle shape (original behavior)
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          if (dx * dx + dy * dy <= radius * radius) {
-            cells.push({ x: centerX + dx, y: centerY + dy });
-          }
-        }
-      }
+      button.fill({ color: 0xaa0000, alpha: 0.8 });
+      button.stroke({ width: 2, color: 0xff0000 });
     }
-    
-    return cells;
   }
 
-  // Check if all cells in radius are available
-  canPlaceInRadius(centerX: number, centerY: number, radius: number, shape: "circle" | "square" | "rectangle" = "circle", width?: number, height?: number, rotation?: number): boolean {
-    const cells = this.getCellsInRadius(centerX, centerY, radius, shape, width, height, rotation);
-    console.log(`canPlaceInRadius at (${centerX}, ${centerY}) with shape=${shape}, cells=${cells.length}, rotation=${rotation}`);
-    
-    for (const cell of cells) {
-      if (
-        cell.x < 0 ||
-        cell.x >= this.GRID_WIDTH ||
-        cell.y < 0 ||
-        cell.y >= this.GRID_HEIGHT
-      ) {
-        console.log(`  Cell (${cell.x}, ${cell.y}) out of bounds`);
-        return false;
-      }
-      if (this.grid[cell.y][cell.x].occupied) {
-        console.log(`  Cell (${cell.x}, ${cell.y}) already occupied`);
-        return false;
-      }
+  // Gravity arrows over the cells on screen, spaced so they stay readable at any zoom.
+  // Shown by the overlay toggle, or by the editor's field preview while editing.
+  // Skips the redraw if nothing it depends on changed (pass force after the gravity itself changes)
+  private drawGravityOverlay(force = false) {
+    const visible = this.editor
+      ? this.showGravityPreview
+      : this.showGravityField;
+    if (!visible) {
+      if (this.gravityFieldView !== "") this.gravityGraphics.clear();
+      this.gravityFieldView = "";
+      return;
     }
-    return true;
-  }
 
-  // Check if position is within current player's shield
-  isWithinPlayerShield(gridX: number, gridY: number): boolean {
-    const playerBase = this.currentPlayer === 1 ? this.player1Base : this.player2Base;
-    if (!playerBase) return false;
-    
-    const dx = gridX - playerBase.centerX;
-    const dy = gridY - playerBase.centerY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    return distance <= this.shieldRadius;
-  }
-  
-  // Check if position is within a specific player's shield
-  isPositionWithinShield(gridX: number, gridY: number, player: number): boolean {
-    const playerBase = player === 1 ? this.player1Base : this.player2Base;
-    if (!playerBase) return false;
-    
-    const dx = gridX - playerBase.centerX;
-    const dy = gridY - playerBase.centerY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    return distance <= this.shieldRadius;
+    const spacing = Math.max(
+      2,
+      Math.round(GRAVITY_ARROW_SPACING / (this.TILE_SIZE * this.zoom)),
+    );
+    const topLeft = this.screenToGrid(0, 0);
+    const bottomRight = this.screenToGrid(
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    const area = {
+      x0: Math.max(0, topLeft.gridX - spacing),
+      y0: Math.max(0, topLeft.gridY - spacing),
+      x1: Math.min(this.state.width - 1, bottomRight.gridX + spacing),
+      y1: Math.min(this.state.height - 1, bottomRight.gridY + spacing),
+    };
+
+    // Arrows are drawn a spacing beyond the screen edge, so small pans don't need a redraw
+    const view = [
+      spacing,
+      this.zoom,
+      Math.floor(area.x0 / spacing),
+      Math.floor(area.y0 / spacing),
+      Math.floor(area.x1 / spacing),
+      Math.floor(area.y1 / spacing),
+    ].join(",");
+    if (!force && view === this.gravityFieldView) return;
+
+    this.gravityFieldView = view;
+    this.renderer.drawGravityField(
+      this.gravityGraphics,
+      this.state.gravity,
+      spacing,
+      area,
+    );
   }
 
-  // Place sprite with radius occupation
-  placeSprite(gridX: number, gridY: number, sprite: GameSprite, rotation?: number): boolean {
-    console.log(`placeSprite called: gridX=${gridX}, gridY=${gridY}, sprite=${sprite.name}, radius=${sprite.radius}, shape=${sprite.shape}`);
-    if (!this.canPlaceInRadius(gridX, gridY, sprite.radius, sprite.shape, sprite.width, sprite.height, rotation)) {
-      return false;
-    }
+  // Explosions, sounds, damage numbers and HUD updates for game events
+  private subscribeToEvents() {
+    this.events.on("impact", (impact) => {
+      this.createExplosion(impact.x, impact.y, impact.scale);
+      this.soundManager.play("explosion");
 
-    // Occupy all cells in radius
-    const cells = this.getCellsInRadius(gridX, gridY, sprite.radius, sprite.shape, sprite.width, sprite.height, rotation);
-    console.log(`Occupying ${cells.length} cells for ${sprite.name} with radius ${sprite.radius} and shape ${sprite.shape}`);
-    for (const cell of cells) {
-      this.grid[cell.y][cell.x].occupied = true;
-      this.grid[cell.y][cell.x].centerX = gridX;
-      this.grid[cell.y][cell.x].centerY = gridY;
-      this.grid[cell.y][cell.x].sprite = sprite; // Add sprite reference to ALL cells
-    }
+      // Absorbed hits (black holes) don't show damage
+      if (impact.damage > 0) {
+        this.showDamageNumber(impact.x, impact.y, impact.damage);
+      }
+      this.needsOccupiedCellsRedraw = true;
+    });
 
-    // Position sprite
-    const worldPos = this.gridToWorld(gridX, gridY);
-    sprite.getDisplay().position.set(worldPos.x, worldPos.y);
-    this.world.addChild(sprite.getDisplay());
+    // Bigger explosion where a destroyed sprite used to be
+    this.events.on("spriteDestroyed", ({ sprite }) => {
+      this.createExplosion(sprite.x, sprite.y, Math.max(sprite.radius / 3, 1));
+      this.soundManager.play("explosion");
+    });
 
-    // Track planets
-    if (sprite instanceof PlanetSprite) {
-      this.planets.push(sprite);
-      // Create gravity field for planet
-      applyGravityField(this.grid, gridX, gridY, 35, 0.5);
-    }
-    
-    // Create gravity field for black holes
-    if (sprite.type === "blackhole") {
-      applyGravityField(this.grid, gridX, gridY, 30, 1.0);
-    }
-    
-    // Create gravity field for asteroids
-    if (sprite.type === "Asteroid") {
-      applyGravityField(this.grid, gridX, gridY, 10, 0.1);
-    }
+    this.events.on("projectileFired", ({ turret }) => {
+      this.soundManager.play(FIRE_SOUNDS[turret.projectileKind]);
+    });
 
-    // Mark that occupied cells need redrawing
-    this.needsOccupiedCellsRedraw = true;
+    this.events.on("buildingPlaced", () => {
+      this.soundManager.play("placeBuilding");
+    });
 
-    return true;
+    this.events.on("spriteDamaged", () => this.updateGameInfo());
+    this.events.on("playerEliminated", ({ player }) => {
+      if (this.replay) return;
+      const teamLeft = this.state.activePlayers.some((active) =>
+        this.state.areAllies(active, player),
+      );
+      const team =
+        this.state.settings.teams && teamLeft
+          ? ` - Team ${this.state.teamOf(player)} fights on`
+          : "";
+      this.showStatus(`Player ${player} is out${team}`, PLAYER_COLORS[player]);
+    });
+    this.events.on("resourcesChanged", () => this.updateGameInfo());
+    this.events.on("turnEnded", () => {
+      if (this.online && !this.replay) this.online.turnEnded();
+      this.updateGameInfo();
+    });
+
+    // Online: send our own moves to the opponent (theirs arrive through applyRemoteAction)
+    this.events.on("actionExecuted", ({ action }) => {
+      if (
+        this.online &&
+        !this.replay &&
+        action.player === this.online.localPlayer
+      ) {
+        this.online.send({ type: "action", action });
+      }
+    });
+
+    // Replays only show the result
+    this.events.on("gameOver", ({ winner }) => {
+      if (!this.replay) {
+        this.endGame(winner);
+      }
+    });
   }
 
-  // Remove sprite from grid
-  removeSprite(gridX: number, gridY: number): boolean {
-    const cell = this.grid[gridY][gridX];
-    if (!cell.sprite) {
-      return false;
-    }
+  // Create, update and remove display objects to match the game state
+  private syncDisplays(alpha: number) {
+    const live = new Set<GameSprite>();
+
+    this.state.forEachSprite((sprite) => {
+      live.add(sprite);
+      let display = this.displays.get(sprite);
+      if (!display) {
+        display = createSpriteDisplay(sprite, this.textures, this.state.width);
+        const basePlayer = this.state.bases.indexOf(sprite as PlanetSprite);
+        if (basePlayer > 0)
+          tintPlanetShield(display, PLAYER_COLORS[basePlayer]);
+        this.displays.set(sprite, display);
+        this.world.addChild(display);
+        this.needsOccupiedCellsRedraw = true;
+      }
+      syncSpriteDisplay(sprite, display, alpha);
 
-    const sprite = cell.sprite;
-    const radius = sprite.radius;
-    const shape = sprite.shape;
+      // Launched sprites change cells as they fly
+      if (sprite.vx !== 0 || sprite.vy !== 0) {
+        this.needsOccupiedCellsRedraw = true;
+      }
+    });
 
-    // Clear all cells in radius
-    const cells = this.getCellsInRadius(gridX, gridY, radius, shape);
-    for (const cellPos of cells) {
-      this.grid[cellPos.y][cellPos.x].occupied = false;
-      this.grid[cellPos.y][cellPos.x].sprite = null;
-      this.grid[cellPos.y][cellPos.x].centerX = undefined;
-      this.grid[cellPos.y][cellPos.x].centerY = undefined;
+    for (const projectile of this.state.projectiles) {
+      live.add(projectile);
+      let display = this.displays.get(projectile);
+      if (!display) {
+        display = createProjectileDisplay(projectile, this.textures);
+        this.displays.set(projectile, display);
+        this.world.addChild(display);
+      }
+      const pos = interpolatePosition(projectile, alpha);
+      display.position.set(pos.x, pos.y);
+      this.addTrailParticle(pos.x, pos.y, projectile);
     }
 
-    // Remove from world
-    this.world.removeChild(sprite.getDisplay());
+    // Remove displays (and particle trails) of sprites that left the game state
+    for (const [sprite, display] of this.displays) {
+      if (live.has(sprite)) continue;
 
-    // Create explosion at the sprite's position
-    const worldPos = this.gridToWorld(gridX, gridY);
-    this.createExplosion(worldPos.x, worldPos.y, Math.max(radius / 3, 1));
-    this.soundManager.play('explosion');
+      this.world.removeChild(display);
+      this.displays.delete(sprite);
 
-    // Remove from planets array if it's a planet
-    if (sprite instanceof PlanetSprite) {
-      const index = this.planets.indexOf(sprite);
-      if (index > -1) {
-        this.planets.splice(index, 1);
-      }
-      
-      // Check if a base was destroyed (win condition)
-      if (sprite === this.player1Base) {
-        this.endGame("Player 2");
-      } else if (sprite === this.player2Base) {
-        this.endGame("Player 1");
+      const trail = this.particleTrails.get(sprite);
+      if (trail) {
+        trail.forEach((p) => this.world.removeChild(p));
+        this.particleTrails.delete(sprite);
       }
+      this.needsOccupiedCellsRedraw = true;
     }
+  }
+
+  // Add a particle behind a projectile and fade out the older ones
+  private addTrailParticle(x: number, y: number, projectile: ProjectileSprite) {
+    const trail = this.particleTrails.get(projectile) || [];
     
-    // Decrement mine count if a mine was destroyed
-    if (sprite.name === "Mine" && sprite.owner > 0) {
-      this.playerMineCount[sprite.owner]--;
-      console.log(`Player ${sprite.owner} lost a mine. Remaining: ${this.playerMineCount[sprite.owner]}`);
-    }
+    // Create particle (size and color come from the weapon that fired it)
+    const particle = new Graphics();
+    particle.circle(0, 0, projectile.trailSize);
+    particle.fill({ color: projectile.trailColor, alpha: 0.8 });
+    particle.position.set(x, y);
+    this.world.addChild(particle);
+    trail.push(particle);
+    this.particleTrails.set(projectile, trail);
     
-    // Decrement solar panel count and max energy if a solar panel was destroyed
-    if (sprite.name === "Solar Panel" && sprite.owner > 0) {
-      this.playerSolarCount[sprite.owner]--;
-      this.playerMaxEnergy[sprite.owner] -= 50;
-      // Also reduce current energy if it exceeds new max
-      if (this.playerEnergy[sprite.owner] > this.playerMaxEnergy[sprite.owner]) {
-        this.playerEnergy[sprite.owner] = this.playerMaxEnergy[sprite.owner];
+    // Limit trail length and fade old particles
+    if (trail.length > 15) {
+      const oldParticle = trail.shift();
+      if (oldParticle) {
+        this.world.removeChild(oldParticle);
       }
-      console.log(`Player ${sprite.owner} lost a solar panel. Max energy: ${this.playerMaxEnergy[sprite.owner]}`);
-    }
-    
-    // Reward ore for destroying asteroids (scales with health/size)
-    if (sprite.type === "Debris") {
-      // Max health ranges from 250-750
-      // Ore reward: 100-300 based on size, with some randomness
-      const baseReward = Math.floor(sprite.maxHealth * 0.3); // 75-225
-      const randomBonus = Math.floor(Math.random() * 75); // 0-75
-      const oreReward = baseReward + randomBonus; // 75-300
-      this.playerOre[this.currentPlayer] += oreReward;
-      console.log(`Player ${this.currentPlayer} destroyed asteroid (${sprite.maxHealth} HP) and gained ${oreReward} ore!`);
-      this.updateGameInfo();
     }
-
-    // Mark that occupied cells need redrawing
-    this.needsOccupiedCellsRedraw = true;
-
-    return true;
+    
+    // Fade particles
+    trail.forEach((p, idx) => {
+      p.alpha = (idx / trail.length) * 0.8;
+    });
   }
 
-  // Move sprite from one position to another
-  moveSprite(fromX: number, fromY: number, toX: number, toY: number): boolean {
-    const fromCell = this.grid[fromY][fromX];
-    if (!fromCell.sprite) {
-      return false;
+  // Tint a sprite's display (used to highlight buildings for deletion)
+  private setTint(sprite: GameSprite, tint: number) {
+    const display = this.displays.get(sprite);
+    if (display) {
+      (display as Sprite).tint = tint;
     }
+  }
 
-    const sprite = fromCell.sprite;
-    const radius = sprite.radius;
-    const shape = sprite.shape;
-
-    // Check if we can place at destination (temporarily clear source cells for check)
-    const sourceCells = this.getCellsInRadius(fromX, fromY, radius, shape);
-    for (const cell of sourceCells) {
-      this.grid[cell.y][cell.x].occupied = false;
-    }
+  // Start dragging a preview from a toolbar (buildings, bunnies and map editor bodies).
+  // radius is the footprint checked with canPlaceInRadius while it moves
+  private startToolbarDrag(preview: Container, radius: number = 0) {
+    this.hideTooltip();
+    this.isDraggingFromToolbar = true;
+    this.soundManager.play("pickup");
+
+    preview.alpha = 0.7;
+    this.previewSprite = preview;
+    this.previewRadius = radius;
+    this.world.addChild(preview);
+  }
 
-    const canPlace = this.canPlaceInRadius(toX, toY, radius, shape);
+  // Move the toolbar preview to a cell and show whether it fits there (green) or not (red)
+  private movePreview(gridX: number, gridY: number) {
+    if (!this.previewSprite || !this.state.inBounds(gridX, gridY)) return;
 
-    // Restore source cells
-    for (const cell of sourceCells) {
-      this.grid[cell.y][cell.x].occupied = true;
-    }
+    const worldPos = this.state.gridToWorld(gridX, gridY);
+    this.previewSprite.position.set(worldPos.x, worldPos.y);
 
-    if (!canPlace) {
-      return false;
+    this.highlightGraphic.clear();
+    const canPlace = this.state.canPlaceInRadius(
+      gridX,
+      gridY,
+      this.previewRadius,
+    );
+    const color = canPlace ? 0x00ff00 : 0xff0000;
+
+    if (this.previewRadius === 0) {
+      this.highlightGraphic.rect(
+        gridX * this.TILE_SIZE,
+        gridY * this.TILE_SIZE,
+        this.TILE_SIZE,
+        this.TILE_SIZE,
+      );
+    } else {
+      this.highlightGraphic.circle(
+        worldPos.x,
+        worldPos.y,
+        (this.previewRadius + 0.5) * this.TILE_SIZE,
+      );
     }
+    this.highlightGraphic.fill({ color, alpha: 0.3 });
+  }
 
-    // Remove from old position
-    for (const cell of sourceCells) {
-      this.grid[cell.y][cell.x].occupied = false;
-      this.grid[cell.y][cell.x].sprite = null;
-      this.grid[cell.y][cell.x].centerX = undefined;
-      this.grid[cell.y][cell.x].centerY = undefined;
+  // Drop the toolbar preview without placing anything
+  private clearToolbarDrag() {
+    if (this.previewSprite) {
+      this.world.removeChild(this.previewSprite);
+      this.previewSprite = null;
     }
+    this.highlightGraphic.clear();
+    this.isDraggingFromToolbar = false;
+    this.selectedKind = null;
+  }
 
-    // Place at new position
-    const destCells = this.getCellsInRadius(toX, toY, radius, shape);
-    for (const cell of destCells) {
-      this.grid[cell.y][cell.x].occupied = true;
-      this.grid[cell.y][cell.x].centerX = toX;
-      this.grid[cell.y][cell.x].centerY = toY;
-      if (cell.x === toX && cell.y === toY) {
-        this.grid[cell.y][cell.x].sprite = sprite;
-      }
+  // Fire a turret through the game state (the fire sound plays on projectileFired)
+  private fireTurret(turret: GameSprite, vx: number, vy: number): boolean {
+    const result = this.state.execute({
+      type: "fire",
+      player: this.state.currentPlayer,
+      gridX: turret.gridX,
+      gridY: turret.gridY,
+      vx,
+      vy,
+    });
+    if (!result.ok) {
+      console.log(result.reason);
+      this.soundManager.play("invalidPlacement");
+      return false;
     }
-
-    // Update sprite position
-    const worldPos = this.gridToWorld(toX, toY);
-    sprite.getDisplay().position.set(worldPos.x, worldPos.y);
-
-    // Mark that occupied cells need redrawing
-    this.needsOccupiedCellsRedraw = true;
-
     return true;
   }
 
@@ -3170,7 +2878,7 @@ export class Engine {
       cols,       // framesPerRow - 8 columns
       0.6         // animationSpeed - faster animation (increased from 0.4)
     );
-    this.world.addChild(explosion.getDisplay());
+    this.world.addChild(explosion.display);
     this.explosions.push(explosion);
   }
   
@@ -3218,60 +2926,27 @@ export class Engine {
 
     this.aimerGraphics.clear();
 
-    // Calculate initial velocity
-    const dx = this.launchStartPos.x - mouseX;
-    const dy = this.launchStartPos.y - mouseY;
-    const velocityScale = 0.1;
-    let vx = dx * velocityScale;
-    let vy = dy * velocityScale;
-
-    // Get sprite's current grid position
-    const spriteWorldPos = this.launchSprite.getDisplay().position;
-    let posX = spriteWorldPos.x;
-    let posY = spriteWorldPos.y;
-
-    // Simulate trajectory
-    const maxSteps = 200;
-    const deltaTime = 1.0; // Simulation delta
-    const points: { x: number; y: number }[] = [{ x: posX, y: posY }];
-
-    for (let i = 0; i < maxSteps; i++) {
-      // Get grid position
-      const gridX = Math.floor(posX / this.TILE_SIZE);
-      const gridY = Math.floor(posY / this.TILE_SIZE);
-
-      // Get gravity at this position
-      let ax = 0;
-      let ay = 0;
-      if (gridX >= 0 && gridX < this.GRID_WIDTH && gridY >= 0 && gridY < this.GRID_HEIGHT) {
-        ax = this.grid[gridY][gridX].gravity.ax;
-        ay = this.grid[gridY][gridX].gravity.ay;
-      }
-
-      // Apply gravity
-      vx += ax * deltaTime;
-      vy += ay * deltaTime;
-
-      // Clamp velocity
-      const MAX_VELOCITY = 8;
-      const speed = Math.sqrt(vx * vx + vy * vy);
-      if (speed > MAX_VELOCITY) {
-        vx = (vx / speed) * MAX_VELOCITY;
-        vy = (vy / speed) * MAX_VELOCITY;
-      }
-
-      // Update position
-      posX += vx * deltaTime;
-      posY += vy * deltaTime;
-
-      // Stop if out of bounds
-      if (posX < 0 || posX > this.GRID_WIDTH * this.TILE_SIZE || 
-          posY < 0 || posY > this.GRID_HEIGHT * this.TILE_SIZE) {
-        break;
-      }
-
-      points.push({ x: posX, y: posY });
-    }
+    // Calculate initial velocity (same as on release)
+    const { vx, vy } = this.launchVelocity(this.launchSprite, mouseX, mouseY);
+    const spriteWorldPos = { x: this.launchSprite.x, y: this.launchSprite.y };
+
+    // Simulate trajectory with the same integrator and collisions as the live game
+    const isTurret = this.launchSprite.type === "Weapon";
+    const result = simulateTrajectory(
+      this.state,
+      {
+        x: spriteWorldPos.x,
+        y: spriteWorldPos.y,
+        vx,
+        vy,
+        ignoreGravityFrom: this.launchSprite.ignoreGravityFrom,
+      },
+      {
+        collision: isTurret ? "projectile" : "sprite",
+        ignore: this.launchSprite,
+      },
+    );
+    const points = result.path;
 
     // Draw trajectory with dots (Angry Birds style)
     for (let i = 0; i < points.length; i += 5) {
@@ -3283,14 +2958,33 @@ export class Engine {
       this.aimerGraphics.stroke({ width: 2, color: 0x000000, alpha: 0.6 });
     }
 
+    // Mark where the shot will hit
+    if (result.hitPoint) {
+      this.aimerGraphics.circle(result.hitPoint.x, result.hitPoint.y, 8);
+      this.aimerGraphics.stroke({ width: 3, color: 0xff0000, alpha: 0.9 });
+    }
+
     // Draw line from sprite to mouse (drag direction indicator)
     const { gridX: mouseGridX, gridY: mouseGridY } = this.screenToGrid(mouseX, mouseY);
-    const mouseWorld = this.gridToWorld(mouseGridX, mouseGridY);
+    const mouseWorld = this.state.gridToWorld(mouseGridX, mouseGridY);
     this.aimerGraphics.moveTo(spriteWorldPos.x, spriteWorldPos.y);
     this.aimerGraphics.lineTo(mouseWorld.x, mouseWorld.y);
     this.aimerGraphics.stroke({ width: 3, color: 0xff0000, alpha: 0.8 });
   }
 
+  // Launch velocity from the drag (screen pixels) - weapons scale it by their aim power
+  private launchVelocity(
+    sprite: GameSprite,
+    mouseX: number,
+    mouseY: number,
+  ): { vx: number; vy: number } {
+    if (!this.launchStartPos) return { vx: 0, vy: 0 };
+    const dx = this.launchStartPos.x - mouseX;
+    const dy = this.launchStartPos.y - mouseY;
+    const velocityScale = isWeapon(sprite) ? sprite.aimPower : 0.1;
+    return { vx: dx * velocityScale, vy: dy * velocityScale };
+  }
+
   // Game management functions
   
   endGame(winnerName: string) {
@@ -3298,8 +2992,11 @@ export class Engine {
     
     this.gameOver = true;
     this.winner = winnerName;
-    console.log(`${winnerName} wins!`);
-    
+    console.log(winnerName === "Draw" ? "Draw!" : `${winnerName} wins!`);
+
+    // Finished matches can't be continued
+    clearAutosave();
+
     // Big screen shake for dramatic effect
     this.addScreenShake(30);
     
@@ -3323,7 +3020,9 @@ export class Engine {
     const bannerWidth = 800;
     const bannerHeight = 200;
     bannerBg.roundRect(-bannerWidth/2, -bannerHeight/2, bannerWidth, bannerHeight, 20);
-    const winnerColor = this.winner === "Player 1" ? 0x4CAF50 : 0x2196F3;
+    // "Player 3" or "Team 1" (a team shows its first player's color)
+    const winnerColor =
+      PLAYER_COLORS[Number(this.winner.split(" ").pop())] ?? 0xffffff;
     bannerBg.fill({ color: winnerColor, alpha: 0.3 });
     bannerBg.stroke({ width: 5, color: winnerColor });
     bannerBg.position.set(this.app.screen.width / 2, this.app.screen.height / 2 - 100);
@@ -3331,7 +3030,7 @@ export class Engine {
     
     // Winner text with glow
     const winnerText = new Text({
-      text: `${this.winner} WINS!`,
+      text: this.winner === "Draw" ? "DRAW!" : `${this.winner} WINS!`,
       style: {
         fontFamily: 'Orbitron',
         fontSize: 84,
@@ -3353,7 +3052,10 @@ export class Engine {
     
     // Subtitle
     const subtitle = new Text({
-      text: 'VICTORY ACHIEVED',
+      text:
+        this.winner === "Draw"
+          ? "OUT OF TURNS - BASES EVENLY MATCHED"
+          : "VICTORY ACHIEVED",
       style: {
         fontFamily: 'Orbitron',
         fontSize: 24,
@@ -3414,6 +3116,17 @@ export class Engine {
     
     this.gameOverContainer.addChild(buttonContainer);
     
+    // Watch the match again from the start
+    const replayButton = this.createMenuButton(
+      "WATCH REPLAY",
+      this.app.screen.width / 2,
+      this.app.screen.height / 2 + 200,
+      () => {
+        this.startReplay(recordMatch(this.state));
+      },
+    );
+    this.gameOverContainer.addChild(replayButton);
+
     // Animate in with scale
     this.gameOverContainer.alpha = 0;
     this.gameOverContainer.scale.set(0.5);
@@ -3434,583 +3147,876 @@ export class Engine {
     this.uiContainer.addChild(this.gameOverContainer);
   }
   
-  endTurn() {
-    if (this.gameOver) return;
-    
-    // Switch player
-    this.currentPlayer = this.currentPlayer === 1 ? 2 : 1;
-    
-    // Reset energy to max capacity (based on solar panels)
-    this.playerEnergy[this.currentPlayer] = this.playerMaxEnergy[this.currentPlayer];
-    
-    // Add base ore income + ore from mines
-    const baseOreIncome = 50;
-    const orePerMine = 75; // Increased from 25 to 75
-    const totalOreIncome = baseOreIncome + (this.playerMineCount[this.currentPlayer] * orePerMine);
-    this.playerOre[this.currentPlayer] += totalOreIncome;
-    
-    // Refill ammo for all turrets owned by current player
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
-        if (cell.sprite && cell.sprite.owner === this.currentPlayer) {
-          const turret = cell.sprite as any;
-          if (turret.ammo !== undefined && turret.maxAmmo !== undefined && turret.ammoRegenRate !== undefined) {
-            turret.ammo = Math.min(turret.ammo + turret.ammoRegenRate, turret.maxAmmo);
-          }
-        }
-      }
+  // Replay mode
+
+  // Re-run a recorded match from its seed on top of the current one
+  // Watch a match from its record (skipping straight past the first skipTurns turns)
+  startReplay(record: MatchRecord, skipTurns: number = 0) {
+    if (this.replay) this.exitReplay();
+
+    this.liveState = this.state;
+    this.replay = new ReplayPlayer(record);
+    for (let i = 0; i < skipTurns && !this.replay.finished; i++) {
+      this.replay.stepTurn();
     }
-    
-    console.log(`Player ${this.currentPlayer}'s turn - Energy: ${this.playerEnergy[this.currentPlayer]}/${this.playerMaxEnergy[this.currentPlayer]}, Ore gained: ${totalOreIncome} (${baseOreIncome} base + ${this.playerMineCount[this.currentPlayer] * orePerMine} from mines)`);
-    this.updateGameInfo();
-    
-    // If AI mode and it's player 2's turn, trigger AI
-    if (this.isAIMode && this.currentPlayer === 2) {
-      this.aiThinkingDelay = 60; // 1 second delay before AI starts
+    this.attachState(this.replay.state);
+    this.physicsAccumulator = 0;
+
+    // Drop any aim in progress - it belongs to the live match
+    this.isLaunching = false;
+    this.launchSprite = null;
+    this.launchStartPos = null;
+    this.aimerGraphics.clear();
+    console.log(
+      `Replaying seed ${record.seed} (${record.actions.length} actions)`,
+    );
+
+    if (this.gameOverContainer) {
+      this.uiContainer.removeChild(this.gameOverContainer);
+      this.gameOverContainer = null;
     }
-  }
-  
-  updateGameInfo() {
-    if (!this.gameInfoText || !this.oreText || !this.energyText || !this.energyBarFill) return;
-    if (!this.player1HealthBarFill || !this.player2HealthBarFill) return;
-    if (!this.player1HealthText || !this.player2HealthText) return;
-    
-    // Update turn indicator
-    const playerColor = this.currentPlayer === 1 ? 0x4CAF50 : 0x2196F3;
-    this.gameInfoText.text = `Player ${this.currentPlayer}'s Turn`;
-    this.gameInfoText.style.fill = playerColor;
-    
-    // Update planet health bars
-    const player1Health = this.player1Base ? this.player1Base.health : 0;
-    const player2Health = this.player2Base ? this.player2Base.health : 0;
-    
-    // Player 1 health bar
-    const p1Percent = player1Health / 1200;
-    this.player1HealthBarFill.clear();
-    this.player1HealthBarFill.rect(0, 0, 200 * p1Percent, 20);
-    this.player1HealthBarFill.fill({ color: 0x4CAF50, alpha: 0.9 });
-    this.player1HealthText.text = `${player1Health}/1200`;
-    
-    // Player 2 health bar
-    const p2Percent = player2Health / 1200;
-    this.player2HealthBarFill.clear();
-    this.player2HealthBarFill.rect(0, 0, 200 * p2Percent, 20);
-    this.player2HealthBarFill.fill({ color: 0x2196F3, alpha: 0.9 });
-    this.player2HealthText.text = `${player2Health}/1200`;
-    
-    // Update ore text with current player's color
-    this.oreText.text = this.playerOre[this.currentPlayer].toString();
-    this.oreText.style.fill = playerColor;
-    
-    // Update energy text
-    this.energyText.text = `${this.playerEnergy[this.currentPlayer]}/${this.playerMaxEnergy[this.currentPlayer]}`;
-    this.energyText.style.fill = 0xFFFF00;
-    
-    // Update energy bar
-    const energyPercent = this.playerEnergy[this.currentPlayer] / this.playerMaxEnergy[this.currentPlayer];
-    this.energyBarFill.clear();
-    this.energyBarFill.rect(0, 0, 200 * energyPercent, 20);
-    this.energyBarFill.fill({ color: 0xFFFF00, alpha: 0.9 });
+    this.toolbar.visible = false;
+    if (this.endTurnButton) this.endTurnButton.visible = false;
+    if (this.endTurnText) this.endTurnText.visible = false;
+    if (this.saveButtons) this.saveButtons.visible = false;
+
+    this.showReplayControls();
+    this.needsOccupiedCellsRedraw = true;
+    this.updateGameInfo();
   }
 
-  // AI Turn Execution
-  private executeAITurn() {
-    if (this.currentPlayer !== 2 || !this.isAIMode || this.gameOver) return;
-    
-    console.log("AI is thinking...");
-    
-    // AI Strategy:
-    // 1. Build economy early (mines/solar panels)
-    // 2. Build defenses near base
-    // 3. Attack enemy base with turrets
-    
-    const myOre = this.playerOre[2];
-    const myEnergy = this.playerEnergy[2];
-    const myBase = this.player2Base;
-    const enemyBase = this.player1Base;
-    
-    if (!myBase || !enemyBase) {
-      this.endTurn();
-      return;
+  // Go back to the live match
+  exitReplay() {
+    if (!this.replay || !this.liveState) return;
+
+    this.attachState(this.liveState);
+    this.liveState = null;
+    this.replay = null;
+    this.physicsAccumulator = 0;
+
+    if (this.replayControls) {
+      this.uiContainer.removeChild(this.replayControls);
+      this.replayControls = null;
+      this.replayStatusText = null;
+      this.replayPlayText = null;
     }
-    
-    // Priority 1: Build economy if we have few mines/solar panels
-    if (this.playerMineCount[2] < 2 && myOre >= 100) {
-      const built = this.aiBuildNearBase(myBase, 'mine');
-      if (built) {
-        console.log("AI built a mine");
-        this.aiThinkingDelay = 30; // Small delay before next action
-        return;
-      }
+    this.toolbar.visible = true;
+    if (this.endTurnButton) this.endTurnButton.visible = true;
+    if (this.endTurnText) this.endTurnText.visible = true;
+    if (this.saveButtons) this.saveButtons.visible = true;
+
+    this.needsOccupiedCellsRedraw = true;
+    this.updateGameInfo();
+    if (this.gameOver) {
+      this.showGameOver();
     }
-    
-    if (this.playerSolarCount[2] < 1 && myOre >= 75) {
-      const built = this.aiBuildNearBase(myBase, 'solar');
-      if (built) {
-        console.log("AI built a solar panel");
-        this.aiThinkingDelay = 30;
-        return;
-      }
+  }
+
+  // Play/pause, next turn and exit buttons (bottom center)
+  private showReplayControls() {
+    this.replayControls = new Container();
+    this.replayControls.position.set(
+      this.app.screen.width / 2 - 120,
+      this.app.screen.height - 60,
+    );
+
+    const playButton = this.createSmallButton("Pause", 0, () => {
+      if (!this.replay) return;
+      this.replay.playing = !this.replay.playing;
+      if (this.replayPlayText)
+        this.replayPlayText.text = this.replay.playing ? "Pause" : "Play";
+    });
+    this.replayPlayText = playButton.children[0] as Text;
+    this.replayControls.addChild(playButton);
+
+    this.replayControls.addChild(
+      this.createSmallButton("Turn >>", 85, () => {
+        if (!this.replay) return;
+        this.replay.stepTurn();
+        this.needsOccupiedCellsRedraw = true;
+        this.updateGameInfo();
+      }),
+    );
+    this.replayControls.addChild(
+      this.createSmallButton("Exit", 170, () => this.exitReplay()),
+    );
+
+    this.replayStatusText = new Text({
+      text: "",
+      style: { fontSize: 14, fill: 0xffffff, fontWeight: "bold" },
+    });
+    this.replayStatusText.anchor.set(0.5, 1);
+    this.replayStatusText.position.set(122.5, -8);
+    this.replayControls.addChild(this.replayStatusText);
+
+    this.uiContainer.addChild(this.replayControls);
+  }
+
+  private updateReplayStatus() {
+    if (!this.replay || !this.replayStatusText) return;
+
+    const status = this.replay.finished
+      ? "finished"
+      : this.replay.playing
+        ? "playing"
+        : "paused";
+    this.replayStatusText.text = `REPLAY - Turn ${this.replay.turn} - Action ${this.replay.actionsApplied}/${this.replay.actionCount} (${status})`;
+  }
+
+  // Open the map editor from the main menu (on a blank map unless one is given)
+  private startEditor(
+    map: GameMap = blankMap(this.state.width, this.state.height),
+  ) {
+    if (this.mainMenuContainer) {
+      this.uiContainer.removeChild(this.mainMenuContainer);
+      this.mainMenuContainer = null;
     }
-    
-    // Priority 2: Build shield if we don't have one
-    const hasShield = this.aiHasBuildingType('shield');
-    if (!hasShield && myOre >= 300) {
-      const built = this.aiBuildNearBase(myBase, 'shield');
-      if (built) {
-        console.log("AI built a shield");
-        this.aiThinkingDelay = 30;
-        return;
-      }
+    this.editorReturnState = this.state;
+    this.world.visible = true;
+    this.showEditorUI();
+    this.openEditorMap(map);
+  }
+
+  // Start editing a map (replaces whatever was being edited)
+  private openEditorMap(map: GameMap) {
+    this.editor = new MapEditor(map, this.state.seed);
+    this.editorTool = null;
+    this.editorDrag = null;
+    this.setEditorMessage(`Editing "${map.name}"`);
+    this.showEditorState();
+  }
+
+  // Leave the editor and show the match we came from
+  private exitEditor() {
+    if (!this.editor) return;
+
+    this.clearToolbarDrag();
+    this.editor = null;
+    this.drawGravityOverlay(true);
+    this.editorPress = null;
+    if (this.editorPanel) {
+      this.uiContainer.removeChild(this.editorPanel);
+      this.editorPanel = null;
     }
-    
-    // Priority 3: Attack with turrets (lower requirements)
-    if (myOre >= 100 && myEnergy >= 20) {
-      const turretBuilt = this.aiBuildOffensiveStructure(myBase);
-      if (turretBuilt) {
-        console.log("AI built an offensive turret");
-        this.aiThinkingDelay = 30;
-        return;
-      }
+    if (this.editorToolbar) {
+      this.uiContainer.removeChild(this.editorToolbar);
+      this.editorToolbar = null;
     }
-    
-    // Priority 4: Fire existing turrets at enemy base (use ~40% of available ammo)
-    // Only fire if we have enough energy
-    if (myEnergy >= 25) {
-      const shotsFired = this.aiFireTurrets(enemyBase);
-      if (shotsFired > 0) {
-        console.log(`AI fired ${shotsFired} shots`);
-        // Continue turn after firing to potentially do other actions
-      }
+    if (this.editorReturnState) {
+      this.attachState(this.editorReturnState);
+      this.editorReturnState = null;
     }
-    
-    // No actions left, end turn
-    console.log("AI ending turn");
-    this.endTurn();
   }
-  
-  private aiHasBuildingType(type: string): boolean {
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
-        if (cell.sprite && cell.sprite.owner === 2) {
-          if (type === 'shield' && cell.sprite.name === 'Dome Shield') return true;
-          if (type === 'mine' && cell.sprite.name === 'Mine') return true;
-          if (type === 'solar' && cell.sprite.name === 'Solar Panel') return true;
-        }
-      }
+
+  // Show the editor's (possibly rebuilt) game state with its overlays
+  private showEditorState() {
+    if (!this.editor) return;
+    if (this.editor.state !== this.state) {
+      this.attachState(this.editor.state);
     }
-    return false;
+    this.drawEditorOverlay();
   }
-  
-  private aiBuildNearBase(base: PlanetSprite, buildingType: string): boolean {
-    const baseX = base.centerX!;
-    const baseY = base.centerY!;
-    
-    // Try to find a spot near base but outside shield radius
-    const searchRadius = 40;
-    const minDist = this.shieldRadius + 5;
-    
-    for (let attempts = 0; attempts < 50; attempts++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = minDist + Math.random() * (searchRadius - minDist);
-      const x = Math.floor(baseX + Math.cos(angle) * dist);
-      const y = Math.floor(baseY + Math.sin(angle) * dist);
-      
-      if (x < 0 || x >= this.GRID_WIDTH || y < 0 || y >= this.GRID_HEIGHT) continue;
-      
-      let texture = null;
-      let cost = 0;
-      let spriteKind: any = '';
-      let scaleTiles = TURRET_TILES; // Default to 4 tiles
-      
-      if (buildingType === 'mine') {
-        texture = this.mineTexture;
-        cost = 100;
-        spriteKind = 'mine';
-        scaleTiles = TURRET_TILES; // 4 tiles for mine
-      } else if (buildingType === 'solar') {
-        texture = this.solarPanelTexture;
-        cost = 75;
-        spriteKind = 'solarPanel';
-        scaleTiles = TURRET_TILES; // 4 tiles for solar panel
-      } else if (buildingType === 'shield') {
-        texture = this.domeShieldTexture;
-        cost = 75; // Match player cost
-        spriteKind = 'domeShield';
-        scaleTiles = 10; // 10 tiles for dome shield (matches player)
+
+  // Gravity preview, selection rings and the selected body's stats
+  private drawEditorOverlay() {
+    if (!this.editor) return;
+
+    this.drawGravityOverlay(true);
+
+    const selected = this.editor.selected;
+    const sprite = selected ? this.editor.spriteFor(selected) : null;
+    if (!this.isDraggingFromToolbar) {
+      this.highlightGraphic.clear();
+      if (selected && sprite) {
+        // Body outline and how far its gravity reaches
+        const lineWidth = 2 / this.zoom;
+        this.highlightGraphic.circle(
+          sprite.x,
+          sprite.y,
+          (sprite.radius + 1) * this.TILE_SIZE,
+        );
+        this.highlightGraphic.stroke({ width: lineWidth, color: 0x00ffff });
+        this.highlightGraphic.circle(
+          sprite.x,
+          sprite.y,
+          bodyGravity(selected).radius * this.TILE_SIZE,
+        );
+        this.highlightGraphic.stroke({
+          width: lineWidth,
+          color: 0xffff00,
+          alpha: 0.5,
+        });
       }
-      
-      if (!texture) continue;
-      
-      const sprite = createSprite(spriteKind, {
-        texture: texture,
-        centerX: x,
-        centerY: y
-      });
-      
-      sprite.owner = 2;
-      
-      // Calculate rotation for dome shield to be tangential
-      let rotation = 0;
-      if (buildingType === 'shield' && this.player2Base) {
-        const planetPos = this.player2Base.getDisplay().position;
-        const worldPos = this.gridToWorld(x, y);
-        const dx = worldPos.x - planetPos.x;
-        const dy = worldPos.y - planetPos.y;
-        const angleToCenter = Math.atan2(dy, dx);
-        rotation = angleToCenter + Math.PI / 2; // Tangential rotation
-        sprite.rotation = rotation;
+    }
+
+    if (this.editorInfoText) {
+      if (selected && sprite) {
+        const gravity = bodyGravity(selected);
+        const size =
+          selected.kind === "planet"
+            ? "fixed"
+            : `${(selected.body.scale ?? 1).toFixed(1)}x`;
+        this.editorInfoText.text = [
+          `${sprite.name} at (${selected.body.x}, ${selected.body.y})`,
+          `Size: ${size} (radius ${sprite.radius})`,
+          `Gravity reach: ${gravity.radius} tiles`,
+          `Gravity pull: ${gravity.strength.toFixed(2)}`,
+        ].join("\n");
+      } else {
+        this.editorInfoText.text =
+          "Drag bodies in from the toolbar.\nClick a body to select it,\ndrag it to move it.";
       }
-      
-      // Apply proper scaling based on building type
-      const spriteScale = ((this.TILE_SIZE * scaleTiles) / Math.max(texture.width, texture.height));
-      const spriteDisplay = sprite.getDisplay() as Sprite;
-      spriteDisplay.scale.set(spriteScale);
-      if (buildingType === 'shield') {
-        spriteDisplay.rotation = rotation;
+    }
+  }
+
+  private setEditorMessage(message: string) {
+    if (this.editorMessageText) this.editorMessageText.text = message;
+  }
+
+  // Apply an edit to the selected body and show the result
+  private editSelected(
+    edit: (editor: MapEditor, body: MapBody) => ActionResult<unknown> | void,
+  ) {
+    if (!this.editor || !this.editor.selected) {
+      this.setEditorMessage("Select a body first");
+      this.soundManager.play("invalidPlacement");
+      return;
+    }
+
+    const result = edit(this.editor, this.editor.selected);
+    if (result && !result.ok) {
+      this.setEditorMessage(result.reason);
+      this.soundManager.play("invalidPlacement");
+    } else {
+      this.setEditorMessage("");
+    }
+    this.showEditorState();
+  }
+
+  // Drag a body with the same preview and fit check as buildings.
+  // Bodies already on the map are picked up first
+  private startBodyDrag(body: MapBody, pickUp: boolean) {
+    if (!this.editor) return;
+
+    if (pickUp) {
+      this.editor.pickUp(body);
+      this.editorDrag = body;
+      this.showEditorState();
+    }
+    const sprite = createBodySprite(body);
+    this.startToolbarDrag(
+      createSpriteDisplay(sprite, this.textures, this.state.width),
+      sprite.radius,
+    );
+  }
+
+  private editorMouseDown(e: MouseEvent) {
+    if (!this.editor || this.isDraggingFromToolbar) return;
+
+    // Clicks on the editor's own panels aren't meant for the map
+    const overUI = [this.editorPanel, this.editorToolbar].some((ui) =>
+      ui?.getBounds().containsPoint(e.clientX, e.clientY),
+    );
+    if (overUI) return;
+
+    const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
+    const body = this.editor.bodyAt(gridX, gridY);
+    this.editor.selected = body;
+    this.drawEditorOverlay();
+
+    if (body) {
+      this.editorPress = { body, x: e.clientX, y: e.clientY };
+    } else {
+      // Start panning
+      this.isDragging = true;
+      this.dragStart.x = e.clientX - this.world.x;
+      this.dragStart.y = e.clientY - this.world.y;
+    }
+  }
+
+  private editorMouseUp(e: MouseEvent) {
+    if (this.editor && this.isDraggingFromToolbar) {
+      const { gridX, gridY } = this.screenToGrid(e.clientX, e.clientY);
+
+      let result: ActionResult<unknown> | null = null;
+      if (this.editorTool) {
+        result = this.editor.add(this.editorTool, gridX, gridY);
+      } else if (this.editorDrag) {
+        result = this.editor.drop(this.editorDrag, gridX, gridY);
       }
-      
-      const canPlace = this.canPlaceInRadius(x, y, sprite.radius, sprite.shape, sprite.width, sprite.height, rotation);
-      
-      // Check if within AI's shield (player 2's shield)
-      const withinShield = buildingType === 'shield' || this.isPositionWithinShield(x, y, 2);
-      
-      if (canPlace && withinShield && this.playerOre[2] >= cost) {
-        const placed = this.placeSprite(x, y, sprite, rotation);
-        if (placed) {
-          this.playerOre[2] -= cost;
-          
-          // Update counters
-          if (buildingType === 'mine') {
-            this.playerMineCount[2]++;
-            console.log(`AI mine count: ${this.playerMineCount[2]}`);
-          } else if (buildingType === 'solar') {
-            this.playerSolarCount[2]++;
-            this.playerMaxEnergy[2] += 50;
-            console.log(`AI solar count: ${this.playerSolarCount[2]}, max energy: ${this.playerMaxEnergy[2]}`);
-          }
-          
-          this.soundManager.play('placeBuilding');
-          this.updateGameInfo();
-          return true;
-        }
+
+      if (result) {
+        this.soundManager.play(
+          result.ok ? "placeBuilding" : "invalidPlacement",
+        );
+        this.setEditorMessage(result.ok ? "" : result.reason);
       }
+      this.clearToolbarDrag();
+      this.editorTool = null;
+      this.editorDrag = null;
+      this.showEditorState();
     }
-    return false;
+
+    this.editorPress = null;
+    this.isDragging = false;
   }
-  
-  private aiBuildOffensiveStructure(myBase: PlanetSprite): boolean {
-    const myX = myBase.centerX!;
-    const myY = myBase.centerY!;
-    
-    console.log(`AI attempting to build turret. Ore: ${this.playerOre[2]}, Energy: ${this.playerEnergy[2]}`);
-    
-    // Try to place turret within shield radius (around our base)
-    for (let attempts = 0; attempts < 50; attempts++) {
-      // Place near our base but within shield
-      const angle = Math.random() * Math.PI * 2;
-      const dist = this.shieldRadius * 0.5 + Math.random() * this.shieldRadius * 0.4; // 50-90% of shield radius
-      const x = Math.floor(myX + Math.cos(angle) * dist);
-      const y = Math.floor(myY + Math.sin(angle) * dist);
-      
-      if (x < 0 || x >= this.GRID_WIDTH || y < 0 || y >= this.GRID_HEIGHT) continue;
-      
-      // Check if within shield
-      const dx = x - myX;
-      const dy = y - myY;
-      const distFromBase = Math.sqrt(dx * dx + dy * dy);
-      if (distFromBase > this.shieldRadius) {
-        continue;
-      }
-      
-      // Random choice between regular turret and laser turret
-      const useLaser = Math.random() > 0.5;
-      const texture = this.turretTexture;
-      const spriteKind = useLaser ? 'laserTurret' : 'turret';
-      const cost = useLaser ? 100 : 150;
-      const energyCost = 20;
-      
-      if (!texture) continue;
-      
-      const sprite = createSprite(spriteKind, {
-        texture: texture,
-        name: useLaser ? "Laser Turret" : "Turret"
+
+  // Build the editor's toolbar (bodies to drag in) and panel (selected body, save/load/play)
+  private showEditorUI() {
+    this.editorToolbar = new Container();
+    this.editorToolbar.position.set(10, this.app.screen.height - 100);
+    this.uiContainer.addChild(this.editorToolbar);
+
+    const toolbarBg = new Graphics();
+    toolbarBg.rect(0, 0, 20 + EDITOR_TOOLS.length * 80, 90);
+    toolbarBg.fill({ color: 0x222222, alpha: 0.9 });
+    toolbarBg.stroke({ width: 2, color: 0x666666 });
+    this.editorToolbar.addChild(toolbarBg);
+
+    EDITOR_TOOLS.forEach((tool, index) => {
+      const x = 50 + index * 80;
+      const body = newBody(tool, 0, 0);
+      const texture =
+        body.kind === "planet"
+          ? this.textures.planet
+          : body.kind === "asteroid"
+            ? this.textures.asteroid
+            : this.textures.blackHole;
+
+      const button = new Sprite(texture);
+      button.anchor.set(0.5);
+      button.position.set(x, 35);
+      button.scale.set(50 / Math.max(texture.width, texture.height));
+      button.eventMode = "static";
+      button.cursor = "pointer";
+      this.editorToolbar!.addChild(button);
+
+      const label = new Text({
+        text: EDITOR_TOOL_LABELS[tool],
+        style: {
+          fontFamily: "Orbitron",
+          fontSize: 10,
+          fill: 0xffffff,
+        },
       });
-      
-      sprite.owner = 2;
-      
-      // Apply proper scaling and flipping like player does
-      const spriteScale = ((this.TILE_SIZE * TURRET_TILES) / Math.max(texture.width, texture.height));
-      const spriteDisplay = sprite.getDisplay() as Sprite;
-      spriteDisplay.scale.set(spriteScale);
-      
-      // Flip turret if on right half of screen (same as player logic)
-      if (x > this.GRID_WIDTH / 2) {
-        spriteDisplay.scale.x = -spriteScale;
-      }
-      
-      const canPlace = this.canPlaceInRadius(x, y, sprite.radius, sprite.shape, sprite.width, sprite.height, sprite.rotation);
-      
-      if (canPlace && this.playerOre[2] >= cost && this.playerEnergy[2] >= energyCost) {
-        const placed = this.placeSprite(x, y, sprite);
-        if (placed) {
-          this.playerOre[2] -= cost;
-          this.playerEnergy[2] -= energyCost;
-          this.soundManager.play('placeBuilding');
-          console.log(`AI successfully placed ${useLaser ? 'laser turret' : 'turret'} at (${x}, ${y})`);
-          this.updateGameInfo();
-          return true;
-        }
-      }
+      label.anchor.set(0.5);
+      label.position.set(x, 75);
+      this.editorToolbar!.addChild(label);
+
+      button.on("pointerover", (e: FederatedPointerEvent) => {
+        if (this.isDraggingFromToolbar) return;
+        const gravity = bodyGravity(body);
+        const lines = [
+          EDITOR_TOOL_LABELS[tool].toUpperCase(),
+          `Gravity: reach ${gravity.radius}, pull ${gravity.strength}`,
+        ];
+        if (body.kind === "planet") lines.push("Replaces the current base");
+        this.showTooltipLines(e.global.x, e.global.y - 80, lines);
+      });
+      button.on("pointerout", () => this.hideTooltip());
+
+      button.on("pointerdown", (e: FederatedPointerEvent) => {
+        e.stopPropagation();
+        this.editorTool = tool;
+        this.startBodyDrag(body, false);
+      });
+    });
+
+    // Panel in the top-left corner
+    this.editorPanel = new Container();
+    this.editorPanel.position.set(10, 10);
+    this.uiContainer.addChild(this.editorPanel);
+
+    const panelBg = new Graphics();
+    panelBg.rect(0, 0, 265, 300);
+    panelBg.fill({ color: 0x222222, alpha: 0.9 });
+    panelBg.stroke({ width: 2, color: 0x666666 });
+    this.editorPanel.addChild(panelBg);
+
+    const title = new Text({
+      text: "MAP EDITOR",
+      style: { fontFamily: "Orbitron", fontSize: 18, fill: 0x00ffff },
+    });
+    title.position.set(10, 10);
+    this.editorPanel.addChild(title);
+
+    this.editorInfoText = new Text({
+      text: "",
+      style: { fontSize: 13, fill: 0xffffff, lineHeight: 18 },
+    });
+    this.editorInfoText.position.set(10, 42);
+    this.editorPanel.addChild(this.editorInfoText);
+
+    this.editorMessageText = new Text({
+      text: "",
+      style: {
+        fontSize: 12,
+        fill: 0xffff00,
+        wordWrap: true,
+        wordWrapWidth: 245,
+      },
+    });
+    this.editorMessageText.position.set(10, 272);
+    this.editorPanel.addChild(this.editorMessageText);
+
+    // Selected body controls (left two columns) and file/match controls (right column)
+    const buttons: {
+      text: string;
+      column: number;
+      row: number;
+      onClick: () => void;
+    }[] = [
+      {
+        text: "Size -",
+        column: 0,
+        row: 0,
+        onClick: () =>
+          this.editSelected((editor, body) =>
+            editor.resize(body, -EDITOR_SCALE.step),
+          ),
+      },
+      {
+        text: "Size +",
+        column: 1,
+        row: 0,
+        onClick: () =>
+          this.editSelected((editor, body) =>
+            editor.resize(body, EDITOR_SCALE.step),
+          ),
+      },
+      {
+        text: "Reach -",
+        column: 0,
+        row: 1,
+        onClick: () =>
+          this.editSelected((editor, body) => {
+            const gravity = bodyGravity(body);
+            editor.setGravity(body, {
+              ...gravity,
+              radius: gravity.radius - EDITOR_GRAVITY_RADIUS.step,
+            });
+          }),
+      },
+      {
+        text: "Reach +",
+        column: 1,
+        row: 1,
+        onClick: () =>
+          this.editSelected((editor, body) => {
+            const gravity = bodyGravity(body);
+            editor.setGravity(body, {
+              ...gravity,
+              radius: gravity.radius + EDITOR_GRAVITY_RADIUS.step,
+            });
+          }),
+      },
+      {
+        text: "Pull -",
+        column: 0,
+        row: 2,
+        onClick: () =>
+          this.editSelected((editor, body) => {
+            const gravity = bodyGravity(body);
+            editor.setGravity(body, {
+              ...gravity,
+              strength: gravity.strength - EDITOR_GRAVITY_STRENGTH.step,
+            });
+          }),
+      },
+      {
+        text: "Pull +",
+        column: 1,
+        row: 2,
+        onClick: () =>
+          this.editSelected((editor, body) => {
+            const gravity = bodyGravity(body);
+            editor.setGravity(body, {
+              ...gravity,
+              strength: gravity.strength + EDITOR_GRAVITY_STRENGTH.step,
+            });
+          }),
+      },
+      {
+        text: "Delete",
+        column: 0,
+        row: 3,
+        onClick: () => this.editSelected((editor, body) => editor.remove(body)),
+      },
+      {
+        text: "Field",
+        column: 1,
+        row: 3,
+        onClick: () => {
+          this.showGravityPreview = !this.showGravityPreview;
+          this.drawEditorOverlay();
+        },
+      },
+      { text: "Save", column: 2, row: 0, onClick: () => this.saveEditorMap() },
+      {
+        text: "Load",
+        column: 2,
+        row: 1,
+        onClick: () => {
+          pickMapFile()
+            .then((map) => this.openEditorMap(map))
+            .catch((err) => {
+              console.error("Could not load map:", err);
+              this.setEditorMessage(`Could not load map: ${err.message}`);
+              this.soundManager.play("invalidPlacement");
+            });
+        },
+      },
+      { text: "Play", column: 2, row: 2, onClick: () => this.playEditorMap() },
+      {
+        text: "Menu",
+        column: 2,
+        row: 3,
+        onClick: () => {
+          this.exitEditor();
+          this.world.visible = false;
+          this.showMainMenu();
+        },
+      },
+    ];
+    for (const { text, column, row, onClick } of buttons) {
+      const button = this.createSmallButton(text, 10 + column * 85, onClick);
+      button.y = 125 + row * 35;
+      this.editorPanel.addChild(button);
     }
-    
-    console.log("AI failed to place turret after 50 attempts");
-    return false;
   }
-  
-  private aiFireTurrets(enemyBase: PlanetSprite): number {
-    const enemyX = enemyBase.centerX!;
-    const enemyY = enemyBase.centerY!;
-    const enemyWorld = this.gridToWorld(enemyX, enemyY);
-    
-    // Find AI's own base to avoid shooting it
-    let myBase: PlanetSprite | null = null;
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
-        if (cell.sprite && cell.sprite.owner === 2 && cell.sprite.name === 'Base Planet') {
-          myBase = cell.sprite as PlanetSprite;
-          break;
+
+  // Name the map and download it
+  private saveEditorMap() {
+    if (!this.editor) return;
+
+    const name = window.prompt("Map name", this.editor.map.name);
+    if (name === null) return;
+    this.editor.map.name = name.trim() || this.editor.map.name;
+
+    try {
+      downloadMap(this.editor.exportMap());
+      this.setEditorMessage(`Saved "${this.editor.map.name}"`);
+    } catch (err) {
+      this.setEditorMessage((err as Error).message);
+      this.soundManager.play("invalidPlacement");
+    }
+  }
+
+  // Start a local match on the map being edited
+  private playEditorMap() {
+    if (!this.editor) return;
+
+    let map: GameMap;
+    try {
+      map = this.editor.exportMap();
+    } catch (err) {
+      this.setEditorMessage((err as Error).message);
+      this.soundManager.play("invalidPlacement");
+      return;
+    }
+
+    this.exitEditor();
+    this.isAIMode = false;
+    this.loadMap(map);
+    this.startGame();
+  }
+
+  // Join an online match through the relay - both players open the game with the same room.
+  // The first to join hosts (Player 1) and plays on its own world, the other gets a copy
+  startOnline(relayUrl: string, room: string) {
+    if (this.mainMenuContainer) {
+      this.uiContainer.removeChild(this.mainMenuContainer);
+      this.mainMenuContainer = null;
+    }
+    this.isAIMode = false;
+
+    this.online = new OnlineSession(relayUrl, room, {
+      status: (text) => this.showStatus(text),
+      paired: (player) => {
+        if (player === 1) {
+          this.online?.send({ type: "start", record: recordMatch(this.state) });
+          this.beginOnlineMatch();
+        } else {
+          this.showStatus("Opponent found - loading their world...");
         }
-      }
-      if (myBase) break;
-    }
-    
-    const myBaseWorld = myBase ? this.gridToWorld(myBase.centerX!, myBase.centerY!) : null;
-    
-    // Find all AI turrets with ammo
-    const turrets: any[] = [];
-    let totalAmmo = 0;
-    for (let y = 0; y < this.GRID_HEIGHT; y++) {
-      for (let x = 0; x < this.GRID_WIDTH; x++) {
-        const cell = this.grid[y][x];
-        if (cell.sprite && cell.sprite.owner === 2) {
-          const sprite = cell.sprite as any;
-          if ((sprite.name === 'Turret' || sprite.name === 'Laser Turret') && sprite.ammo > 0) {
-            turrets.push({ sprite, x: cell.centerX!, y: cell.centerY! });
-            totalAmmo += sprite.ammo;
-          }
+      },
+      start: (record) => {
+        this.replaceMatch(createWorld(record));
+        this.beginOnlineMatch();
+      },
+      action: (action) => this.applyRemoteAction(action),
+      sync: (save) => {
+        const { state } = deserializeState(save);
+        this.replaceMatch(state);
+        this.showStatus(
+          "Desync fixed - now playing on the host's copy of the match",
+          0xffaa00,
+        );
+        if (state.winner) this.endGame(state.winner);
+      },
+      desync: (hostChecksum, localChecksum) => {
+        console.warn(
+          `Online: desync after turn end (host ${formatChecksum(hostChecksum)}, here ${formatChecksum(localChecksum)})`,
+        );
+        this.showStatus(
+          "Desync detected - fetching the host's copy of the match...",
+          0xffaa00,
+        );
+      },
+      closed: (reason) => {
+        this.online = null;
+        this.showStatus(
+          this.gameStarted
+            ? `${reason} - both sides can now be played here`
+            : reason,
+        );
+        this.updateGameInfo();
+      },
+    });
+  }
+
+  private beginOnlineMatch() {
+    if (!this.online) return;
+    this.showStatus(
+      `Online - room "${this.online.room}" - you are Player ${this.online.localPlayer}`,
+    );
+    this.startGame();
+    this.updateGameInfo();
+  }
+
+  // Apply the opponent's move to our copy of the match
+  private applyRemoteAction(action: RecordedAction) {
+    if (this.replay) this.exitReplay();
+
+    const { tick, ...move } = action;
+    const result = this.state.execute(move);
+    if (!result.ok) {
+      console.warn(
+        `Online: opponent's move at tick ${tick} failed here (${result.reason}) - the host's state will correct it`,
+      );
+    }
+  }
+
+  // Online and play-by-file messages (top center, under the turn indicator)
+  private showStatus(text: string, color: number = 0x00ffff) {
+    if (!this.statusText) {
+      this.statusText = new Text({
+        text: "",
+        style: {
+          fontFamily: "Orbitron",
+          fontSize: 18,
+          fill: 0x00ffff,
+          stroke: { color: 0x000000, width: 4 },
+        },
+      });
+      this.statusText.anchor.set(0.5, 0);
+      this.uiContainer.addChild(this.statusText);
+    }
+    this.statusText.text = text;
+    this.statusText.style.fill = color;
+    this.statusText.position.set(
+      this.app.screen.width / 2,
+      this.gameStarted ? 65 : this.app.screen.height / 2,
+    );
+  }
+
+  // Play-by-file: end the turn and send the match to the opponent once the shots have landed
+  sendTurn() {
+    if (this.replay || this.online) return;
+    if (!this.gameOver) this.endTurn();
+    this.turnExportPending = true;
+    this.showStatus("Sending turn once the shots have landed...");
+  }
+
+  private exportTurn() {
+    const file = createTurnFile(this.state);
+    downloadTurnFile(file);
+    console.log(
+      `Exported turn ${file.turn} (seed ${file.match.seed}, ${file.match.actions.length} actions)`,
+    );
+
+    // A link is handier than a file when it's short enough
+    turnLink(file)
+      .then((link) => {
+        if (!link) {
+          this.showStatus(
+            `Turn ${file.turn} saved - send the file to Player ${this.state.currentPlayer}`,
+          );
+          return;
         }
-      }
+        return navigator.clipboard.writeText(link).then(() => {
+          this.showStatus(
+            `Turn ${file.turn} saved and its link copied - send either to Player ${this.state.currentPlayer}`,
+          );
+        });
+      })
+      .catch((err) => {
+        console.warn("Could not copy the turn link:", err);
+        this.showStatus(
+          `Turn ${file.turn} saved - send the file to Player ${this.state.currentPlayer}`,
+        );
+      });
+  }
+
+  // Play-by-file: rebuild the match from the opponent's turn file and show their last turn
+  importTurn(file: TurnFile) {
+    const { state, matches } = rebuildMatch(file);
+    this.isAIMode = false;
+    this.replaceMatch(state);
+    if (!this.gameStarted) this.startGame();
+
+    if (!matches) {
+      console.warn(
+        `Turn file: rebuilt match doesn't match the sender's (checksum ${formatChecksum(file.checksum)})`,
+      );
+      this.showStatus(
+        "Warning: this copy of the match came out different from the sender's",
+        0xffaa00,
+      );
+    } else {
+      this.showStatus(
+        `Player ${file.player}'s turn ${file.turn} - press Exit when you're ready to play`,
+      );
     }
+    if (state.winner) this.endGame(state.winner);
+
+    // Replay just the turn that was sent (a match can end mid-turn, before its end turn)
+    const lastAction = file.match.actions[file.match.actions.length - 1];
+    this.startReplay(
+      file.match,
+      lastAction?.type === "endTurn" ? file.turn - 1 : file.turn,
+    );
+  }
+
+  endTurn() {
+    if (this.gameOver || this.replay) return;
+    if (this.online && !this.online.isLocalTurn(this.state)) return;
     
-    console.log(`AI found ${turrets.length} turrets with ${totalAmmo} total ammo`);
-    
-    if (turrets.length === 0 || totalAmmo === 0) return 0;
-    
-    // Calculate 40% of total ammo, minimum 1, maximum available energy allows
-    const shotsToFire = Math.max(1, Math.floor(totalAmmo * 0.4));
-    const maxShotsFromEnergy = Math.floor(this.playerEnergy[2] / 25); // Assume average 25 energy per shot
-    const actualShots = Math.min(shotsToFire, maxShotsFromEnergy, totalAmmo);
-    
-    console.log(`AI planning to fire ${actualShots} shots (40% of ${totalAmmo} ammo, energy allows ${maxShotsFromEnergy})`);
-    
-    let shotsFired = 0;
+    this.state.execute({ type: "endTurn", player: this.state.currentPlayer });
     
-    // Fire multiple shots
-    for (let i = 0; i < actualShots; i++) {
-      // Find turrets that still have ammo
-      const availableTurrets = turrets.filter(t => t.sprite.ammo > 0);
-      if (availableTurrets.length === 0) break;
-      
-      // Randomly select a turret
-      const turretData = availableTurrets[Math.floor(Math.random() * availableTurrets.length)];
-      const turretWorld = this.gridToWorld(turretData.x, turretData.y);
-    
-    // Try different velocities to find one that hits close to target
-    let bestVx = 0;
-    let bestVy = 0;
-    let bestDistance = Infinity;
-    
-    // Test multiple angles and speeds
-    for (let speedMult = 2; speedMult <= 6; speedMult += 0.5) {
-      for (let angleDeg = -180; angleDeg <= 180; angleDeg += 10) {
-        const angle = (angleDeg * Math.PI) / 180;
-        const testVx = Math.cos(angle) * speedMult;
-        const testVy = Math.sin(angle) * speedMult;
-        
-        // Simulate this trajectory
-        const result = this.simulateTrajectoryWithCollision(
-          turretWorld.x, turretWorld.y, 
-          testVx, testVy, 
-          enemyWorld.x, enemyWorld.y,
-          myBaseWorld
-        );
-        
-        // Skip if trajectory would hit our own base
-        if (result.hitsOwnBase) continue;
-        
-        const endDist = result.closestDistToTarget;
-        
-        if (endDist < bestDistance) {
-          bestDistance = endDist;
-          bestVx = testVx;
-          bestVy = testVy;
-        }
-      }
+    // Autosave so a refresh doesn't lose the match (online matches can't be continued alone,
+    // and the turn limit may just have ended this one)
+    if (!this.online && !this.state.gameOver) {
+      this.autosavePending = true;
     }
-    
-    // Skip this shot if no safe trajectory found
-    if (bestDistance === Infinity) {
-      console.log("AI skipped shot - all trajectories would hit own base");
-      continue;
+
+    // If AI mode and it's an AI player's turn, trigger AI
+    if (this.isAITurn()) {
+      this.aiThinkingDelay = 60; // 1 second delay before AI starts
     }
+  }
+  
+  updateGameInfo() {
+    if (!this.gameInfoText || !this.oreText || !this.energyText || !this.energyBarFill) return;
+    if (!this.resourcePanel) return;
     
-    // Add slight inaccuracy to make it more realistic
-    const inaccuracy = 0.15;
-    const vx = bestVx + (Math.random() - 0.5) * inaccuracy * 2;
-    const vy = bestVy + (Math.random() - 0.5) * inaccuracy * 2;
-    
-    // Fire the turret using EXACT SAME LOGIC AS PLAYER
-    const turret = turretData.sprite;
-    const isLaserTurret = turret.name === 'Laser Turret';
-    const projectileTexture = isLaserTurret ? this.laserTexture : this.missileTexture;
-    const soundEffect = isLaserTurret ? 'laser' : 'missileFire';
-    
-    if (!projectileTexture) continue;
+    // Update turn indicator
+    const playerColor = PLAYER_COLORS[this.state.currentPlayer];
+    const team = this.state.settings.teams
+      ? ` (Team ${this.state.teamOf(this.state.currentPlayer)})`
+      : "";
+    const round =
+      this.state.settings.turnLimit > 0
+        ? ` - Round ${this.state.round}/${this.state.settings.turnLimit}`
+        : "";
+    const ai = this.isAITurn()
+      ? ` - AI (${AI_PROFILES[this.aiDifficulty].name})`
+      : "";
+    this.gameInfoText.text = `Player ${this.state.currentPlayer}'s Turn${team}${ai}${round}`;
+    if (this.online && !this.replay) {
+      this.gameInfoText.text = this.online.isLocalTurn(this.state)
+        ? `Your Turn (Player ${this.state.currentPlayer})`
+        : this.online.awaitingSync
+          ? "Waiting for shots to land..."
+          : `Opponent's Turn (Player ${this.state.currentPlayer})`;
+    }
+    this.gameInfoText.style.fill = playerColor;
     
-    // Create projectile exactly like player does
-    const projectile = createSprite("bunny", {
-      texture: projectileTexture,
-      name: "Projectile",
+    // Update planet health bars (one per player in the match)
+    this.healthBars.forEach((bar, index) => {
+      const player = index + 1;
+      bar.row.visible = player <= this.state.playerCount;
+      if (!bar.row.visible) return;
+
+      bar.label.text = this.state.settings.teams
+        ? `Player ${player} (Team ${this.state.teamOf(player)}) HP:`
+        : `Player ${player} Planet HP:`;
+      const base = this.state.getPlayerBase(player);
+      const health = base ? base.health : 0;
+      bar.fill.clear();
+      bar.fill.rect(0, 0, base ? 200 * (health / base.maxHealth) : 0, 20);
+      bar.fill.fill({ color: PLAYER_COLORS[player], alpha: 0.9 });
+      bar.text.text = base ? `${health}/${base.maxHealth}` : "Eliminated";
     });
+    this.resourcePanel.y = (this.state.playerCount - 2) * 55;
     
-    // Scale the projectile (same as player)
-    const BUNNY_TILES = 1;
-    const projectileScale = ((this.TILE_SIZE * BUNNY_TILES) / Math.max(projectileTexture.width, projectileTexture.height));
-    (projectile.getDisplay() as Sprite).scale.set(projectileScale);
-    
-    // Position at turret location
-    const turretPos = turret.getDisplay().position;
-    projectile.getDisplay().position.set(turretPos.x, turretPos.y);
-    
-    // Set velocity from AI calculation
-    projectile.vx = vx;
-    projectile.vy = vy;
-    
-    // Store reference to firing turret and damage (same as player)
-    (projectile as any).firingTurret = turret;
-    (projectile as any).damage = turret.damage || 50;
-    (projectile as any).isLaser = isLaserTurret;
-    
-    // Add to world and projectiles array (same as player)
-    this.world.addChild(projectile.getDisplay());
-    this.projectiles.push(projectile);
-    
-    // Create particle trail for this projectile (same as player)
-    this.particleTrails.set(projectile, []);
-    
-    // Decrement turret ammo (same as player)
-    if (turret.ammo !== undefined) {
-      turret.ammo--;
-    }
+    // Update ore text with current player's color
+    this.oreText.text =
+      this.state.playerOre[this.state.currentPlayer].toString();
+    this.oreText.style.fill = playerColor;
     
-    // Deduct energy cost (same as player)
-    const energyCost = isLaserTurret ? 25 : 50;
-    this.playerEnergy[2] -= energyCost;
+    // Update energy text
+    this.energyText.text = `${this.state.playerEnergy[this.state.currentPlayer]}/${this.state.playerMaxEnergy[this.state.currentPlayer]}`;
+    this.energyText.style.fill = 0xFFFF00;
     
-    this.soundManager.play(soundEffect);
-    shotsFired++;
-    }
+    // Update energy bar
+    const energyPercent =
+      this.state.playerEnergy[this.state.currentPlayer] /
+      this.state.playerMaxEnergy[this.state.currentPlayer];
+    this.energyBarFill.clear();
+    this.energyBarFill.rect(0, 0, 200 * energyPercent, 20);
+    this.energyBarFill.fill({ color: 0xFFFF00, alpha: 0.9 });
+  }
+
+  // In AI mode Player 1 is human and every other player is the AI
+  private isAITurn(): boolean {
+    return this.isAIMode && this.state.currentPlayer !== 1;
+  }
+
+  // Planner for an AI player (a new one for each match, so nothing carries over)
+  private aiPlanner(player: number): AiPlanner {
+    let planner = this.aiPlanners.get(player);
+    if (!planner || planner.state !== this.state) {
+      planner = new AiPlanner(
+        this.state,
+        player,
+        AI_PROFILES[this.aiDifficulty],
+        this.aiRng,
+      );
+      this.aiPlanners.set(player, planner);
+    }
+    return planner;
+  }
+
+  // AI Turn Execution - carry out the planner's best action, then come back for the next one
+  private executeAITurn() {
+    if (!this.isAITurn() || this.gameOver) return;
     
-    this.updateGameInfo();
-    console.log(`AI fired ${shotsFired} shots total`);
+    const plan = this.aiPlanner(this.state.currentPlayer).plan();
     
-    return shotsFired;
-  }
-  
-  // Simulate projectile trajectory and return closest distance to target
-  private simulateTrajectoryWithCollision(
-    startX: number, startY: number, 
-    vx: number, vy: number, 
-    targetX: number, targetY: number,
-    ownBaseWorld: { x: number, y: number } | null
-  ): { closestDistToTarget: number, hitsOwnBase: boolean } {
-    let posX = startX;
-    let posY = startY;
-    let velX = vx;
-    let velY = vy;
-    let closestDist = Infinity;
-    let hitsOwnBase = false;
-    
-    const maxSteps = 300;
-    const deltaTime = 1.0;
-    const MAX_VELOCITY = 8;
-    const BASE_COLLISION_RADIUS = 80; // Approximate collision radius for base planet
-    
-    for (let i = 0; i < maxSteps; i++) {
-      // Get grid position
-      const gridX = Math.floor(posX / this.TILE_SIZE);
-      const gridY = Math.floor(posY / this.TILE_SIZE);
-      
-      // Check if projectile would hit our own base
-      if (ownBaseWorld) {
-        const dx = posX - ownBaseWorld.x;
-        const dy = posY - ownBaseWorld.y;
-        const distToOwnBase = Math.sqrt(dx * dx + dy * dy);
-        if (distToOwnBase < BASE_COLLISION_RADIUS) {
-          hitsOwnBase = true;
-          break;
-        }
-      }
-      
-      // Check distance to target
-      const dx = posX - targetX;
-      const dy = posY - targetY;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist < closestDist) {
-        closestDist = dist;
-      }
-      
-      // Get gravity at this position
-      let ax = 0;
-      let ay = 0;
-      if (gridX >= 0 && gridX < this.GRID_WIDTH && gridY >= 0 && gridY < this.GRID_HEIGHT) {
-        ax = this.grid[gridY][gridX].gravity.ax;
-        ay = this.grid[gridY][gridX].gravity.ay;
-      }
-      
-      // Apply gravity
-      velX += ax * deltaTime;
-      velY += ay * deltaTime;
-      
-      // Clamp velocity
-      const speed = Math.sqrt(velX * velX + velY * velY);
-      if (speed > MAX_VELOCITY) {
-        velX = (velX / speed) * MAX_VELOCITY;
-        velY = (velY / speed) * MAX_VELOCITY;
-      }
-      
-      // Update position
-      posX += velX * deltaTime;
-      posY += velY * deltaTime;
-      
-      // Stop if out of bounds
-      if (posX < 0 || posX > this.GRID_WIDTH * this.TILE_SIZE || 
-          posY < 0 || posY > this.GRID_HEIGHT * this.TILE_SIZE) {
-        break;
+    if (plan.type === "build") {
+      const result = this.state.execute({
+        type: "placeBuilding",
+        player: this.state.currentPlayer,
+        kind: plan.kind,
+        gridX: plan.gridX,
+        gridY: plan.gridY,
+      });
+      if (result.ok) {
+        this.aiThinkingDelay = 30; // Small delay before next action
+        return;
       }
-      
-      // If we got very close to target, we can stop early
-      if (dist < 50) {
-        break;
+      console.warn(`AI could not build: ${result.reason}`);
+    } else if (plan.type === "fire") {
+      // Fire the turret using EXACT SAME LOGIC AS PLAYER (recorded in the action log)
+      if (this.fireTurret(plan.turret, plan.vx, plan.vy)) {
+        this.aiThinkingDelay = 20;
+        return;
       }
     }
     
-    return { closestDistToTarget: closestDist, hitsOwnBase };
+    // Nothing worth doing (or it failed), end turn
+    console.log("AI ending turn");
+    this.endTurn();
   }
-
-  // Draw trajectory for gun firing (ignoring launch planet gravity)
 }
@@ -0,0 +1,87 @@
+import type { GameSprite, ProjectileSprite, Weapon } from "./sprite";
+import type { Impact } from "./gameState";
+import type { RecordedAction } from "./actions";
+
+// Everything a match reports, keyed by event name
+export interface GameEvents {
+  projectileFired: {
+    projectile: ProjectileSprite;
+    turret: GameSprite & Weapon;
+    player: number;
+  };
+  impact: Impact; // Something was hit (explosion position, damage and target)
+  spriteDamaged: { sprite: GameSprite; damage: number; attacker: number };
+  spriteDestroyed: { sprite: GameSprite; attacker: number };
+  buildingPlaced: { sprite: GameSprite; player: number };
+  turnEnded: { previousPlayer: number; currentPlayer: number };
+  resourcesChanged: {
+    player: number;
+    ore: number;
+    energy: number;
+    maxEnergy: number;
+  };
+  playerEliminated: { player: number }; // A player's base was destroyed
+  gameOver: { winner: string };
+  actionExecuted: { action: RecordedAction }; // Any successful action, as logged (online play sends these)
+}
+
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Small typed event emitter.
+ * GameState emits its events here; the Engine forwards whichever state it is
+ * showing onto its own bus so UI, audio and AI subscribers survive loads and replays.
+ */
+export class EventBus<Events extends object> {
+  private handlers: { [K in keyof Events]?: EventHandler<Events[K]>[] } = {};
+  private forwards: EventBus<Events>[] = [];
+
+  // While muted nothing is delivered (used when fast-forwarding replays)
+  muted = false;
+
+  // Subscribe to an event - returns a function that unsubscribes
+  on<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+  ): () => void {
+    const list = this.handlers[event] ?? [];
+    list.push(handler);
+    this.handlers[event] = list;
+    return () => this.off(event, handler);
+  }
+
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) {
+    const list = this.handlers[event];
+    if (!list) return;
+    const index = list.indexOf(handler);
+    if (index > -1) {
+      list.splice(index, 1);
+    }
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    if (this.muted) return;
+
+    // Copy so handlers can unsubscribe while we iterate
+    const list = this.handlers[event];
+    if (list) {
+      for (const handler of [...list]) {
+        handler(payload);
+      }
+    }
+    for (const target of this.forwards) {
+      target.emit(event, payload);
+    }
+  }
+
+  // Re-emit every event on another bus - returns a function that stops forwarding
+  forwardTo(target: EventBus<Events>): () => void {
+    this.forwards.push(target);
+    return () => {
+      const index = this.forwards.indexOf(target);
+      if (index > -1) {
+        this.forwards.splice(index, 1);
+      }
+    };
+  }
+}
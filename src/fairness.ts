@@ -0,0 +1,344 @@
+import { GameState, WorldLayout } from "./gameState";
+import { GameSprite, PlanetSprite } from "./sprite";
+import { ShotScore, simulateTrajectoryWithCollision } from "./trajectory";
+import { BUILDINGS } from "./buildings";
+import { MatchSettings } from "./matchSettings";
+import { PLANET_RADIUS, MAX_VELOCITY, TILE_SIZE } from "./constants";
+
+// How thoroughly maps are tested. Every turret spot aims at the enemy base at every speed:
+// a sweep all the way round, then the closest misses are walked in with finer angles
+export const FAIRNESS_SETTINGS = {
+  turretSpots: 8, // Spots on a ring just outside each base planet
+  spotDistance: PLANET_RADIUS + 4, // Ring radius in tiles
+  angleStep: 5, // Degrees between the sweep's test shots
+  speeds: [5, 6.5, MAX_VELOCITY], // Slower shots mostly fall back onto their own planet
+  refineLanes: 2, // Closest misses of the sweep that get walked in
+  refineArc: 2.5, // Degrees either side of a close miss that are tried...
+  refineStep: 0.25, // ...this far apart
+  maxSteps: 2000, // Long enough to cross the map, even on a curving path
+};
+
+// A shot passing this close to the enemy base's edge (in tiles) counts as a hit -
+// it's within the gap between two of the fine test angles
+export const NEAR_MISS_TILES = 2;
+
+// Weaker side's score divided by the stronger side's - below this a map is unfair
+export const FAIRNESS_THRESHOLD = 0.75;
+
+// Shots that run into something that can't be shot away (black holes) at least this often block their angle
+const BLOCKED_SHARE = 0.5;
+
+// An arc of aiming angles in degrees (0 = right, 90 = down, as on screen)
+export interface AngleSector {
+  from: number;
+  to: number;
+}
+
+/**
+ * How easily one player can hit the other's base.
+ * Asteroids can be shot away, so test shots fly through them and count the
+ * missiles it would take to clear them. Black holes and planets stop a shot.
+ */
+export interface SideReport {
+  player: number;
+  turretSpots: number; // Spots that were free to build on
+  aims: number; // Spot and speed pairs that aimed at the enemy base
+  shots: number; // Test shots fired
+  hits: number; // Aims that found a shot on target (after clearing asteroids)
+  clearHits: number; // Hits with no asteroid in the way
+  hitRate: number; // Hits per aim
+  averageShotsNeeded: number; // Missiles per hit, clearing shots included (Infinity if nothing hits)
+  score: number; // Hits per aim, each worth 1 / shots needed - compared between sides
+  reachableAngles: number[]; // Angles where some spot and speed reaches the enemy base
+  blockedSectors: AngleSector[]; // Arcs where shots mostly end in black holes
+}
+
+export interface FairnessReport {
+  sides: SideReport[]; // One per player, Player 1 first
+  balance: number; // 0 - 1, 1 = every side hits equally often
+  fair: boolean;
+  reason: string; // Why the map is unfair (empty when it's fair)
+}
+
+// Free spots around a base where a turret could be built
+function turretSpots(
+  state: GameState,
+  base: GameSprite,
+): { x: number; y: number }[] {
+  const spots: { x: number; y: number }[] = [];
+  const turretRadius = BUILDINGS.turret.radius;
+
+  for (let i = 0; i < FAIRNESS_SETTINGS.turretSpots; i++) {
+    const angle = (i / FAIRNESS_SETTINGS.turretSpots) * Math.PI * 2;
+    const gridX =
+      base.gridX + Math.round(Math.cos(angle) * FAIRNESS_SETTINGS.spotDistance);
+    const gridY =
+      base.gridY + Math.round(Math.sin(angle) * FAIRNESS_SETTINGS.spotDistance);
+
+    if (state.canPlaceInRadius(gridX, gridY, turretRadius, "square")) {
+      spots.push(state.gridToWorld(gridX, gridY));
+    }
+  }
+  return spots;
+}
+
+// Base of the nearest opponent - the one a player will mostly be trading shots with
+function nearestEnemyBase(
+  state: GameState,
+  player: number,
+): PlanetSprite | null {
+  const ownBase = state.getPlayerBase(player);
+  if (!ownBase) return null;
+
+  let nearest: PlanetSprite | null = null;
+  let nearestDistance = Infinity;
+  for (let other = 1; other <= state.playerCount; other++) {
+    const base = state.getPlayerBase(other);
+    if (state.areAllies(player, other) || !base) continue;
+    const distance = Math.hypot(
+      base.gridX - ownBase.gridX,
+      base.gridY - ownBase.gridY,
+    );
+    if (distance < nearestDistance) {
+      nearest = base;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// Aim from one player's turret spots at the nearest enemy base
+export function analyzeSide(state: GameState, player: number): SideReport {
+  const ownBase = state.getPlayerBase(player);
+  const enemyBase = nearestEnemyBase(state, player);
+  const report: SideReport = {
+    player,
+    turretSpots: 0,
+    aims: 0,
+    shots: 0,
+    hits: 0,
+    clearHits: 0,
+    hitRate: 0,
+    averageShotsNeeded: Infinity,
+    score: 0,
+    reachableAngles: [],
+    blockedSectors: [],
+  };
+  if (!ownBase || !enemyBase) return report;
+
+  const spots = turretSpots(state, ownBase);
+  report.turretSpots = spots.length;
+
+  const damage = BUILDINGS.turret.weapon!.damage;
+  const isAsteroid = (sprite: GameSprite) => sprite.kind === "asteroid";
+  const onTarget = (enemyBase.radius + NEAR_MISS_TILES) * TILE_SIZE;
+  let shotsNeededTotal = 0;
+
+  // Sweep results per angle, over every spot and speed (for blocked sectors)
+  const { angleStep, refineLanes, refineArc, refineStep } = FAIRNESS_SETTINGS;
+  const sweepAngles = Math.ceil(360 / angleStep);
+  const sweepShots: number[] = Array(sweepAngles).fill(0);
+  const sweepHits: number[] = Array(sweepAngles).fill(0);
+  const sweepObstructed: number[] = Array(sweepAngles).fill(0);
+
+  for (const spot of spots) {
+    for (const speed of FAIRNESS_SETTINGS.speeds) {
+      const fire = (angleDeg: number): ShotScore => {
+        report.shots++;
+        const angle = (angleDeg * Math.PI) / 180;
+        return simulateTrajectoryWithCollision(
+          state,
+          spot,
+          Math.cos(angle) * speed,
+          Math.sin(angle) * speed,
+          enemyBase,
+          ownBase,
+          { maxSteps: FAIRNESS_SETTINGS.maxSteps, passThrough: isAsteroid },
+        );
+      };
+
+      const lanes: { angleDeg: number; result: ShotScore }[] = [];
+      for (let index = 0; index < sweepAngles; index++) {
+        const result = fire(index * angleStep);
+        lanes.push({ angleDeg: index * angleStep, result });
+        sweepShots[index]++;
+        if (result.closestDistToTarget <= onTarget) {
+          sweepHits[index]++;
+        } else if (result.hit && !result.hitsOwnBase) {
+          sweepObstructed[index]++;
+        }
+      }
+
+      // Walk in the closest misses until one lands, like a player adjusting their aim
+      lanes.sort(
+        (a, b) => a.result.closestDistToTarget - b.result.closestDistToTarget,
+      );
+      let hit =
+        lanes[0].result.closestDistToTarget <= onTarget ? lanes[0] : null;
+      for (const lane of lanes.slice(0, refineLanes)) {
+        if (hit || !Number.isFinite(lane.result.closestDistToTarget)) break;
+        for (
+          let offset = -refineArc;
+          offset <= refineArc && !hit;
+          offset += refineStep
+        ) {
+          const angleDeg = lane.angleDeg + offset;
+          const result = fire(angleDeg);
+          if (result.closestDistToTarget <= onTarget) {
+            hit = { angleDeg, result };
+          }
+        }
+      }
+
+      report.aims++;
+      if (!hit) continue;
+      const shotsNeeded =
+        1 +
+        hit.result.passed.reduce(
+          (sum, asteroid) => sum + Math.ceil(asteroid.health / damage),
+          0,
+        );
+      report.hits++;
+      shotsNeededTotal += shotsNeeded;
+      report.score += 1 / shotsNeeded;
+      if (hit.result.passed.length === 0) report.clearHits++;
+      const angle = Math.round((hit.angleDeg + 360) % 360);
+      if (!report.reachableAngles.includes(angle)) {
+        report.reachableAngles.push(angle);
+      }
+    }
+  }
+
+  report.hitRate = report.aims > 0 ? report.hits / report.aims : 0;
+  report.averageShotsNeeded =
+    report.hits > 0 ? shotsNeededTotal / report.hits : Infinity;
+  report.score = report.aims > 0 ? report.score / report.aims : 0;
+  report.reachableAngles.sort((a, b) => a - b);
+  report.blockedSectors = toSectors(
+    sweepShots.map(
+      (shots, index) =>
+        sweepHits[index] === 0 &&
+        shots > 0 &&
+        sweepObstructed[index] / shots >= BLOCKED_SHARE,
+    ),
+  );
+  return report;
+}
+
+// Merge neighbouring blocked angles into arcs (wrapping around at 360)
+function toSectors(blocked: boolean[]): AngleSector[] {
+  const step = FAIRNESS_SETTINGS.angleStep;
+  const sectors: AngleSector[] = [];
+
+  blocked.forEach((isBlocked, index) => {
+    if (!isBlocked) return;
+    const last = sectors[sectors.length - 1];
+    if (last && last.to === index * step) {
+      last.to += step;
+    } else {
+      sectors.push({ from: index * step, to: index * step + step });
+    }
+  });
+
+  // An arc crossing 0 degrees shows up as one at each end
+  if (
+    sectors.length > 1 &&
+    sectors[0].from === 0 &&
+    sectors[sectors.length - 1].to === 360
+  ) {
+    const last = sectors.pop()!;
+    sectors[0].from = last.from - 360;
+  }
+  return sectors;
+}
+
+// Compare every player's side of a match's world (the weakest against the strongest)
+export function analyzeFairness(state: GameState): FairnessReport {
+  const sides: SideReport[] = [];
+  for (let player = 1; player <= state.playerCount; player++) {
+    sides.push(analyzeSide(state, player));
+  }
+  const sorted = [...sides].sort((a, b) => a.score - b.score);
+  const weaker = sorted[0];
+  const stronger = sorted[sorted.length - 1];
+
+  // Nobody can hit from the test spots - there's nothing to compare, and a match nobody can win isn't fair either
+  if (stronger.score === 0) {
+    return {
+      sides,
+      balance: 0,
+      fair: false,
+      reason: "No player can hit an enemy base from the test spots",
+    };
+  }
+
+  const balance = weaker.score / stronger.score;
+  if (balance < FAIRNESS_THRESHOLD) {
+    return {
+      sides,
+      balance,
+      fair: false,
+      reason: `Player ${weaker.player} has only ${Math.round(balance * 100)}% of Player ${stronger.player}'s chance to hit`,
+    };
+  }
+  return { sides, balance, fair: true, reason: "" };
+}
+
+// Generate worlds on successive seeds until one is fair. Gives up after maxAttempts
+// and returns the most balanced world it found (its report says it isn't fair)
+export function generateFairWorld(
+  width: number,
+  height: number,
+  seed: number,
+  layout: WorldLayout = "random",
+  maxAttempts: number = 5,
+  playerCount: number = 2,
+  settings: Partial<MatchSettings> = {},
+): { state: GameState; report: FairnessReport; attempts: number } {
+  let best: { state: GameState; report: FairnessReport } | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const state = new GameState(
+      width,
+      height,
+      (seed + attempt - 1) >>> 0,
+      playerCount,
+      settings,
+    );
+    state.generateWorld(layout);
+    const report = analyzeFairness(state);
+
+    if (report.fair) {
+      return { state, report, attempts: attempt };
+    }
+    if (!best || report.balance > best.report.balance) {
+      best = { state, report };
+    }
+  }
+
+  return { ...best!, attempts: maxAttempts };
+}
+
+// Summary for the pre-match screen. attempts is how many worlds generateFairWorld() tried
+export function describeFairness(report: FairnessReport, attempts = 1): string {
+  const sides = report.sides
+    .map((side) => {
+      const shots = Number.isFinite(side.averageShotsNeeded)
+        ? side.averageShotsNeeded.toFixed(1)
+        : "-";
+      return `P${side.player}: ${side.reachableAngles.length} firing angles, ~${shots} shots per hit`;
+    })
+    .join(" | ");
+  const lines = [
+    `Map fairness: ${Math.round(report.balance * 100)}% (${sides})`,
+  ];
+  if (!report.fair) lines.push(report.reason);
+  if (attempts > 1) {
+    lines.push(
+      report.fair
+        ? `Rerolled ${attempts - 1} unfair world${attempts > 2 ? "s" : ""}`
+        : `No fair world in ${attempts} tries - this is the most balanced one`,
+    );
+  }
+  return lines.join("\n");
+}
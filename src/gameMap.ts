@@ -0,0 +1,227 @@
+import { BuildingKind, isBuildingKind } from "./buildings";
+import { GameSprite, createSprite } from "./sprite";
+import {
+  ASTEROID_ROTATION_MIN,
+  PLANET_ROTATION_MIN,
+  PLANET_GRAVITY,
+  ASTEROID_GRAVITY,
+  BLACK_HOLE_GRAVITY,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+} from "./constants";
+
+/**
+ * JSON format for hand-authored maps.
+ * Positions are center cells on the grid. Gravity is optional per body and
+ * falls back to the same fields generateWorld() uses.
+ * Bump MAP_VERSION whenever GameMap changes shape and add a migration in parseMap().
+ */
+export const MAP_VERSION = 1;
+
+export interface MapGravity {
+  radius: number; // In tiles
+  strength: number;
+}
+
+export interface MapPlanet {
+  player: number; // Whose base this is (players are numbered from 1)
+  x: number;
+  y: number;
+  rotationSpeed?: number;
+  initialRotation?: number;
+  gravity?: MapGravity;
+}
+
+export interface MapAsteroid {
+  x: number;
+  y: number;
+  scale?: number; // 0.5 - 1.5, defaults to 1
+  health?: number; // Defaults to the size-based HP
+  rotationSpeed?: number;
+  gravity?: MapGravity;
+}
+
+export interface MapBlackHole {
+  x: number;
+  y: number;
+  scale?: number; // 0.5 - 1.5, defaults to 1
+  rotationSpeed?: number;
+  gravity?: MapGravity;
+}
+
+// A building that exists when the match starts
+export interface MapStructure {
+  kind: BuildingKind;
+  player: number;
+  x: number;
+  y: number;
+  ammo?: number; // Weapons only
+}
+
+export interface GameMap {
+  version: number;
+  name: string;
+  width: number; // In tiles
+  height: number;
+  shieldRadius?: number; // Build radius around each base, defaults to 2x planet radius
+  planets: MapPlanet[];
+  asteroids: MapAsteroid[];
+  blackHoles: MapBlackHole[];
+  structures?: MapStructure[];
+}
+
+// A planet, asteroid or black hole, tagged so code can handle any of them
+export type MapBody =
+  | { kind: "planet"; body: MapPlanet }
+  | { kind: "asteroid"; body: MapAsteroid }
+  | { kind: "blackhole"; body: MapBlackHole };
+
+// Create the sprite for a map body (bases still need their owner set by the caller)
+export function createBodySprite(entry: MapBody): GameSprite {
+  if (entry.kind === "planet") {
+    return createSprite("planet", {
+      rotationSpeed: entry.body.rotationSpeed ?? PLANET_ROTATION_MIN,
+      name: `Player ${entry.body.player} Base`,
+      centerX: entry.body.x,
+      centerY: entry.body.y,
+      initialRotation: entry.body.initialRotation ?? 0,
+    });
+  }
+
+  if (entry.kind === "asteroid") {
+    const asteroid = createSprite("asteroid", {
+      rotationSpeed: entry.body.rotationSpeed ?? ASTEROID_ROTATION_MIN,
+      scale: entry.body.scale ?? 1,
+    });
+    if (entry.body.health !== undefined) {
+      asteroid.health = entry.body.health;
+      asteroid.maxHealth = entry.body.health;
+    }
+    return asteroid;
+  }
+
+  return createSprite("blackhole", {
+    rotationSpeed: entry.body.rotationSpeed ?? 0.002,
+    scale: entry.body.scale ?? 1,
+  });
+}
+
+// Gravity a map body pulls with (its own, or the default for its kind)
+export function bodyGravity(entry: MapBody): MapGravity {
+  if (entry.body.gravity) return entry.body.gravity;
+  if (entry.kind === "planet") return PLANET_GRAVITY;
+  if (entry.kind === "asteroid") return ASTEROID_GRAVITY;
+  return BLACK_HOLE_GRAVITY;
+}
+
+// Every body on a map, bases first
+export function mapBodies(map: GameMap): MapBody[] {
+  return [
+    ...map.planets.map((body): MapBody => ({ kind: "planet", body })),
+    ...map.asteroids.map((body): MapBody => ({ kind: "asteroid", body })),
+    ...map.blackHoles.map((body): MapBody => ({ kind: "blackhole", body })),
+  ];
+}
+
+// Number of players a map is for (its highest base owner)
+export function mapPlayerCount(map: GameMap): number {
+  return map.planets.reduce(
+    (count, planet) => Math.max(count, planet.player),
+    0,
+  );
+}
+
+// Validate parsed JSON and upgrade older versions to the current format
+export function parseMap(json: unknown): GameMap {
+  if (!json || typeof json !== "object") {
+    throw new Error("Map file is not a JSON object");
+  }
+
+  const map = json as GameMap;
+  if (typeof map.version !== "number") {
+    throw new Error("Map file has no version");
+  }
+  if (map.version > MAP_VERSION) {
+    throw new Error(
+      `Map version ${map.version} is newer than this game (${MAP_VERSION})`,
+    );
+  }
+  if (!(map.width > 0) || !(map.height > 0)) {
+    throw new Error("Map needs a positive width and height");
+  }
+  if (
+    !Array.isArray(map.planets) ||
+    !Array.isArray(map.asteroids) ||
+    !Array.isArray(map.blackHoles)
+  ) {
+    throw new Error("Map is missing planets, asteroids or black holes");
+  }
+  const playerCount = mapPlayerCount(map);
+  if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+    throw new Error(
+      `Map needs bases for ${MIN_PLAYERS}-${MAX_PLAYERS} players, not ${playerCount}`,
+    );
+  }
+  for (let player = 1; player <= playerCount; player++) {
+    if (!map.planets.some((planet) => planet.player === player)) {
+      throw new Error(`Map has no base planet for Player ${player}`);
+    }
+  }
+  for (const structure of map.structures ?? []) {
+    if (!isBuildingKind(structure.kind)) {
+      throw new Error(`Unknown structure kind "${structure.kind}"`);
+    }
+    if (!(structure.player >= 1 && structure.player <= playerCount)) {
+      throw new Error(
+        `${structure.kind} at (${structure.x}, ${structure.y}) belongs to Player ${structure.player}, who has no base`,
+      );
+    }
+  }
+
+  map.name = map.name || "Untitled map";
+  return map;
+}
+
+// Fetch and parse a map from a URL (e.g. /maps/duel.json)
+export async function fetchMap(url: string): Promise<GameMap> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load map ${url} (${response.status})`);
+  }
+  return parseMap(await response.json());
+}
+
+// Download a map as a .json file
+export function downloadMap(map: GameMap) {
+  const blob = new Blob([JSON.stringify(map, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${map.name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "map"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Ask the player for a map file and parse it
+export function pickMapFile(): Promise<GameMap> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error("No file selected"));
+        return;
+      }
+      try {
+        resolve(parseMap(JSON.parse(await file.text())));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    input.click();
+  });
+}
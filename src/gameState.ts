@@ -0,0 +1,1828 @@
+import {
+  TILE_SIZE,
+  ASTEROID_RADIUS,
+  BLACK_HOLE_RADIUS,
+  PLANET_RADIUS,
+  ASTEROID_ROTATION_MIN,
+  ASTEROID_ROTATION_MAX,
+  PLANET_ROTATION_MIN,
+  PLANET_ROTATION_MAX,
+  SPATIAL_HASH_CELL_SIZE,
+  PLANET_GRAVITY,
+  ASTEROID_GRAVITY,
+  BLACK_HOLE_GRAVITY,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+} from "./constants";
+import {
+  GameSprite,
+  Grid,
+  PlanetSprite,
+  ProjectileSprite,
+  Weapon,
+  createSprite,
+  createGrid,
+  isWeapon,
+} from "./sprite";
+import { GravityField, GravitySource, GravityWell } from "./gravity";
+import { Random } from "./random";
+import { stepBody } from "./trajectory";
+import { SpatialHash } from "./spatialHash";
+import { GameAction, RecordedAction } from "./actions";
+import {
+  BUILDINGS,
+  BuildingKind,
+  TRASH_REFUND,
+  BASE_ORE_INCOME,
+  buildingFor,
+} from "./buildings";
+import { EventBus, GameEvents } from "./events";
+import { MatchSettings, matchSettings } from "./matchSettings";
+import {
+  GameMap,
+  bodyGravity,
+  createBodySprite,
+  mapBodies,
+  mapPlayerCount,
+} from "./gameMap";
+
+// Outcome of a player action - reason explains why the action was rejected
+export type ActionResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+// How generateWorld() lays out bodies. The symmetric layouts generate Player 1's side
+// and copy every body (and so its gravity) to the mirror cell on Player 2's side:
+//   pointSymmetric   - rotated 180 degrees around the center, bases left and right
+//   mirrorHorizontal - flipped left to right, bases left and right
+//   mirrorVertical   - flipped top to bottom, bases at the top and bottom
+export type WorldLayout =
+  | "random"
+  | "pointSymmetric"
+  | "mirrorHorizontal"
+  | "mirrorVertical";
+
+export const WORLD_LAYOUTS: WorldLayout[] = [
+  "random",
+  "pointSymmetric",
+  "mirrorHorizontal",
+  "mirrorVertical",
+];
+
+export const WORLD_LAYOUT_NAMES: Record<WorldLayout, string> = {
+  random: "Random",
+  pointSymmetric: "Point symmetric",
+  mirrorHorizontal: "Mirrored left/right",
+  mirrorVertical: "Mirrored top/bottom",
+};
+
+export function isWorldLayout(layout: string): layout is WorldLayout {
+  return (WORLD_LAYOUTS as string[]).includes(layout);
+}
+
+// A collision that happened during step(), reported so the renderer can show effects
+export interface Impact {
+  x: number; // World position of the hit
+  y: number;
+  scale: number; // Explosion scale
+  target: GameSprite; // Sprite that was hit
+  damage: number; // Damage dealt (0 when the hit was absorbed)
+  destroyed: boolean; // True if the target was removed from the grid
+}
+
+/**
+ * Headless game model: grid, buildings, projectiles, resources and turn state.
+ * Contains all game rules and no rendering, so matches can be simulated
+ * without a canvas. The Engine renders a GameState and forwards input to it.
+ */
+export class GameState {
+  readonly width: number;
+  readonly height: number;
+  grid: Grid;
+
+  // Planets for tracking
+  planets: PlanetSprite[] = [];
+
+  // Active projectiles (not in grid)
+  projectiles: ProjectileSprite[] = [];
+
+  // Pull of every body on the map
+  gravity: GravityField;
+
+  // Registry of every sprite on the grid, so updates don't have to scan every cell
+  private entities: Set<GameSprite> = new Set();
+
+  // Broad-phase index of immutable sprites for collision queries
+  private collisionIndex: SpatialHash<GameSprite> = new SpatialHash(
+    SPATIAL_HASH_CELL_SIZE,
+  );
+
+  // Players are numbered 1 to playerCount, and take turns in that order
+  readonly playerCount: number;
+  readonly settings: MatchSettings;
+  currentPlayer = 1;
+  round = 1; // Goes up each time play comes back round to the first player
+  winner: string | null = null; // "Player 2", "Team 1" or "Draw" once the match is over
+
+  // Physics steps run so far, and every successful action (for replays)
+  stepCount = 0;
+  actionLog: RecordedAction[] = [];
+
+  // Resource systems, indexed by player (index 0 is unused)
+  playerOre: number[]; // Ore for building - reduced to encourage building mines
+  playerEnergy: number[]; // Current energy - reduced to encourage building solar panels
+  playerMaxEnergy: number[]; // Max energy capacity
+  playerMineCount: number[]; // Number of mines owned by each player
+  playerSolarCount: number[]; // Number of solar panels owned by each player
+
+  // Base planet of each player (null once destroyed - that player is out)
+  bases: (PlanetSprite | null)[];
+  shieldRadius: number = 0; // Shield radius for placement restriction
+
+  // Seeded randomness for world generation and gameplay rolls
+  rng: Random;
+
+  // Hand-authored map this match was built from (null for generated worlds)
+  map: GameMap | null = null;
+
+  // How the world was generated (ignored when it came from a map)
+  layout: WorldLayout = "random";
+
+  // Damage, destruction, turn and economy events for UI, audio, stats and AI
+  readonly events: EventBus<GameEvents> = new EventBus();
+
+  constructor(
+    width: number,
+    height: number,
+    seed?: number,
+    playerCount = 2,
+    settings: Partial<MatchSettings> = {},
+  ) {
+    if (
+      !Number.isInteger(playerCount) ||
+      playerCount < MIN_PLAYERS ||
+      playerCount > MAX_PLAYERS
+    ) {
+      throw new Error(
+        `A match needs ${MIN_PLAYERS}-${MAX_PLAYERS} players, not ${playerCount}`,
+      );
+    }
+    this.settings = matchSettings(settings);
+    if (this.settings.teams && playerCount !== 4) {
+      throw new Error(
+        `Team matches are 2v2 and need four players, not ${playerCount}`,
+      );
+    }
+    this.width = width;
+    this.height = height;
+    this.playerCount = playerCount;
+    const perPlayer = (value: number) => [
+      0,
+      ...Array<number>(playerCount).fill(value),
+    ];
+    this.playerOre = perPlayer(this.settings.startingOre);
+    this.playerEnergy = perPlayer(this.settings.startingEnergy);
+    this.playerMaxEnergy = perPlayer(this.settings.startingEnergy);
+    this.playerMineCount = perPlayer(0);
+    this.playerSolarCount = perPlayer(0);
+    this.bases = Array<PlanetSprite | null>(playerCount + 1).fill(null);
+    this.grid = createGrid(width, height);
+    this.gravity = new GravityField(width, height);
+    this.rng = new Random(seed);
+  }
+
+  get seed(): number {
+    return this.rng.seed;
+  }
+
+  get gameOver(): boolean {
+    return this.winner !== null;
+  }
+
+  // No shots or launched sprites still in flight
+  get settled(): boolean {
+    if (this.projectiles.length > 0) return false;
+    let moving = false;
+    this.forEachSprite((sprite) => {
+      if (sprite.vx !== 0 || sprite.vy !== 0) moving = true;
+    });
+    return !moving;
+  }
+
+  // Generate asteroids, black holes and a base planet for every player
+  generateWorld(layout: WorldLayout = "random") {
+    // Mirroring only splits the map in two
+    if (layout !== "random" && this.playerCount > 2) {
+      console.warn(
+        `${WORLD_LAYOUT_NAMES[layout]} layouts are for two players - generating a random world instead`,
+      );
+      layout = "random";
+    }
+    console.log(
+      `Generating ${WORLD_LAYOUT_NAMES[layout].toLowerCase()} world with seed ${this.seed}`,
+    );
+    this.layout = layout;
+    if (layout !== "random") {
+      this.generateSymmetricWorld(layout);
+      return;
+    }
+
+    // Shield radius is 2x the planet radius (expanded from 1.4x)
+    this.shieldRadius = Math.round(PLANET_RADIUS * 2.0);
+
+    // Generate planets FIRST (so asteroids can avoid them)
+    const sharedRotationSpeed =
+      (this.rng.next() * (PLANET_ROTATION_MAX - PLANET_ROTATION_MIN) +
+        PLANET_ROTATION_MIN) *
+      (this.rng.next() < 0.5 ? 1 : -1);
+
+    if (this.playerCount > 2) {
+      this.generateRingBases(sharedRotationSpeed);
+    } else {
+      this.generateDuelBases(sharedRotationSpeed);
+    }
+    this.requireBases("Generated world");
+
+    // Generate asteroids (avoiding planet shields)
+    let placed = 0;
+    let attempts = 0;
+    const maxAttempts = this.settings.asteroidCount * 10;
+
+    while (placed < this.settings.asteroidCount && attempts < maxAttempts) {
+      attempts++;
+      const x = Math.floor(this.rng.next() * this.width);
+      const y = Math.floor(this.rng.next() * this.height);
+
+      if (
+        !this.isNearPlanetShield(x, y, ASTEROID_RADIUS) &&
+        this.canPlaceInRadius(x, y, ASTEROID_RADIUS)
+      ) {
+        const rotationSpeed =
+          (this.rng.next() * (ASTEROID_ROTATION_MAX - ASTEROID_ROTATION_MIN) +
+            ASTEROID_ROTATION_MIN) *
+          (this.rng.next() < 0.5 ? 1 : -1);
+
+        // Random scale between 0.5 and 1.5
+        const randomScale = 0.5 + this.rng.next();
+
+        const asteroid = createSprite("asteroid", {
+          rotationSpeed,
+          scale: randomScale,
+        });
+
+        // Create stronger gravity field for asteroid to affect projectiles more
+        // (only if it fit - a scaled-up asteroid can be bigger than the space checked for it)
+        if (this.placeSprite(x, y, asteroid)) {
+          this.addGravityWell(
+            x,
+            y,
+            ASTEROID_GRAVITY.radius,
+            ASTEROID_GRAVITY.strength,
+          );
+        }
+
+        placed++;
+      }
+    }
+    console.log(
+      `Placed ${placed} asteroids out of ${this.settings.asteroidCount} attempts`,
+    );
+
+    // Generate black holes as large obstacles in the middle zone between planets
+    let blackHolesPlaced = 0;
+    for (
+      let attempt = 0;
+      attempt < 100 && blackHolesPlaced < this.settings.blackHoleCount;
+      attempt++
+    ) {
+      // Bias black holes to spawn in the middle 60% of the map (20-80% from left edge)
+      const x = Math.floor(
+        this.width * 0.2 + this.rng.next() * (this.width * 0.6),
+      );
+      const y = Math.floor(this.rng.next() * this.height);
+
+      if (
+        !this.isNearPlanetShield(x, y, BLACK_HOLE_RADIUS) &&
+        this.canPlaceInRadius(x, y, BLACK_HOLE_RADIUS)
+      ) {
+        const rotationSpeed = this.rng.next() * 0.003 + 0.001; // Slow rotation
+        const blackHole = createSprite("blackhole", { rotationSpeed });
+
+        // Create stronger gravity field for black hole
+        if (this.placeSprite(x, y, blackHole)) {
+          this.addGravityWell(
+            x,
+            y,
+            BLACK_HOLE_GRAVITY.radius,
+            BLACK_HOLE_GRAVITY.strength,
+          );
+        }
+
+        blackHolesPlaced++;
+      }
+    }
+    console.log(
+      `Placed ${blackHolesPlaced} black holes out of ${this.settings.blackHoleCount} attempts`,
+    );
+  }
+
+  // Two players: one base near each side edge
+  private generateDuelBases(rotationSpeed: number) {
+    // Random starting rotations for visual variety
+    const planet1StartRotation = this.rng.next() * Math.PI * 2;
+    const planet2StartRotation = this.rng.next() * Math.PI * 2;
+
+    // Planet 1 (left side - close to edge, not in leftmost third)
+    // Place in the range of 10-25% from left edge
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const x = Math.floor(
+        this.width * 0.1 + this.rng.next() * (this.width * 0.15),
+      );
+      const y = Math.floor(this.rng.next() * this.height);
+
+      if (this.canPlaceInRadius(x, y, PLANET_RADIUS)) {
+        const planet1 = createSprite("planet", {
+          rotationSpeed,
+          name: "Player 1 Base",
+          centerX: x,
+          centerY: y,
+          initialRotation: planet1StartRotation,
+        });
+
+        this.placeSprite(x, y, planet1);
+        this.claimBase(1, planet1 as PlanetSprite); // Store reference
+
+        // Create gravity field for planet
+        this.addGravityWell(
+          x,
+          y,
+          PLANET_GRAVITY.radius,
+          PLANET_GRAVITY.strength,
+        );
+
+        break;
+      }
+    }
+
+    // Planet 2 (right side - close to edge, mirror of planet 1)
+    // Place in the range of 75-90% from left edge
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const x = Math.floor(
+        this.width * 0.75 + this.rng.next() * (this.width * 0.15),
+      );
+      const y = Math.floor(this.rng.next() * this.height);
+
+      if (this.canPlaceInRadius(x, y, PLANET_RADIUS)) {
+        const planet2 = createSprite("planet", {
+          rotationSpeed,
+          name: "Player 2 Base",
+          centerX: x,
+          centerY: y,
+          initialRotation: planet2StartRotation,
+        });
+
+        this.placeSprite(x, y, planet2);
+        this.claimBase(2, planet2 as PlanetSprite); // Store reference
+
+        // Create gravity field for planet
+        this.addGravityWell(
+          x,
+          y,
+          PLANET_GRAVITY.radius,
+          PLANET_GRAVITY.strength,
+        );
+
+        break;
+      }
+    }
+  }
+
+  // Three or more players: bases spread evenly around an ellipse, at a random angle and with a little jitter.
+  // Teammates get neighbouring spots so each team holds one side of the map
+  private generateRingBases(rotationSpeed: number) {
+    const startAngle = this.rng.next() * Math.PI * 2;
+    const step = (Math.PI * 2) / this.playerCount;
+    const order = this.settings.teams
+      ? [1, 3, 2, 4]
+      : Array.from({ length: this.playerCount }, (_, i) => i + 1);
+
+    order.forEach((player, slot) => {
+      const startRotation = this.rng.next() * Math.PI * 2;
+
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const angle =
+          startAngle + slot * step + (this.rng.next() - 0.5) * step * 0.3;
+        const distance = 0.8 + this.rng.next() * 0.2; // Fraction of the way to the edge band
+        const x = Math.floor(
+          this.width / 2 + Math.cos(angle) * this.width * 0.35 * distance,
+        );
+        const y = Math.floor(
+          this.height / 2 + Math.sin(angle) * this.height * 0.35 * distance,
+        );
+
+        if (
+          this.canPlaceInRadius(x, y, PLANET_RADIUS) &&
+          !this.isNearPlanetShield(x, y, this.shieldRadius)
+        ) {
+          const planet = createSprite("planet", {
+            rotationSpeed,
+            name: `Player ${player} Base`,
+            centerX: x,
+            centerY: y,
+            initialRotation: startRotation,
+          }) as PlanetSprite;
+
+          this.placeSprite(x, y, planet);
+          this.claimBase(player, planet);
+          this.addGravityWell(
+            x,
+            y,
+            PLANET_GRAVITY.radius,
+            PLANET_GRAVITY.strength,
+          );
+          break;
+        }
+      }
+    });
+  }
+
+  // A player without a base would never be eliminated and would keep taking turns, so every player needs one
+  private requireBases(source: string) {
+    for (let player = 1; player <= this.playerCount; player++) {
+      if (!this.bases[player]) {
+        throw new Error(
+          `${source} has no base for Player ${player} (${this.width}x${this.height}, ${this.playerCount} players)`,
+        );
+      }
+    }
+  }
+
+  // Make a planet a player's base, with the match's base HP
+  private claimBase(player: number, planet: PlanetSprite) {
+    planet.health = planet.maxHealth = this.settings.baseHealth;
+    this.bases[player] = planet;
+  }
+
+  // Cell that mirrors (x, y) onto the other player's side of a symmetric layout
+  mirrorCell(
+    x: number,
+    y: number,
+    layout: WorldLayout = this.layout,
+  ): { x: number; y: number } {
+    if (layout === "mirrorVertical") {
+      return { x, y: this.height - 1 - y };
+    }
+    if (layout === "mirrorHorizontal") {
+      return { x: this.width - 1 - x, y };
+    }
+    return { x: this.width - 1 - x, y: this.height - 1 - y };
+  }
+
+  // Generate Player 1's side at random and mirror it for Player 2, so both start with the same
+  // bodies, gaps and gravity. Bodies come in pairs, so odd counts are rounded to the nearest pair
+  private generateSymmetricWorld(layout: WorldLayout) {
+    this.shieldRadius = Math.round(PLANET_RADIUS * 2.0);
+
+    // Bases sit along the axis that separates the players
+    const vertical = layout === "mirrorVertical";
+    const along = vertical ? this.height : this.width;
+    const across = vertical ? this.width : this.height;
+    const cell = (a: number, b: number) =>
+      vertical ? { x: b, y: a } : { x: a, y: b };
+
+    // A mirror image spins the other way (a 180 degree rotation doesn't)
+    const flipsSpin = layout !== "pointSymmetric";
+    const mirrorAngle = (angle: number) => {
+      if (layout === "pointSymmetric") return angle + Math.PI;
+      if (layout === "mirrorHorizontal") return Math.PI - angle;
+      return -angle;
+    };
+
+    const planetRotationSpeed =
+      (this.rng.next() * (PLANET_ROTATION_MAX - PLANET_ROTATION_MIN) +
+        PLANET_ROTATION_MIN) *
+      (this.rng.next() < 0.5 ? 1 : -1);
+    const planetStartRotation = this.rng.next() * Math.PI * 2;
+
+    // Player 1 in the 10-25% band, Player 2 at the mirror cell
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const { x, y } = cell(
+        Math.floor(along * 0.1 + this.rng.next() * (along * 0.15)),
+        Math.floor(this.rng.next() * across),
+      );
+      const mirror = this.mirrorCell(x, y, layout);
+
+      if (
+        this.canPlaceInRadius(x, y, PLANET_RADIUS) &&
+        this.canPlaceInRadius(mirror.x, mirror.y, PLANET_RADIUS)
+      ) {
+        const planet1 = createSprite("planet", {
+          rotationSpeed: planetRotationSpeed,
+          name: "Player 1 Base",
+          centerX: x,
+          centerY: y,
+          initialRotation: planetStartRotation,
+        }) as PlanetSprite;
+        const planet2 = createSprite("planet", {
+          rotationSpeed: flipsSpin ? -planetRotationSpeed : planetRotationSpeed,
+          name: "Player 2 Base",
+          centerX: mirror.x,
+          centerY: mirror.y,
+          initialRotation: mirrorAngle(planetStartRotation),
+        }) as PlanetSprite;
+
+        this.placeSprite(x, y, planet1);
+        this.placeSprite(mirror.x, mirror.y, planet2);
+        this.claimBase(1, planet1);
+        this.claimBase(2, planet2);
+        this.addGravityWell(
+          x,
+          y,
+          PLANET_GRAVITY.radius,
+          PLANET_GRAVITY.strength,
+        );
+        this.addGravityWell(
+          mirror.x,
+          mirror.y,
+          PLANET_GRAVITY.radius,
+          PLANET_GRAVITY.strength,
+        );
+        break;
+      }
+    }
+    this.requireBases("Generated world");
+
+    // Asteroids anywhere on Player 1's half
+    let asteroidPairs = 0;
+    const numAsteroidPairs = Math.round(this.settings.asteroidCount / 2);
+    for (
+      let attempt = 0;
+      attempt < this.settings.asteroidCount * 10 &&
+      asteroidPairs < numAsteroidPairs;
+      attempt++
+    ) {
+      const { x, y } = cell(
+        Math.floor(this.rng.next() * (along / 2)),
+        Math.floor(this.rng.next() * across),
+      );
+      const rotationSpeed =
+        (this.rng.next() * (ASTEROID_ROTATION_MAX - ASTEROID_ROTATION_MIN) +
+          ASTEROID_ROTATION_MIN) *
+        (this.rng.next() < 0.5 ? 1 : -1);
+      const scale = 0.5 + this.rng.next();
+
+      const placed = this.placeMirroredPair(
+        x,
+        y,
+        ASTEROID_RADIUS,
+        layout,
+        ASTEROID_GRAVITY,
+        (mirrored) =>
+          createSprite("asteroid", {
+            rotationSpeed:
+              mirrored && flipsSpin ? -rotationSpeed : rotationSpeed,
+            scale,
+          }),
+      );
+      if (placed) asteroidPairs++;
+    }
+    console.log(
+      `Placed ${asteroidPairs} mirrored asteroid pairs out of ${numAsteroidPairs}`,
+    );
+
+    // Black holes in the middle zone (20-50% of the way to the other base)
+    let blackHolePairs = 0;
+    const numBlackHolePairs = Math.round(this.settings.blackHoleCount / 2);
+    for (
+      let attempt = 0;
+      attempt < 100 && blackHolePairs < numBlackHolePairs;
+      attempt++
+    ) {
+      const { x, y } = cell(
+        Math.floor(along * 0.2 + this.rng.next() * (along * 0.3)),
+        Math.floor(this.rng.next() * across),
+      );
+      const rotationSpeed = this.rng.next() * 0.003 + 0.001;
+
+      const placed = this.placeMirroredPair(
+        x,
+        y,
+        BLACK_HOLE_RADIUS,
+        layout,
+        BLACK_HOLE_GRAVITY,
+        (mirrored) =>
+          createSprite("blackhole", {
+            rotationSpeed:
+              mirrored && flipsSpin ? -rotationSpeed : rotationSpeed,
+          }),
+      );
+      if (placed) blackHolePairs++;
+    }
+    console.log(
+      `Placed ${blackHolePairs} mirrored black hole pairs out of ${numBlackHolePairs}`,
+    );
+  }
+
+  // Place a body at (x, y) and its twin at the mirror cell, with the same gravity - both or neither
+  private placeMirroredPair(
+    x: number,
+    y: number,
+    radius: number,
+    layout: WorldLayout,
+    gravity: { radius: number; strength: number },
+    create: (mirrored: boolean) => GameSprite,
+  ): boolean {
+    const mirror = this.mirrorCell(x, y, layout);
+
+    // Too close to the mirror line - the twins would overlap each other
+    const dx = mirror.x - x;
+    const dy = mirror.y - y;
+    if (dx * dx + dy * dy <= (2 * radius + 1) * (2 * radius + 1)) return false;
+
+    for (const pos of [{ x, y }, mirror]) {
+      if (
+        this.isNearPlanetShield(pos.x, pos.y, radius) ||
+        !this.canPlaceInRadius(pos.x, pos.y, radius)
+      ) {
+        return false;
+      }
+    }
+
+    this.placeSprite(x, y, create(false));
+    this.placeSprite(mirror.x, mirror.y, create(true));
+    this.addGravityWell(x, y, gravity.radius, gravity.strength);
+    this.addGravityWell(mirror.x, mirror.y, gravity.radius, gravity.strength);
+    return true;
+  }
+
+  // Build the world from a hand-authored map instead of generating one.
+  // allowMissingBases is for the map editor, which shows maps while a base is picked up
+  loadMap(map: GameMap, allowMissingBases = false) {
+    console.log(`Loading map "${map.name}" (${map.width}x${map.height})`);
+    if (map.width !== this.width || map.height !== this.height) {
+      throw new Error(
+        `Map is ${map.width}x${map.height} but the game state is ${this.width}x${this.height}`,
+      );
+    }
+    if (mapPlayerCount(map) > this.playerCount) {
+      throw new Error(
+        `Map is for ${mapPlayerCount(map)} players but the match has ${this.playerCount}`,
+      );
+    }
+    this.map = map;
+    this.shieldRadius = map.shieldRadius ?? Math.round(PLANET_RADIUS * 2.0);
+
+    // Gravity comes only from the map
+    const wells: GravityWell[] = [];
+
+    for (const entry of mapBodies(map)) {
+      const { x, y } = entry.body;
+      const sprite = createBodySprite(entry);
+
+      if (!this.placeSprite(x, y, sprite)) {
+        if (entry.kind === "planet") {
+          throw new Error(
+            `Map: Player ${entry.body.player} base at (${x}, ${y}) overlaps something or is out of bounds`,
+          );
+        }
+        console.warn(
+          `Map: skipped ${sprite.name.toLowerCase()} at (${x}, ${y}) - cells occupied or out of bounds`,
+        );
+        continue;
+      }
+      if (entry.kind === "planet") {
+        this.claimBase(entry.body.player, sprite as PlanetSprite);
+      }
+      wells.push({ x, y, ...bodyGravity(entry) });
+    }
+    if (!allowMissingBases) this.requireBases(`Map "${map.name}"`);
+
+    // Pre-placed structures are free and don't have to be inside a shield
+    for (const structure of map.structures ?? []) {
+      const sprite = createSprite(structure.kind);
+      sprite.owner = structure.player;
+      const base = this.getPlayerBase(structure.player);
+      if (structure.kind === "domeShield" && base) {
+        sprite.rotation = this.tangentRotation(base, structure.x, structure.y);
+      }
+      if (structure.ammo !== undefined && isWeapon(sprite)) {
+        sprite.ammo = structure.ammo;
+      }
+
+      if (
+        !this.placeSprite(structure.x, structure.y, sprite, sprite.rotation)
+      ) {
+        console.warn(
+          `Map: skipped ${structure.kind} at (${structure.x}, ${structure.y}) - cells occupied or out of bounds`,
+        );
+        continue;
+      }
+      if (structure.kind === "mine") {
+        this.playerMineCount[structure.player]++;
+      } else if (structure.kind === "solarPanel") {
+        this.playerSolarCount[structure.player]++;
+      }
+      this.playerMaxEnergy[structure.player] +=
+        BUILDINGS[structure.kind].maxEnergyBonus ?? 0;
+      this.playerEnergy[structure.player] =
+        this.playerMaxEnergy[structure.player];
+    }
+
+    this.resetGravity(wells);
+  }
+
+  // Check if a body of the given radius at (x, y) would overlap any planet's shield
+  private isNearPlanetShield(x: number, y: number, radius: number): boolean {
+    for (const planet of this.planets) {
+      const dx = x - planet.centerX;
+      const dy = y - planet.centerY;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      // Add body radius to shield radius to ensure no overlap
+      if (distance < this.shieldRadius + radius) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Player actions
+
+  // Run a player/AI command and record it in the action log if it succeeded
+  execute(action: GameAction): ActionResult<GameSprite | number | null> {
+    if (action.player !== this.currentPlayer) {
+      return { ok: false, reason: `It's not Player ${action.player}'s turn` };
+    }
+    if (this.isEliminated(action.player) && action.type !== "endTurn") {
+      return {
+        ok: false,
+        reason: `Player ${action.player} has been eliminated`,
+      };
+    }
+
+    const result = this.applyAction(action);
+    if (result.ok) {
+      const recorded = { ...action, tick: this.stepCount };
+      this.actionLog.push(recorded);
+      this.events.emit("actionExecuted", { action: { ...recorded } });
+    }
+    return result;
+  }
+
+  private applyAction(
+    action: GameAction,
+  ): ActionResult<GameSprite | number | null> {
+    if (action.type === "placeBuilding") {
+      return this.placeBuilding(action.kind, action.gridX, action.gridY);
+    }
+
+    if (action.type === "placeBunny") {
+      const bunny = createSprite("bunny");
+      bunny.owner = action.player; // Credited with whatever it hits
+      if (!this.placeSprite(action.gridX, action.gridY, bunny)) {
+        return {
+          ok: false,
+          reason: "Cannot place bunny - cells occupied or out of bounds",
+        };
+      }
+      return { ok: true, value: bunny };
+    }
+
+    if (action.type === "endTurn") {
+      if (this.gameOver) {
+        return { ok: false, reason: "Game is over" };
+      }
+      this.endTurn();
+      return { ok: true, value: null };
+    }
+
+    // The remaining actions target an existing sprite
+    const sprite = this.getSpriteAt(action.gridX, action.gridY);
+    if (!sprite) {
+      return {
+        ok: false,
+        reason: `Nothing at (${action.gridX}, ${action.gridY})`,
+      };
+    }
+
+    if (action.type === "launch") {
+      if (!this.launch(sprite, action.vx, action.vy)) {
+        return { ok: false, reason: `Cannot launch ${sprite.name}` };
+      }
+      return { ok: true, value: sprite };
+    }
+
+    if (action.type === "trash") {
+      return this.trashBuilding(sprite);
+    }
+
+    return this.fire(sprite, action.vx, action.vy);
+  }
+
+  // Buy and place a building for the current player
+  placeBuilding(
+    kind: BuildingKind,
+    gridX: number,
+    gridY: number,
+  ): ActionResult<GameSprite> {
+    const cost = BUILDINGS[kind];
+    const player = this.currentPlayer;
+
+    if (this.gameOver) {
+      return { ok: false, reason: "Game is over" };
+    }
+    if (this.playerOre[player] < cost.ore) {
+      return { ok: false, reason: `Not enough ore to buy ${cost.label}!` };
+    }
+    if (this.playerEnergy[player] < cost.energy) {
+      return { ok: false, reason: `Not enough energy to build ${cost.label}!` };
+    }
+    if (!this.isWithinPlayerShield(gridX, gridY)) {
+      return {
+        ok: false,
+        reason: `Cannot place ${cost.label} - must be within your shield!`,
+      };
+    }
+
+    const sprite = createSprite(kind);
+    sprite.owner = player; // Set ownership
+
+    // Dome shields are rotated to be tangential to the player's planet
+    const playerBase = this.getPlayerBase(player);
+    if (kind === "domeShield" && playerBase) {
+      sprite.rotation = this.tangentRotation(playerBase, gridX, gridY);
+    }
+
+    if (!this.placeSprite(gridX, gridY, sprite, sprite.rotation)) {
+      return {
+        ok: false,
+        reason: `Cannot place ${cost.label} - cells occupied or out of bounds`,
+      };
+    }
+
+    this.playerOre[player] -= cost.ore;
+    this.playerEnergy[player] -= cost.energy;
+    if (kind === "mine") {
+      this.playerMineCount[player]++;
+    } else if (kind === "solarPanel") {
+      this.playerSolarCount[player]++;
+    }
+    this.playerMaxEnergy[player] += cost.maxEnergyBonus ?? 0;
+
+    console.log(`Placed ${cost.label} at grid (${gridX}, ${gridY})`);
+    this.events.emit("buildingPlaced", { sprite, player });
+    this.emitResources(player);
+    return { ok: true, value: sprite };
+  }
+
+  // Delete one of the current player's buildings for a partial refund
+  trashBuilding(sprite: GameSprite): ActionResult<number> {
+    if (this.gameOver) {
+      return { ok: false, reason: "Game is over" };
+    }
+    if (!this.isDeletable(sprite)) {
+      return { ok: false, reason: `Cannot delete ${sprite.name}` };
+    }
+
+    // Refund part of the ore it cost
+    const def = buildingFor(sprite);
+    const refund = def ? Math.floor(def.ore * TRASH_REFUND) : 0;
+
+    // Mine/solar counters are adjusted by removeSprite
+    this.removeSprite(sprite.gridX, sprite.gridY);
+    this.playerOre[this.currentPlayer] += refund;
+    this.emitResources(this.currentPlayer);
+
+    console.log(`Deleted ${sprite.name}, refunded ${refund} ore`);
+    return { ok: true, value: refund };
+  }
+
+  // Can only delete buildings owned by current player (turrets, mines, solar panels - not planets, asteroids, black holes)
+  isDeletable(sprite: GameSprite): boolean {
+    return (
+      sprite.owner === this.currentPlayer &&
+      (sprite.type === "Weapon" || sprite.type === "Resource")
+    );
+  }
+
+  // Fire a projectile from one of the current player's turrets
+  fire(
+    turret: GameSprite,
+    vx: number,
+    vy: number,
+  ): ActionResult<ProjectileSprite> {
+    if (this.gameOver) {
+      return { ok: false, reason: "Game is over" };
+    }
+    if (!isWeapon(turret)) {
+      return { ok: false, reason: `${turret.name} cannot fire` };
+    }
+    if (turret.owner !== this.currentPlayer) {
+      return { ok: false, reason: "Cannot fire enemy turret!" };
+    }
+    if (this.playerEnergy[this.currentPlayer] < turret.fireEnergy) {
+      return { ok: false, reason: "Not enough energy to fire!" };
+    }
+    if (turret.ammo <= 0) {
+      return { ok: false, reason: `${turret.name} has no ammo!` };
+    }
+
+    const projectile = this.spawnProjectile(turret, vx, vy);
+    this.playerEnergy[this.currentPlayer] -= turret.fireEnergy;
+
+    console.log(
+      `Turret fired projectile with velocity (${vx.toFixed(2)}, ${vy.toFixed(2)})`,
+    );
+    this.events.emit("projectileFired", {
+      projectile,
+      turret,
+      player: this.currentPlayer,
+    });
+    this.emitResources(this.currentPlayer);
+    return { ok: true, value: projectile };
+  }
+
+  // Create a projectile at the turret and use one ammo (no energy or ownership checks)
+  spawnProjectile(
+    turret: GameSprite & Weapon,
+    vx: number,
+    vy: number,
+  ): ProjectileSprite {
+    const projectile = new ProjectileSprite(turret);
+
+    // Position at turret location
+    projectile.x = turret.x;
+    projectile.y = turret.y;
+    projectile.prevX = projectile.x;
+    projectile.prevY = projectile.y;
+    projectile.vx = vx;
+    projectile.vy = vy;
+    projectile.ignoreGravityFrom = turret.ignoreGravityFrom;
+
+    this.projectiles.push(projectile);
+    turret.ammo--;
+
+    return projectile;
+  }
+
+  // Launch a movable grid sprite (bunnies) with the given velocity
+  launch(sprite: GameSprite, vx: number, vy: number): boolean {
+    if (sprite.immutable) return false;
+    sprite.vx = vx;
+    sprite.vy = vy;
+    console.log(
+      `Launched ${sprite.name} with velocity (${vx.toFixed(2)}, ${vy.toFixed(2)})`,
+    );
+    return true;
+  }
+
+  endTurn() {
+    if (this.gameOver) return;
+
+    // Pass the turn to the next player still in the game
+    const previousPlayer = this.currentPlayer;
+    this.currentPlayer = this.nextPlayer(previousPlayer);
+
+    // Back round to the first player still in - a new round (the match may have run out of them)
+    if (this.currentPlayer <= previousPlayer) {
+      this.round++;
+      if (this.settings.turnLimit > 0 && this.round > this.settings.turnLimit) {
+        this.endOnBaseHealth();
+        return;
+      }
+    }
+
+    // Reset energy to max capacity (based on solar panels)
+    this.playerEnergy[this.currentPlayer] =
+      this.playerMaxEnergy[this.currentPlayer];
+
+    // Add base ore income + ore from mines
+    const baseOreIncome = BASE_ORE_INCOME;
+    const orePerMine = this.settings.oreIncomePerMine;
+    const totalOreIncome =
+      baseOreIncome + this.playerMineCount[this.currentPlayer] * orePerMine;
+    this.playerOre[this.currentPlayer] += totalOreIncome;
+
+    // Refill ammo for all turrets owned by current player
+    this.forEachSprite((sprite) => {
+      if (sprite.owner === this.currentPlayer && isWeapon(sprite)) {
+        sprite.ammo = Math.min(
+          sprite.ammo + sprite.ammoRegenRate,
+          sprite.maxAmmo,
+        );
+      }
+    });
+
+    console.log(
+      `Player ${this.currentPlayer}'s turn - Energy: ${this.playerEnergy[this.currentPlayer]}/${this.playerMaxEnergy[this.currentPlayer]}, Ore gained: ${totalOreIncome} (${baseOreIncome} base + ${this.playerMineCount[this.currentPlayer] * orePerMine} from mines)`,
+    );
+    this.events.emit("turnEnded", {
+      previousPlayer,
+      currentPlayer: this.currentPlayer,
+    });
+    this.emitResources(this.currentPlayer);
+  }
+
+  // Player who goes after the given one, skipping eliminated players
+  nextPlayer(player: number): number {
+    for (let i = 1; i <= this.playerCount; i++) {
+      const next = ((player - 1 + i) % this.playerCount) + 1;
+      if (!this.isEliminated(next)) return next;
+    }
+    return player;
+  }
+
+  // Tell subscribers about a player's new ore/energy totals
+  private emitResources(player: number) {
+    this.events.emit("resourcesChanged", {
+      player,
+      ore: this.playerOre[player],
+      energy: this.playerEnergy[player],
+      maxEnergy: this.playerMaxEnergy[player],
+    });
+  }
+
+  // Simulation
+
+  // Advance the simulation by dt frames and return the collisions that occurred.
+  // The Engine always calls this with PHYSICS_STEP so results don't depend on frame rate
+  step(dt: number): Impact[] {
+    const impacts: Impact[] = [];
+    this.stepCount++;
+
+    // Collect first so sprites that move to a new cell aren't updated twice
+    const sprites: GameSprite[] = [];
+    this.forEachSprite((sprite) => sprites.push(sprite));
+
+    for (const sprite of sprites) {
+      // Skip sprites destroyed earlier in this step
+      if (sprite.gridX < 0) continue;
+
+      if (sprite.vx !== 0 || sprite.vy !== 0) {
+        this.stepMovingSprite(sprite, dt, impacts);
+      } else {
+        // Static sprites (no velocity) - don't apply gravity, just update
+        sprite.update(dt, 0, 0);
+      }
+    }
+
+    this.stepProjectiles(dt, impacts);
+
+    return impacts;
+  }
+
+  // Move a launched grid sprite and collide it with immutable objects
+  private stepMovingSprite(sprite: GameSprite, dt: number, impacts: Impact[]) {
+    sprite.prevX = sprite.x;
+    sprite.prevY = sprite.y;
+    const { hit, outOfBounds } = stepBody(this, sprite, dt, {
+      collision: "sprite",
+      ignore: sprite,
+    });
+
+    // Flew off the map - drop it from the grid
+    if (outOfBounds) {
+      this.clearCells(sprite);
+      this.unregister(sprite);
+      return;
+    }
+
+    if (hit) {
+      // Apply damage to the target (10000 damage from bunny - dev tool!)
+      // Skip damage for invulnerable sprites (black holes)
+      let damage = 0;
+      let destroyed = false;
+      if (!hit.invulnerable) {
+        damage = 10000;
+        destroyed = hit.takeDamage(damage);
+      }
+
+      // Remove the moving sprite (projectile)
+      this.clearCells(sprite);
+      this.unregister(sprite);
+
+      if (destroyed) {
+        this.removeSprite(hit.gridX, hit.gridY);
+        console.log(`${hit.name} destroyed!`);
+      }
+
+      this.reportImpact(
+        {
+          x: sprite.x,
+          y: sprite.y,
+          scale: 1.0,
+          target: hit,
+          damage,
+          destroyed,
+        },
+        sprite.owner,
+        impacts,
+      );
+      return;
+    }
+
+    // Update grid position if sprite has moved to a new cell
+    const currentGridX = Math.floor(sprite.x / TILE_SIZE);
+    const currentGridY = Math.floor(sprite.y / TILE_SIZE);
+    if (currentGridX !== sprite.gridX || currentGridY !== sprite.gridY) {
+      this.clearCells(sprite);
+
+      const newCells = this.getCellsInRadius(
+        currentGridX,
+        currentGridY,
+        sprite.radius,
+        sprite.shape,
+        sprite.width,
+        sprite.height,
+        sprite.rotation,
+      );
+      for (const newCell of newCells) {
+        if (this.inBounds(newCell.x, newCell.y)) {
+          const cell = this.grid[newCell.y][newCell.x];
+          cell.occupied = true;
+          cell.centerX = currentGridX;
+          cell.centerY = currentGridY;
+          // Only add sprite reference to the center cell
+          if (newCell.x === currentGridX && newCell.y === currentGridY) {
+            cell.sprite = sprite;
+          }
+        }
+      }
+      sprite.gridX = currentGridX;
+      sprite.gridY = currentGridY;
+    }
+  }
+
+  // Update projectiles that aren't in the grid
+  private stepProjectiles(dt: number, impacts: Impact[]) {
+    for (let i = this.projectiles.length - 1; i >= 0; i--) {
+      const projectile = this.projectiles[i];
+
+      // Update projectile physics
+      projectile.prevX = projectile.x;
+      projectile.prevY = projectile.y;
+      const { hit: hitSprite, outOfBounds } = stepBody(this, projectile, dt, {
+        collision: "projectile",
+        ignore: projectile.firingTurret,
+      });
+
+      // Remove if out of bounds
+      if (outOfBounds) {
+        this.projectiles.splice(i, 1);
+        continue;
+      }
+
+      // Empty space (or still inside the turret that fired us) - just keep moving
+      if (!hitSprite) {
+        continue;
+      }
+
+      this.projectiles.splice(i, 1);
+
+      // Invulnerable sprites (black holes) absorb the projectile without taking damage,
+      // and so do a teammate's base and buildings unless friendly fire is on
+      const target = this.playerOf(hitSprite);
+      const friendly =
+        !this.settings.friendlyFire &&
+        target !== projectile.owner &&
+        this.areAllies(target, projectile.owner);
+      if (hitSprite.invulnerable || friendly) {
+        console.log(
+          `COLLISION! Projectile absorbed by ${hitSprite.name} (${friendly ? "teammate" : "indestructible"})`,
+        );
+        this.reportImpact(
+          {
+            x: projectile.x,
+            y: projectile.y,
+            scale: 0.5,
+            target: hitSprite,
+            damage: 0,
+            destroyed: false,
+          },
+          projectile.owner,
+          impacts,
+        );
+        continue;
+      }
+
+      // Collision! Deal damage to the sprite we hit
+      const damage = projectile.damage;
+      hitSprite.health -= damage;
+      console.log(
+        `Projectile hit ${hitSprite.name} for ${damage} damage (${hitSprite.health} HP remaining)`,
+      );
+
+      // Check if sprite was destroyed
+      const destroyed = hitSprite.health <= 0;
+      if (destroyed) {
+        console.log(`${hitSprite.name} destroyed!`);
+        this.removeSprite(hitSprite.gridX, hitSprite.gridY);
+      }
+
+      this.reportImpact(
+        {
+          x: projectile.x,
+          y: projectile.y,
+          scale: 0.5,
+          target: hitSprite,
+          damage,
+          destroyed,
+        },
+        projectile.owner,
+        impacts,
+      );
+    }
+  }
+
+  // Record a hit for step()'s result and emit its events (attacker is the owning player)
+  private reportImpact(impact: Impact, attacker: number, impacts: Impact[]) {
+    impacts.push(impact);
+    this.events.emit("impact", impact);
+    if (impact.damage > 0) {
+      this.events.emit("spriteDamaged", {
+        sprite: impact.target,
+        damage: impact.damage,
+        attacker,
+      });
+    }
+    if (impact.destroyed) {
+      this.events.emit("spriteDestroyed", { sprite: impact.target, attacker });
+    }
+  }
+
+  // Sprite a projectile at this world position would hit (any occupied cell except `ignore`)
+  projectileHitAt(
+    worldX: number,
+    worldY: number,
+    ignore?: GameSprite | null,
+  ): GameSprite | null {
+    const gridX = Math.floor(worldX / TILE_SIZE);
+    const gridY = Math.floor(worldY / TILE_SIZE);
+    if (!this.inBounds(gridX, gridY)) return null;
+
+    const cell = this.grid[gridY][gridX];
+    if (!cell.occupied || !cell.sprite || cell.sprite === ignore) return null;
+    return cell.sprite;
+  }
+
+  // Immutable sprite whose radius contains this world position (collision for launched sprites)
+  spriteHitAt(
+    worldX: number,
+    worldY: number,
+    ignore?: GameSprite | null,
+  ): GameSprite | null {
+    for (const candidate of this.collisionIndex.query(worldX, worldY)) {
+      if (candidate === ignore) continue;
+
+      const dx = worldX - candidate.x;
+      const dy = worldY - candidate.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance < candidate.radius * TILE_SIZE) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  // Gravity acceleration at a world position, optionally without one body's pull
+  gravityAt(
+    worldX: number,
+    worldY: number,
+    ignore?: GravitySource,
+  ): { ax: number; ay: number } {
+    return this.gravity.accelerationAt(worldX, worldY, ignore);
+  }
+
+  // Grid helpers
+
+  inBounds(gridX: number, gridY: number): boolean {
+    return (
+      gridX >= 0 && gridX < this.width && gridY >= 0 && gridY < this.height
+    );
+  }
+
+  gridToWorld(gridX: number, gridY: number) {
+    return {
+      x: gridX * TILE_SIZE + TILE_SIZE / 2,
+      y: gridY * TILE_SIZE + TILE_SIZE / 2,
+    };
+  }
+
+  // Sprite occupying a cell (resolves multi-tile sprites to their center cell)
+  getSpriteAt(gridX: number, gridY: number): GameSprite | null {
+    if (!this.inBounds(gridX, gridY)) return null;
+    const cell = this.grid[gridY][gridX];
+    if (!cell.occupied) return null;
+    if (cell.sprite) return cell.sprite;
+    if (cell.centerX !== undefined && cell.centerY !== undefined) {
+      return this.grid[cell.centerY][cell.centerX].sprite;
+    }
+    return null;
+  }
+
+  // Visit every sprite on the grid once (in placement order)
+  forEachSprite(callback: (sprite: GameSprite) => void) {
+    for (const sprite of this.entities) {
+      callback(sprite);
+    }
+  }
+
+  // First sprite on the grid matching the predicate
+  findSprite(predicate: (sprite: GameSprite) => boolean): GameSprite | null {
+    for (const sprite of this.entities) {
+      if (predicate(sprite)) {
+        return sprite;
+      }
+    }
+    return null;
+  }
+
+  getPlayerBase(player: number): PlanetSprite | null {
+    return this.bases[player] ?? null;
+  }
+
+  // A player is out once their base has been destroyed
+  isEliminated(player: number): boolean {
+    return !this.bases[player];
+  }
+
+  // Side a player is on - their own in a free-for-all, players 1 and 3 vs 2 and 4 in a team match
+  teamOf(player: number): number {
+    return this.settings.teams ? ((player - 1) % 2) + 1 : player;
+  }
+
+  // Both players are on the same side (a player is their own ally)
+  areAllies(a: number, b: number): boolean {
+    return a > 0 && b > 0 && this.teamOf(a) === this.teamOf(b);
+  }
+
+  // Player a sprite belongs to - its owner, or whose base it is (0 for neutral bodies)
+  playerOf(sprite: GameSprite): number {
+    if (sprite.owner > 0) return sprite.owner;
+    return Math.max(0, this.bases.indexOf(sprite as PlanetSprite));
+  }
+
+  // Players whose base is still standing
+  get activePlayers(): number[] {
+    const players: number[] = [];
+    for (let player = 1; player <= this.playerCount; player++) {
+      if (!this.isEliminated(player)) players.push(player);
+    }
+    return players;
+  }
+
+  // Rotation that makes a building at (gridX, gridY) tangential to a planet
+  tangentRotation(planet: PlanetSprite, gridX: number, gridY: number): number {
+    const worldPos = this.gridToWorld(gridX, gridY);
+
+    // Calculate angle from building to planet center
+    const dx = worldPos.x - planet.x;
+    const dy = worldPos.y - planet.y;
+    const angleToCenter = Math.atan2(dy, dx);
+
+    // Add 90 degrees (PI/2) to make it tangent to the circle
+    return angleToCenter + Math.PI / 2;
+  }
+
+  // Helper to get all cells within a circular radius
+  getCellsInRadius(
+    centerX: number,
+    centerY: number,
+    radius: number,
+    shape: "circle" | "square" | "rectangle" = "circle",
+    width?: number,
+    height?: number,
+    rotation?: number,
+  ): { x: number; y: number }[] {
+    const cells: { x: number; y: number }[] = [];
+
+    if (shape === "rectangle" && width !== undefined && height !== undefined) {
+      // Rectangle mode with dome shape:
+      // For dome shields, create an arch pattern (wider at base, narrower at top)
+      const halfWidth = Math.floor(width / 2);
+      const halfHeight = Math.floor(height / 2);
+
+      // If rotation is provided, rotate the rectangle cells
+      if (rotation !== undefined && rotation !== 0) {
+        const usedCells = new Set<string>();
+        for (let dy = -halfHeight; dy < height - halfHeight; dy++) {
+          // Calculate dome narrowing - top row is narrower
+          const rowFromBottom = dy + halfHeight; // 0 = bottom, height-1 = top
+          const narrowing = (rowFromBottom / (height - 1)) * 2; // 0 at bottom, 2 at top
+          const effectiveHalfWidth = Math.max(
+            1,
+            halfWidth - Math.floor(narrowing),
+          );
+
+          for (
+            let dx = -effectiveHalfWidth;
+            dx < width - halfWidth - (halfWidth - effectiveHalfWidth);
+            dx++
+          ) {
+            // Rotate the offset around the origin
+            const rotatedX = dx * Math.cos(rotation) - dy * Math.sin(rotation);
+            const rotatedY = dx * Math.sin(rotation) + dy * Math.cos(rotation);
+
+            // Round to nearest grid cell
+            const cellX = centerX + Math.round(rotatedX);
+            const cellY = centerY + Math.round(rotatedY);
+
+            // Use a Set to avoid duplicate cells
+            const key = `${cellX},${cellY}`;
+            if (!usedCells.has(key)) {
+              cells.push({ x: cellX, y: cellY });
+              usedCells.add(key);
+            }
+          }
+        }
+      } else {
+        // No rotation - dome-shaped horizontal rectangle
+        for (let dy = -halfHeight; dy < height - halfHeight; dy++) {
+          // Calculate dome narrowing - top row is narrower
+          const rowFromBottom = dy + halfHeight; // 0 = bottom, height-1 = top
+          const narrowing = (rowFromBottom / (height - 1)) * 2; // 0 at bottom, 2 at top
+          const effectiveHalfWidth = Math.max(
+            1,
+            halfWidth - Math.floor(narrowing),
+          );
+
+          for (
+            let dx = -effectiveHalfWidth;
+            dx < width - halfWidth - (halfWidth - effectiveHalfWidth);
+            dx++
+          ) {
+            cells.push({ x: centerX + dx, y: centerY + dy });
+          }
+        }
+      }
+    } else if (shape === "square") {
+      // For square mode:
+      // radius 0 = 2x2 square starting at (centerX, centerY)
+      // radius 1 = 3x3 square centered on (centerX, centerY)
+      // radius 2 = 5x5 square centered on (centerX, centerY)
+      if (radius === 0) {
+        // 2x2 square: (x, y), (x+1, y), (x, y+1), (x+1, y+1)
+        for (let dy = 0; dy <= 1; dy++) {
+          for (let dx = 0; dx <= 1; dx++) {
+            cells.push({ x: centerX + dx, y: centerY + dy });
+          }
+        }
+      } else {
+        // NxN square centered on (centerX, centerY)
+        for (let dy = -radius; dy <= radius; dy++) {
+          for (let dx = -radius; dx <= radius; dx++) {
+            cells.push({ x: centerX + dx, y: centerY + dy });
+          }
+        }
+      }
+    } else {
+      // Circle shape (original behavior)
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (dx * dx + dy * dy <= radius * radius) {
+            cells.push({ x: centerX + dx, y: centerY + dy });
+          }
+        }
+      }
+    }
+
+    return cells;
+  }
+
+  // Check if all cells in radius are available
+  canPlaceInRadius(
+    centerX: number,
+    centerY: number,
+    radius: number,
+    shape: "circle" | "square" | "rectangle" = "circle",
+    width?: number,
+    height?: number,
+    rotation?: number,
+  ): boolean {
+    const cells = this.getCellsInRadius(
+      centerX,
+      centerY,
+      radius,
+      shape,
+      width,
+      height,
+      rotation,
+    );
+
+    for (const cell of cells) {
+      if (!this.inBounds(cell.x, cell.y)) {
+        return false;
+      }
+      if (this.grid[cell.y][cell.x].occupied) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Check if position is within current player's shield
+  isWithinPlayerShield(gridX: number, gridY: number): boolean {
+    return this.isPositionWithinShield(gridX, gridY, this.currentPlayer);
+  }
+
+  // Check if position is within a specific player's shield
+  isPositionWithinShield(
+    gridX: number,
+    gridY: number,
+    player: number,
+  ): boolean {
+    const playerBase = this.getPlayerBase(player);
+    if (!playerBase) return false;
+
+    const dx = gridX - playerBase.centerX;
+    const dy = gridY - playerBase.centerY;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    return distance <= this.shieldRadius;
+  }
+
+  // Place sprite with radius occupation
+  placeSprite(
+    gridX: number,
+    gridY: number,
+    sprite: GameSprite,
+    rotation?: number,
+  ): boolean {
+    if (
+      !this.canPlaceInRadius(
+        gridX,
+        gridY,
+        sprite.radius,
+        sprite.shape,
+        sprite.width,
+        sprite.height,
+        rotation,
+      )
+    ) {
+      return false;
+    }
+
+    // Occupy all cells in radius
+    const cells = this.getCellsInRadius(
+      gridX,
+      gridY,
+      sprite.radius,
+      sprite.shape,
+      sprite.width,
+      sprite.height,
+      rotation,
+    );
+    for (const cell of cells) {
+      this.grid[cell.y][cell.x].occupied = true;
+      this.grid[cell.y][cell.x].centerX = gridX;
+      this.grid[cell.y][cell.x].centerY = gridY;
+      this.grid[cell.y][cell.x].sprite = sprite; // Add sprite reference to ALL cells
+    }
+
+    // Position sprite
+    const worldPos = this.gridToWorld(gridX, gridY);
+    sprite.x = worldPos.x;
+    sprite.y = worldPos.y;
+    sprite.prevX = sprite.x;
+    sprite.prevY = sprite.y;
+    sprite.gridX = gridX;
+    sprite.gridY = gridY;
+    this.register(sprite);
+
+    // Track planets (their pull is added by whoever places them - world generation, maps or saves)
+    if (sprite instanceof PlanetSprite) {
+      this.planets.push(sprite);
+    }
+
+    return true;
+  }
+
+  // Add a body's pull to the gravity field
+  addGravityWell(x: number, y: number, radius: number, strength: number) {
+    this.gravity.add({ x, y, radius, strength });
+  }
+
+  // Replace all gravity with the given wells (used when loading a save)
+  resetGravity(wells: GravityWell[]) {
+    this.gravity.clear();
+    for (const well of wells) {
+      this.addGravityWell(well.x, well.y, well.radius, well.strength);
+    }
+  }
+
+  // Add a placed sprite to the registry (and the collision index if it's solid)
+  private register(sprite: GameSprite) {
+    this.entities.add(sprite);
+    if (sprite.immutable) {
+      this.collisionIndex.insert(
+        sprite,
+        sprite.x,
+        sprite.y,
+        sprite.radius * TILE_SIZE,
+      );
+    }
+  }
+
+  private unregister(sprite: GameSprite) {
+    this.entities.delete(sprite);
+    this.collisionIndex.remove(sprite);
+  }
+
+  // Clear the cells a sprite occupies without any gameplay side effects
+  private clearCells(sprite: GameSprite) {
+    if (sprite.gridX < 0) return;
+
+    const cells = this.getCellsInRadius(
+      sprite.gridX,
+      sprite.gridY,
+      sprite.radius,
+      sprite.shape,
+      sprite.width,
+      sprite.height,
+      sprite.rotation,
+    );
+    for (const cellPos of cells) {
+      if (!this.inBounds(cellPos.x, cellPos.y)) continue;
+      const cell = this.grid[cellPos.y][cellPos.x];
+      // Only clear if this cell belongs to the sprite
+      if (cell.centerX === sprite.gridX && cell.centerY === sprite.gridY) {
+        cell.occupied = false;
+        cell.sprite = null;
+        cell.centerX = undefined;
+        cell.centerY = undefined;
+      }
+    }
+    sprite.gridX = -1;
+    sprite.gridY = -1;
+  }
+
+  // Remove sprite from grid and apply the consequences of losing it
+  removeSprite(gridX: number, gridY: number): GameSprite | null {
+    const sprite = this.getSpriteAt(gridX, gridY);
+    if (!sprite) {
+      return null;
+    }
+
+    this.clearCells(sprite);
+    this.unregister(sprite);
+
+    // Remove from planets array if it's a planet
+    if (sprite instanceof PlanetSprite) {
+      const index = this.planets.indexOf(sprite);
+      if (index > -1) {
+        this.planets.splice(index, 1);
+      }
+
+      // A destroyed base knocks its player out - the last base standing wins
+      const player = this.bases.indexOf(sprite);
+      if (player > 0) {
+        this.eliminatePlayer(player);
+      }
+    }
+
+    // Decrement mine count if a mine was destroyed
+    if (sprite.name === "Mine" && sprite.owner > 0) {
+      this.playerMineCount[sprite.owner]--;
+      console.log(
+        `Player ${sprite.owner} lost a mine. Remaining: ${this.playerMineCount[sprite.owner]}`,
+      );
+    }
+
+    // Decrement solar panel count and max energy if a solar panel was destroyed
+    if (sprite.name === "Solar Panel" && sprite.owner > 0) {
+      this.playerSolarCount[sprite.owner]--;
+      this.playerMaxEnergy[sprite.owner] -=
+        BUILDINGS.solarPanel.maxEnergyBonus!;
+      // Also reduce current energy if it exceeds new max
+      if (
+        this.playerEnergy[sprite.owner] > this.playerMaxEnergy[sprite.owner]
+      ) {
+        this.playerEnergy[sprite.owner] = this.playerMaxEnergy[sprite.owner];
+      }
+      console.log(
+        `Player ${sprite.owner} lost a solar panel. Max energy: ${this.playerMaxEnergy[sprite.owner]}`,
+      );
+      this.emitResources(sprite.owner);
+    }
+
+    // Reward ore for destroying asteroids (scales with health/size)
+    if (sprite.type === "Debris") {
+      // Max health ranges from 250-750
+      // Ore reward: 100-300 based on size, with some randomness
+      const baseReward = Math.floor(sprite.maxHealth * 0.3); // 75-225
+      const randomBonus = Math.floor(this.rng.next() * 75); // 0-75
+      const oreReward = baseReward + randomBonus; // 75-300
+      this.playerOre[this.currentPlayer] += oreReward;
+      console.log(
+        `Player ${this.currentPlayer} destroyed asteroid (${sprite.maxHealth} HP) and gained ${oreReward} ore!`,
+      );
+      this.emitResources(this.currentPlayer);
+    }
+
+    return sprite;
+  }
+
+  // Move sprite from one position to another
+  moveSprite(fromX: number, fromY: number, toX: number, toY: number): boolean {
+    const fromCell = this.grid[fromY][fromX];
+    if (!fromCell.sprite) {
+      return false;
+    }
+
+    const sprite = fromCell.sprite;
+    const radius = sprite.radius;
+    const shape = sprite.shape;
+
+    // Check if we can place at destination (temporarily clear source cells for check)
+    const sourceCells = this.getCellsInRadius(fromX, fromY, radius, shape);
+    for (const cell of sourceCells) {
+      this.grid[cell.y][cell.x].occupied = false;
+    }
+
+    const canPlace = this.canPlaceInRadius(toX, toY, radius, shape);
+
+    // Restore source cells
+    for (const cell of sourceCells) {
+      this.grid[cell.y][cell.x].occupied = true;
+    }
+
+    if (!canPlace) {
+      return false;
+    }
+
+    // Remove from old position
+    for (const cell of sourceCells) {
+      this.grid[cell.y][cell.x].occupied = false;
+      this.grid[cell.y][cell.x].sprite = null;
+      this.grid[cell.y][cell.x].centerX = undefined;
+      this.grid[cell.y][cell.x].centerY = undefined;
+    }
+
+    // Place at new position
+    const destCells = this.getCellsInRadius(toX, toY, radius, shape);
+    for (const cell of destCells) {
+      this.grid[cell.y][cell.x].occupied = true;
+      this.grid[cell.y][cell.x].centerX = toX;
+      this.grid[cell.y][cell.x].centerY = toY;
+      if (cell.x === toX && cell.y === toY) {
+        this.grid[cell.y][cell.x].sprite = sprite;
+      }
+    }
+
+    // Update sprite position
+    const worldPos = this.gridToWorld(toX, toY);
+    sprite.x = worldPos.x;
+    sprite.y = worldPos.y;
+    sprite.prevX = sprite.x;
+    sprite.prevY = sprite.y;
+    sprite.gridX = toX;
+    sprite.gridY = toY;
+    this.register(sprite);
+
+    return true;
+  }
+
+  private eliminatePlayer(player: number) {
+    this.bases[player] = null;
+    console.log(`Player ${player} has been eliminated`);
+    this.events.emit("playerEliminated", { player });
+
+    // Teammates fight on until the whole team is out
+    const remaining = this.activePlayers;
+    const teams = new Set(remaining.map((active) => this.teamOf(active)));
+    if (teams.size === 1) {
+      this.endGame(
+        this.settings.teams
+          ? `Team ${this.teamOf(remaining[0])}`
+          : `Player ${remaining[0]}`,
+      );
+    }
+  }
+
+  // Out of rounds: the side whose bases have the most HP left wins
+  private endOnBaseHealth() {
+    const health = new Map<number, number>();
+    for (const player of this.activePlayers) {
+      const team = this.teamOf(player);
+      health.set(team, (health.get(team) ?? 0) + this.bases[player]!.health);
+    }
+
+    const ranked = [...health.entries()].sort((a, b) => b[1] - a[1]);
+    console.log(
+      `Turn limit of ${this.settings.turnLimit} rounds reached - base HP: ${ranked.map(([team, hp]) => `${team}: ${hp}`).join(", ")}`,
+    );
+    if (ranked.length > 1 && ranked[0][1] === ranked[1][1]) {
+      this.endGame("Draw");
+    } else {
+      this.endGame(
+        this.settings.teams ? `Team ${ranked[0][0]}` : `Player ${ranked[0][0]}`,
+      );
+    }
+  }
+
+  endGame(winnerName: string) {
+    if (this.gameOver) return; // Already ended
+    this.winner = winnerName;
+    console.log(winnerName === "Draw" ? "Draw!" : `${winnerName} wins!`);
+    this.events.emit("gameOver", { winner: winnerName });
+  }
+}
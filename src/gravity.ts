@@ -0,0 +1,110 @@
+import { TILE_SIZE } from "./constants";
+
+// A body's pull: centered on a cell, reaching radius tiles (kept so saved games can rebuild gravity)
+export interface GravityWell {
+  x: number; // Center cell
+  y: number;
+  radius: number; // In tiles
+  strength: number;
+}
+
+// Cell of a body whose pull a flying body doesn't feel (e.g. the planet it was launched from)
+export interface GravitySource {
+  x: number;
+  y: number;
+}
+
+// Wells are bucketed into square chunks of this many tiles so a sample only checks the wells nearby
+const CHUNK_TILES = 8;
+
+// Force law: strongest next to the body, falling off linearly to nothing at the edge of its radius.
+// distance is in tiles; returns the acceleration's magnitude (towards the well)
+export function wellForce(well: GravityWell, distance: number): number {
+  if (distance <= 0 || distance > well.radius) return 0;
+  return well.strength * (1 - distance / well.radius);
+}
+
+/**
+ * Gravity from every body on the map, sampled at exact world positions.
+ * Each well pulls from the middle of its cell, so a projectile's acceleration changes
+ * smoothly as it moves instead of jumping at tile boundaries.
+ */
+export class GravityField {
+  readonly width: number;
+  readonly height: number;
+  // Every well, in the order it was added (sums are always taken in this order so replays match)
+  wells: GravityWell[] = [];
+  private chunksX: number;
+  private chunks: number[][]; // Indexes into wells that reach each chunk
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.chunksX = Math.ceil(width / CHUNK_TILES);
+    this.chunks = Array.from(
+      { length: this.chunksX * Math.ceil(height / CHUNK_TILES) },
+      () => [],
+    );
+  }
+
+  add(well: GravityWell) {
+    const index = this.wells.length;
+    this.wells.push({ ...well });
+
+    const chunksY = this.chunks.length / this.chunksX;
+    const minX = Math.max(0, Math.floor((well.x - well.radius) / CHUNK_TILES));
+    const maxX = Math.min(
+      this.chunksX - 1,
+      Math.floor((well.x + 1 + well.radius) / CHUNK_TILES),
+    );
+    const minY = Math.max(0, Math.floor((well.y - well.radius) / CHUNK_TILES));
+    const maxY = Math.min(
+      chunksY - 1,
+      Math.floor((well.y + 1 + well.radius) / CHUNK_TILES),
+    );
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        this.chunks[cy * this.chunksX + cx].push(index);
+      }
+    }
+  }
+
+  clear() {
+    this.wells = [];
+    this.chunks.forEach((chunk) => (chunk.length = 0));
+  }
+
+  // Acceleration at a world position (nothing outside the map), skipping the wells of an ignored body
+  accelerationAt(
+    worldX: number,
+    worldY: number,
+    ignore?: GravitySource,
+  ): { ax: number; ay: number } {
+    const tileX = worldX / TILE_SIZE;
+    const tileY = worldY / TILE_SIZE;
+    if (tileX < 0 || tileY < 0 || tileX >= this.width || tileY >= this.height) {
+      return { ax: 0, ay: 0 };
+    }
+
+    let ax = 0;
+    let ay = 0;
+    const chunk =
+      this.chunks[
+        Math.floor(tileY / CHUNK_TILES) * this.chunksX +
+          Math.floor(tileX / CHUNK_TILES)
+      ];
+    for (const index of chunk) {
+      const well = this.wells[index];
+      if (ignore && well.x === ignore.x && well.y === ignore.y) continue;
+      const dx = well.x + 0.5 - tileX;
+      const dy = well.y + 0.5 - tileY;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const force = wellForce(well, distance);
+      if (force === 0) continue;
+
+      ax += (dx / distance) * force;
+      ay += (dy / distance) * force;
+    }
+    return { ax, ay };
+  }
+}
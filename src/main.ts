@@ -1,5 +1,12 @@
 import { Application, Assets } from "pixi.js";
 import { Engine } from "./engine";
+import { parseSeed } from "./random";
+import { fetchMap } from "./gameMap";
+import { WorldLayout, isWorldLayout } from "./gameState";
+import { RELAY_PORT } from "./online";
+import { TURN_LINK_PREFIX, parseTurnLink } from "./turnFile";
+import { MIN_PLAYERS, MAX_PLAYERS } from "./constants";
+import { MatchSettings } from "./matchSettings";
 
 (async () => {
   // Create PixiJS application
@@ -28,19 +35,113 @@ import { Engine } from "./engine";
   const oreIconTexture = await Assets.load("/assets/ore.png");
   const energyIconTexture = await Assets.load("/assets/energy.png");
 
+  // Optional world seed from the URL (e.g. ?seed=12345) to replay a map
+  const seedParam = new URLSearchParams(window.location.search).get("seed");
+  const seed = seedParam ? parseSeed(seedParam) : undefined;
+
+  // Optional symmetric layout for fair competitive worlds (e.g. ?layout=pointSymmetric)
+  const layoutParam = new URLSearchParams(window.location.search).get("layout");
+  let layout: WorldLayout = "random";
+  if (layoutParam && isWorldLayout(layoutParam)) {
+    layout = layoutParam;
+  } else if (layoutParam) {
+    console.warn(`Unknown layout "${layoutParam}", using a random world`);
+  }
+
+  // Optional free-for-all for up to four players (e.g. ?players=4). Online matches are always two players
+  const playersParam = new URLSearchParams(window.location.search).get(
+    "players",
+  );
+  let playerCount = 2;
+  if (playersParam) {
+    const count = Number(playersParam);
+    if (
+      !Number.isInteger(count) ||
+      count < MIN_PLAYERS ||
+      count > MAX_PLAYERS
+    ) {
+      console.warn(`Unsupported player count "${playersParam}", using 2`);
+    } else if (new URLSearchParams(window.location.search).has("online")) {
+      console.warn("Online matches are two-player, ignoring ?players");
+    } else {
+      playerCount = count;
+    }
+  }
+
+  // ?teams plays 2v2 (Players 1 and 3 against 2 and 4), ?friendlyFire lets shots hurt teammates
+  const settings: Partial<MatchSettings> = {};
+  if (new URLSearchParams(window.location.search).has("teams")) {
+    if (new URLSearchParams(window.location.search).has("online")) {
+      console.warn("Online matches are two-player, ignoring ?teams");
+    } else {
+      playerCount = 4;
+      settings.teams = true;
+      settings.friendlyFire = new URLSearchParams(window.location.search).has(
+        "friendlyFire",
+      );
+    }
+  }
+
   // Create game engine
-  const engine = new Engine(app);
+  const engine = new Engine(app, seed);
 
-  // Generate world (asteroids, black holes, and planets with shields)
-  engine.generateWorld(asteroidTexture, planetTexture, shieldTexture, blackHoleTexture);
+  // Textures used to draw game sprites
+  engine.setTextures({
+    bunny: bunnyTexture,
+    turret: turretTexture,
+    laserTurret: laserTurretTexture,
+    mine: mineTexture,
+    solarPanel: solarPanelTexture,
+    domeShield: domeShieldTexture,
+    asteroid: asteroidTexture,
+    blackHole: blackHoleTexture,
+    planet: planetTexture,
+    shield: shieldTexture,
+    missile: missileTexture,
+    laser: laserTexture,
+  });
+
+  // Load a hand-authored map from the URL (e.g. ?map=duel loads /maps/duel.json),
+  // otherwise generate the world (asteroids, black holes, and planets with shields)
+  const mapParam = new URLSearchParams(window.location.search).get("map");
+  let mapLoaded = false;
+  if (mapParam) {
+    try {
+      engine.loadMap(await fetchMap(`/maps/${mapParam}.json`), settings);
+      mapLoaded = true;
+    } catch (err) {
+      console.error("Could not load map, generating one instead:", err);
+    }
+  }
+  if (!mapLoaded) {
+    engine.generateWorld(layout, playerCount, settings);
+  }
 
   // Initialize UI
-  engine.initToolbar(bunnyTexture, turretTexture, laserTurretTexture, mineTexture, solarPanelTexture, domeShieldTexture, missileTexture, laserTexture, oreIconTexture, energyIconTexture);
+  engine.initToolbar(oreIconTexture, energyIconTexture);
   engine.initTooltip();
   engine.setExplosionTexture(explosionTexture);
 
   // Start the game loop and event handlers
   engine.start();
 
+  // ?online=room joins an online match through the relay (npm run relay), ?relay= points at another relay
+  const onlineRoom = new URLSearchParams(window.location.search).get("online");
+  if (onlineRoom !== null) {
+    const relayUrl =
+      new URLSearchParams(window.location.search).get("relay") ??
+      `ws://${window.location.hostname}:${RELAY_PORT}`;
+    engine.startOnline(relayUrl, onlineRoom || "lobby");
+  }
+
+  // A play-by-file turn link (#turn=...) opens straight into the opponent's turn
+  if (window.location.hash.startsWith(TURN_LINK_PREFIX)) {
+    try {
+      engine.importTurn(await parseTurnLink(window.location.hash));
+    } catch (err) {
+      console.error("Could not open the turn link:", err);
+    }
+  }
+
   console.log("Game initialized!");
 })();
@@ -0,0 +1,293 @@
+import { ActionResult, GameState } from "./gameState";
+import { GameSprite } from "./sprite";
+import { MIN_PLAYERS } from "./constants";
+import {
+  GameMap,
+  MapBody,
+  MapGravity,
+  MAP_VERSION,
+  bodyGravity,
+  createBodySprite,
+  mapBodies,
+  mapPlayerCount,
+  parseMap,
+} from "./gameMap";
+
+// Bodies that can be dragged from the editor toolbar
+export type EditorTool =
+  | "base1"
+  | "base2"
+  | "base3"
+  | "base4"
+  | "asteroid"
+  | "blackhole";
+
+export const EDITOR_TOOLS: EditorTool[] = [
+  "base1",
+  "base2",
+  "base3",
+  "base4",
+  "asteroid",
+  "blackhole",
+];
+
+// Limits and step sizes for the editor's size and gravity controls
+export const EDITOR_SCALE = { min: 0.5, max: 1.5, step: 0.1 };
+export const EDITOR_GRAVITY_RADIUS = { min: 5, max: 80, step: 5 };
+export const EDITOR_GRAVITY_STRENGTH = { min: 0.05, max: 2, step: 0.05 };
+
+// Starting point for a new map: just the two bases in their usual bands
+export function blankMap(width: number, height: number): GameMap {
+  return {
+    version: MAP_VERSION,
+    name: "Untitled map",
+    width,
+    height,
+    planets: [
+      { player: 1, x: Math.round(width * 0.15), y: Math.round(height / 2) },
+      { player: 2, x: Math.round(width * 0.85), y: Math.round(height / 2) },
+    ],
+    asteroids: [],
+    blackHoles: [],
+  };
+}
+
+// A body of the tool's kind that isn't on the map yet
+export function newBody(tool: EditorTool, x: number, y: number): MapBody {
+  if (tool.startsWith("base")) {
+    return {
+      kind: "planet",
+      body: { player: Number(tool.slice("base".length)), x, y },
+    };
+  }
+  if (tool === "asteroid") {
+    return { kind: "asteroid", body: { x, y, scale: 1 } };
+  }
+  return { kind: "blackhole", body: { x, y, scale: 1 } };
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.max(range.min, Math.min(range.max, value));
+}
+
+/**
+ * Headless map editing: a GameMap plus the GameState built from it.
+ * Bodies go down through GameState.placeSprite, so they follow the same
+ * overlap rules as buildings, and gravity is rebuilt from the map after every edit.
+ */
+export class MapEditor {
+  readonly map: GameMap;
+  state: GameState;
+  selected: MapBody | null = null;
+  // Players the map is for - kept while a base is picked up, so the state can still be built without it
+  private playerCount: number;
+
+  constructor(map: GameMap, seed?: number) {
+    // Edit a copy so the map we were given (e.g. one being played) never changes
+    this.map = JSON.parse(JSON.stringify(map));
+    this.playerCount = Math.max(MIN_PLAYERS, mapPlayerCount(this.map));
+    this.state = new GameState(
+      this.map.width,
+      this.map.height,
+      seed,
+      this.playerCount,
+    );
+    this.state.loadMap(this.map, true);
+  }
+
+  // Body whose sprite covers a cell
+  bodyAt(gridX: number, gridY: number): MapBody | null {
+    const sprite = this.state.getSpriteAt(gridX, gridY);
+    if (!sprite) return null;
+
+    const found = mapBodies(this.map).find(
+      (entry) =>
+        entry.kind === sprite.kind &&
+        entry.body.x === sprite.gridX &&
+        entry.body.y === sprite.gridY,
+    );
+    return found ?? null;
+  }
+
+  // Sprite currently standing in for a body
+  spriteFor(entry: MapBody): GameSprite | null {
+    return this.state.getSpriteAt(entry.body.x, entry.body.y);
+  }
+
+  isSelected(entry: MapBody): boolean {
+    return this.selected !== null && this.selected.body === entry.body;
+  }
+
+  // Drop a new body from the toolbar. Each player has one base, so a new base replaces the old one
+  // (a base for a new player makes the map one for more players)
+  add(tool: EditorTool, x: number, y: number): ActionResult<MapBody> {
+    const entry = newBody(tool, x, y);
+    const playerCount = this.playerCount;
+    if (entry.kind === "planet" && entry.body.player > this.playerCount) {
+      this.playerCount = entry.body.player;
+      this.rebuild();
+    }
+    const oldBase =
+      entry.kind === "planet"
+        ? this.map.planets.find((planet) => planet.player === entry.body.player)
+        : undefined;
+    if (oldBase) {
+      this.pickUp({ kind: "planet", body: oldBase });
+    }
+
+    const result = this.place(entry, x, y);
+    if (!result.ok) {
+      if (oldBase)
+        this.place({ kind: "planet", body: oldBase }, oldBase.x, oldBase.y);
+      if (this.playerCount !== playerCount) {
+        this.playerCount = playerCount;
+        this.rebuild();
+      }
+      return result;
+    }
+
+    this.selected = entry;
+    return { ok: true, value: entry };
+  }
+
+  // Take a body off the map (while it's being dragged somewhere else)
+  pickUp(entry: MapBody) {
+    if (entry.kind === "planet") {
+      this.map.planets = this.map.planets.filter((body) => body !== entry.body);
+    } else if (entry.kind === "asteroid") {
+      this.map.asteroids = this.map.asteroids.filter(
+        (body) => body !== entry.body,
+      );
+    } else {
+      this.map.blackHoles = this.map.blackHoles.filter(
+        (body) => body !== entry.body,
+      );
+    }
+    this.rebuild();
+  }
+
+  // Put a picked-up body down at (x, y), or back where it was if it doesn't fit there
+  drop(entry: MapBody, x: number, y: number): ActionResult<GameSprite> {
+    const result = this.place(entry, x, y);
+    if (!result.ok) {
+      this.place(entry, entry.body.x, entry.body.y);
+    }
+    this.selected = entry;
+    return result;
+  }
+
+  // Grow or shrink an asteroid or black hole (it has to fit at its new size)
+  resize(entry: MapBody, delta: number): ActionResult<number> {
+    if (entry.kind === "planet") {
+      return { ok: false, reason: "Bases are a fixed size" };
+    }
+
+    const oldScale = entry.body.scale ?? 1;
+    const scale = Math.round(clamp(oldScale + delta, EDITOR_SCALE) * 10) / 10;
+    if (scale === oldScale) {
+      return {
+        ok: false,
+        reason: `Size is already at its ${delta > 0 ? "maximum" : "minimum"}`,
+      };
+    }
+
+    this.pickUp(entry);
+    entry.body.scale = scale;
+    const result = this.place(entry, entry.body.x, entry.body.y);
+    if (!result.ok) {
+      entry.body.scale = oldScale;
+      this.place(entry, entry.body.x, entry.body.y);
+      return { ok: false, reason: "Not enough room to grow here" };
+    }
+    return { ok: true, value: scale };
+  }
+
+  // Change how far and how hard a body pulls (clamped to the editor's limits)
+  setGravity(entry: MapBody, gravity: MapGravity) {
+    entry.body.gravity = {
+      radius: Math.round(clamp(gravity.radius, EDITOR_GRAVITY_RADIUS)),
+      strength:
+        Math.round(clamp(gravity.strength, EDITOR_GRAVITY_STRENGTH) * 100) /
+        100,
+    };
+    this.updateGravity();
+  }
+
+  // Delete a body. Bases can only be moved - every player needs one - except the last player's
+  // on a map for more than two players, which makes it a map for one player fewer
+  remove(entry: MapBody): ActionResult<null> {
+    if (
+      entry.kind === "planet" &&
+      (entry.body.player !== this.playerCount ||
+        this.playerCount <= MIN_PLAYERS)
+    ) {
+      return { ok: false, reason: "Every player needs a base" };
+    }
+    if (entry.kind === "planet") {
+      this.playerCount--;
+    }
+    this.pickUp(entry);
+    if (this.isSelected(entry)) {
+      this.selected = null;
+    }
+    return { ok: true, value: null };
+  }
+
+  // Validated copy of the map, safe to save or play while editing continues
+  exportMap(): GameMap {
+    return parseMap(JSON.parse(JSON.stringify(this.map)));
+  }
+
+  // Place a body's sprite and add it to the map
+  private place(
+    entry: MapBody,
+    x: number,
+    y: number,
+  ): ActionResult<GameSprite> {
+    const sprite = createBodySprite({
+      ...entry,
+      body: { ...entry.body, x, y },
+    } as MapBody);
+    if (!this.state.placeSprite(x, y, sprite)) {
+      return {
+        ok: false,
+        reason: `${sprite.name} doesn't fit at (${x}, ${y})`,
+      };
+    }
+
+    entry.body.x = x;
+    entry.body.y = y;
+    if (entry.kind === "planet") {
+      this.map.planets.push(entry.body);
+    } else if (entry.kind === "asteroid") {
+      this.map.asteroids.push(entry.body);
+    } else {
+      this.map.blackHoles.push(entry.body);
+    }
+    this.updateGravity();
+    return { ok: true, value: sprite };
+  }
+
+  // Replace the grid's gravity with the fields of every body on the map
+  private updateGravity() {
+    this.state.resetGravity(
+      mapBodies(this.map).map((entry) => ({
+        x: entry.body.x,
+        y: entry.body.y,
+        ...bodyGravity(entry),
+      })),
+    );
+  }
+
+  // Start again from the map (removing a sprite cleanly is easier this way)
+  private rebuild() {
+    const state = new GameState(
+      this.map.width,
+      this.map.height,
+      this.state.seed,
+      this.playerCount,
+    );
+    state.loadMap(this.map, true);
+    this.state = state;
+  }
+}
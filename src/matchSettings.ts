@@ -0,0 +1,66 @@
+import { NUM_ASTEROIDS, NUM_BLACK_HOLES, PLANET_HEALTH } from "./constants";
+import { BUILDINGS } from "./buildings";
+
+/**
+ * Rules a match is played with. They are chosen before the match starts and then never change,
+ * so they are stored with it (saves, replays, turn files and online matches).
+ */
+export interface MatchSettings {
+  teams: boolean; // 2v2 - Players 1 and 3 against Players 2 and 4 (needs four players)
+  friendlyFire: boolean; // Team matches: whether shots damage a teammate's base and buildings
+  asteroidCount: number; // Generated worlds only (maps bring their own bodies)
+  blackHoleCount: number;
+  startingOre: number;
+  startingEnergy: number; // Also each player's starting max energy
+  baseHealth: number;
+  oreIncomePerMine: number;
+  turnLimit: number; // Rounds (every player has a turn) before the healthiest side wins, 0 = no limit
+}
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  teams: false,
+  friendlyFire: false,
+  asteroidCount: NUM_ASTEROIDS,
+  blackHoleCount: NUM_BLACK_HOLES,
+  startingOre: 200,
+  startingEnergy: 50,
+  baseHealth: PLANET_HEALTH,
+  oreIncomePerMine: BUILDINGS.mine.oreIncome!,
+  turnLimit: 0,
+};
+
+export type NumericSetting = {
+  [K in keyof MatchSettings]: MatchSettings[K] extends number ? K : never;
+}[keyof MatchSettings];
+
+// What the setup screen lets each number be set to
+export const SETTING_RANGES: Record<
+  NumericSetting,
+  { min: number; max: number; step: number }
+> = {
+  asteroidCount: { min: 0, max: 150, step: 10 },
+  blackHoleCount: { min: 0, max: 8, step: 1 },
+  startingOre: { min: 0, max: 1000, step: 50 },
+  startingEnergy: { min: 10, max: 200, step: 10 },
+  baseHealth: { min: 200, max: 5000, step: 200 },
+  oreIncomePerMine: { min: 0, max: 300, step: 25 },
+  turnLimit: { min: 0, max: 100, step: 5 },
+};
+
+// Fill in anything left out (e.g. settings stored before a setting existed)
+export function matchSettings(
+  settings: Partial<MatchSettings> = {},
+): MatchSettings {
+  return { ...DEFAULT_MATCH_SETTINGS, ...settings };
+}
+
+// Whether parsed JSON holds a full set of settings of the right types (e.g. from a save file)
+export function isMatchSettings(value: unknown): value is MatchSettings {
+  if (!value || typeof value !== "object") return false;
+  const settings = value as Record<string, unknown>;
+  return (Object.keys(DEFAULT_MATCH_SETTINGS) as (keyof MatchSettings)[]).every(
+    (key) =>
+      typeof settings[key] === typeof DEFAULT_MATCH_SETTINGS[key] &&
+      (typeof settings[key] !== "number" || Number.isFinite(settings[key])),
+  );
+}
@@ -0,0 +1,178 @@
+import type { GameState } from "./gameState";
+import type { RecordedAction } from "./actions";
+import type { MatchRecord } from "./replay";
+import { SaveData, parseSave, serializeState } from "./saveGame";
+import { stateChecksum, formatChecksum } from "./checksum";
+
+// Port the relay listens on by default (see server/relay.mjs)
+export const RELAY_PORT = 8787;
+
+// Messages from the relay itself
+export type RelayMessage =
+  | { type: "waiting"; room: string }
+  | { type: "paired"; player: number } // 1 = host, 2 = guest
+  | { type: "peerLeft" }
+  | { type: "error"; reason: string };
+
+// Messages between the two players (the relay passes them through untouched)
+export type PeerMessage =
+  | { type: "start"; record: MatchRecord } // Host -> guest: the world to play on
+  | { type: "action"; action: RecordedAction }
+  | { type: "checksum"; checksum: number } // Host -> guest: hash of the settled state after a turn ends
+  | { type: "checksumReply"; checksum: number; match: boolean } // Guest -> host: its own hash once settled
+  | { type: "sync"; save: SaveData }; // Host -> guest: the host's state, after a mismatch
+
+export interface OnlineHandlers {
+  status: (text: string) => void;
+  paired: (player: number) => void;
+  start: (record: MatchRecord) => void;
+  action: (action: RecordedAction) => void;
+  sync: (save: SaveData) => void;
+  desync: (hostChecksum: number, localChecksum: number) => void;
+  closed: (reason: string) => void;
+}
+
+/**
+ * One player's connection to an online match.
+ * Both clients simulate the match from the same seed and send each other their actions.
+ * The host (Player 1) is authoritative: once a turn has ended and every shot has landed
+ * both sides hash their state. The guest compares its hash with the host's and, if they
+ * differ, replaces its state with the host's before anyone acts again.
+ */
+export class OnlineSession {
+  readonly room: string;
+  localPlayer = 0; // 0 until paired
+  // A turn ended and the next one hasn't been synced yet (nobody may act until it has)
+  awaitingSync = false;
+  private checksumSent = false; // Host: waiting for the guest's reply
+  private reply: { checksum: number; match: boolean } | null = null; // Host: the guest's reply
+  private hostChecksum: number | null = null; // Guest: the host's hash for the turn that just ended
+  private socket: WebSocket;
+  private handlers: OnlineHandlers;
+  private closed = false;
+
+  constructor(url: string, room: string, handlers: OnlineHandlers) {
+    this.room = room;
+    this.handlers = handlers;
+    this.socket = new WebSocket(url);
+
+    handlers.status(`Connecting to ${url}...`);
+    this.socket.onopen = () => {
+      this.socket.send(JSON.stringify({ type: "join", room }));
+    };
+    this.socket.onmessage = (event) => {
+      try {
+        this.receive(JSON.parse(event.data));
+      } catch (err) {
+        console.error("Online: bad message from the relay:", err);
+      }
+    };
+    this.socket.onclose = () => this.finish("Connection to the relay was lost");
+    this.socket.onerror = () =>
+      this.finish(`Could not reach the relay at ${url}`);
+  }
+
+  get isHost(): boolean {
+    return this.localPlayer === 1;
+  }
+
+  // Whether the local player may act right now
+  isLocalTurn(state: GameState): boolean {
+    return state.currentPlayer === this.localPlayer && !this.awaitingSync;
+  }
+
+  send(message: PeerMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  // Hold everyone's input until the turn that just ended has been synced
+  turnEnded() {
+    this.awaitingSync = true;
+  }
+
+  // Called every frame to compare checksums once a turn's shots have landed.
+  // Returns true when the turn has been synced (the local player can act again)
+  update(state: GameState): boolean {
+    if (!this.awaitingSync || !state.settled) return false;
+    return this.isHost ? this.updateHost(state) : this.updateGuest(state);
+  }
+
+  private updateHost(state: GameState): boolean {
+    if (!this.checksumSent) {
+      this.send({ type: "checksum", checksum: stateChecksum(state) });
+      this.checksumSent = true;
+      return false;
+    }
+    if (!this.reply) return false;
+
+    // Nothing has changed since the checksum was sent - the host is still locked
+    if (!this.reply.match) {
+      console.warn(
+        `Online: guest desynced (host ${formatChecksum(stateChecksum(state))}, guest ${formatChecksum(this.reply.checksum)}) - sending the host's state`,
+      );
+      this.send({ type: "sync", save: serializeState(state, false) });
+    }
+    this.reply = null;
+    this.checksumSent = false;
+    this.awaitingSync = false;
+    return true;
+  }
+
+  private updateGuest(state: GameState): boolean {
+    if (this.hostChecksum === null) return false;
+
+    const checksum = stateChecksum(state);
+    const match = checksum === this.hostChecksum;
+    this.send({ type: "checksumReply", checksum, match });
+    if (!match) {
+      // Stay locked until the host's state arrives
+      this.handlers.desync(this.hostChecksum, checksum);
+      this.hostChecksum = null;
+      return false;
+    }
+
+    this.hostChecksum = null;
+    this.awaitingSync = false;
+    return true;
+  }
+
+  private receive(message: RelayMessage | PeerMessage) {
+    if (message.type === "waiting") {
+      this.handlers.status(
+        `Waiting for an opponent in room "${message.room}"...`,
+      );
+    } else if (message.type === "paired") {
+      this.localPlayer = message.player;
+      console.log(
+        `Online: paired in room "${this.room}" as Player ${message.player}`,
+      );
+      this.handlers.paired(message.player);
+    } else if (message.type === "peerLeft") {
+      this.finish("Your opponent left the match");
+    } else if (message.type === "error") {
+      this.handlers.status(message.reason);
+    } else if (message.type === "start") {
+      this.handlers.start(message.record);
+    } else if (message.type === "action") {
+      this.handlers.action(message.action);
+    } else if (message.type === "checksum") {
+      this.hostChecksum = message.checksum;
+    } else if (message.type === "checksumReply") {
+      this.reply = { checksum: message.checksum, match: message.match };
+    } else if (message.type === "sync") {
+      // Only the host's state counts - anything the guest simulated itself is replaced
+      if (this.isHost) return;
+      this.awaitingSync = false;
+      this.handlers.sync(parseSave(message.save));
+    }
+  }
+
+  private finish(reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    console.warn(`Online: ${reason}`);
+    this.handlers.closed(reason);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * All gameplay randomness goes through this so the same seed reproduces
+ * the same map and the same match outcomes.
+ */
+export class Random {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Float in [0, 1), drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Internal position in the sequence, so a saved game continues with the same rolls
+  snapshot(): number {
+    return this.state;
+  }
+
+  restore(state: number) {
+    this.state = state >>> 0;
+  }
+}
+
+// Pick a new seed when the player didn't supply one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Parse a seed typed by the player - numbers are used as-is, any other text is hashed
+export function parseSeed(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+
+  // FNV-1a hash so seeds like "tigerhack" are shareable too
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
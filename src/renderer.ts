@@ -1,4 +1,13 @@
 import { Graphics } from "pixi.js";
+import type { GravityField } from "./gravity";
+
+// Gravity arrow colours, from weak to strong pull (upper bound of acceleration per colour)
+const GRAVITY_COLORS: { max: number; color: number }[] = [
+  { max: 0.1, color: 0x3366ff },
+  { max: 0.3, color: 0x00ffff },
+  { max: 0.6, color: 0xffff00 },
+  { max: Infinity, color: 0xff3300 },
+];
 
 export class Renderer {
   private gridGraphics: Graphics;
@@ -20,6 +29,15 @@ export class Renderer {
     this.GRID_HEIGHT = GRID_HEIGHT;
   }
 
+  // Match a new world size (after loading a save or starting a replay)
+  setGridSize(width: number, height: number) {
+    this.GRID_WIDTH = width;
+    this.GRID_HEIGHT = height;
+    if (this.gridVisible) {
+      this.drawGrid();
+    }
+  }
+
   setZoom(z: number) {
     this.zoom = z;
     if (this.gridVisible) {
@@ -58,4 +76,79 @@ export class Renderer {
     this.gridVisible = false;
     this.gridGraphics.clear();
   }
+
+  // Arrows showing the pull on every few cells - longer and warmer means stronger.
+  // Pass the visible cells as area to skip the rest of the map
+  drawGravityField(
+    g: Graphics,
+    field: GravityField,
+    spacing: number = 8,
+    area?: { x0: number; y0: number; x1: number; y1: number },
+  ) {
+    g.clear();
+
+    const lineWidth = 1.5 / Math.max(this.zoom, 0.000001);
+    const maxLength = spacing * this.TILE_SIZE * 0.8;
+
+    // One stroke per colour - far fewer draw calls than one per arrow
+    const arrows: { x: number; y: number; dx: number; dy: number }[][] =
+      GRAVITY_COLORS.map(() => []);
+
+    // Arrows sit on a fixed lattice so they don't shift around while panning
+    const offset = Math.floor(spacing / 2);
+    const firstCell = (from: number) =>
+      offset + Math.max(0, Math.ceil((from - offset) / spacing)) * spacing;
+    const lastX = Math.min(field.width - 1, area ? area.x1 : Infinity);
+    const lastY = Math.min(field.height - 1, area ? area.y1 : Infinity);
+
+    for (let y = firstCell(area ? area.y0 : 0); y <= lastY; y += spacing) {
+      for (let x = firstCell(area ? area.x0 : 0); x <= lastX; x += spacing) {
+        const { ax, ay } = field.accelerationAt(
+          (x + 0.5) * this.TILE_SIZE,
+          (y + 0.5) * this.TILE_SIZE,
+        );
+        const magnitude = Math.sqrt(ax * ax + ay * ay);
+        if (magnitude < 0.01) continue;
+
+        const length = maxLength * Math.min(1, magnitude);
+        const bucket = GRAVITY_COLORS.findIndex(
+          (entry) => magnitude <= entry.max,
+        );
+        arrows[bucket].push({
+          x: (x + 0.5) * this.TILE_SIZE,
+          y: (y + 0.5) * this.TILE_SIZE,
+          dx: (ax / magnitude) * length,
+          dy: (ay / magnitude) * length,
+        });
+      }
+    }
+
+    arrows.forEach((list, bucket) => {
+      if (list.length === 0) return;
+      for (const arrow of list) {
+        const tipX = arrow.x + arrow.dx;
+        const tipY = arrow.y + arrow.dy;
+        g.moveTo(arrow.x, arrow.y);
+        g.lineTo(tipX, tipY);
+
+        // Arrow head
+        const head = 0.3;
+        g.moveTo(tipX, tipY);
+        g.lineTo(
+          tipX - (arrow.dx - arrow.dy * 0.6) * head,
+          tipY - (arrow.dy + arrow.dx * 0.6) * head,
+        );
+        g.moveTo(tipX, tipY);
+        g.lineTo(
+          tipX - (arrow.dx + arrow.dy * 0.6) * head,
+          tipY - (arrow.dy - arrow.dx * 0.6) * head,
+        );
+      }
+      g.stroke({
+        width: lineWidth,
+        color: GRAVITY_COLORS[bucket].color,
+        alpha: 0.7,
+      });
+    });
+  }
 }
@@ -0,0 +1,134 @@
+import { GameState, Impact, WorldLayout } from "./gameState";
+import { RecordedAction, describeAction } from "./actions";
+import { PHYSICS_STEP } from "./constants";
+import { GameMap } from "./gameMap";
+import { MatchSettings } from "./matchSettings";
+
+// Everything needed to re-run a match: the world seed and layout (or hand-authored map), map size and the action log
+export interface MatchRecord {
+  seed: number;
+  width: number;
+  height: number;
+  playerCount: number;
+  settings: MatchSettings;
+  layout: WorldLayout;
+  map: GameMap | null;
+  actions: RecordedAction[];
+}
+
+export function recordMatch(state: GameState): MatchRecord {
+  return {
+    seed: state.seed,
+    width: state.width,
+    height: state.height,
+    playerCount: state.playerCount,
+    settings: { ...state.settings },
+    layout: state.layout,
+    map: state.map,
+    actions: state.actionLog.map((action) => ({ ...action })),
+  };
+}
+
+// Build the world a match started on (regenerated from its seed, or rebuilt from its map)
+export function createWorld(record: MatchRecord): GameState {
+  const state = new GameState(
+    record.width,
+    record.height,
+    record.seed,
+    record.playerCount,
+    record.settings,
+  );
+  if (record.map) {
+    state.loadMap(record.map);
+  } else {
+    state.generateWorld(record.layout);
+  }
+  return state;
+}
+
+// Safety cap for fast-forwarding so a broken record can't hang the page
+const MAX_FAST_FORWARD_STEPS = 100000;
+
+/**
+ * Re-executes a recorded match.
+ * The world is regenerated from the seed (or rebuilt from its map) and every logged action is applied
+ * at the same physics tick it originally happened on.
+ */
+export class ReplayPlayer {
+  readonly state: GameState;
+  private actions: RecordedAction[];
+  private nextAction = 0;
+  playing = true;
+
+  constructor(record: MatchRecord) {
+    this.actions = record.actions;
+    this.state = createWorld(record);
+  }
+
+  // All actions applied and every shot has landed
+  get finished(): boolean {
+    return (
+      this.nextAction >= this.actions.length &&
+      this.state.projectiles.length === 0
+    );
+  }
+
+  get actionsApplied(): number {
+    return this.nextAction;
+  }
+
+  get actionCount(): number {
+    return this.actions.length;
+  }
+
+  // Turn number being shown (starts at 1, +1 for every end turn)
+  get turn(): number {
+    let turn = 1;
+    for (let i = 0; i < this.nextAction; i++) {
+      if (this.actions[i].type === "endTurn") turn++;
+    }
+    return turn;
+  }
+
+  // Apply due actions and advance one physics step
+  step(): Impact[] {
+    this.applyDueActions(false);
+    return this.state.step(PHYSICS_STEP);
+  }
+
+  // Fast-forward until the next end of turn has been applied (events are muted)
+  stepTurn() {
+    this.state.events.muted = true;
+    for (let i = 0; i < MAX_FAST_FORWARD_STEPS; i++) {
+      if (this.applyDueActions(true)) break;
+      if (this.finished) break;
+      this.state.step(PHYSICS_STEP);
+    }
+    this.state.events.muted = false;
+  }
+
+  // Apply every action recorded before the current tick.
+  // Returns true if a turn ended (stopping right after it when stopAtEndTurn is set)
+  private applyDueActions(stopAtEndTurn: boolean): boolean {
+    let endedTurn = false;
+    while (
+      this.nextAction < this.actions.length &&
+      this.actions[this.nextAction].tick <= this.state.stepCount
+    ) {
+      const { tick, ...action } = this.actions[this.nextAction];
+      this.nextAction++;
+
+      const result = this.state.execute(action);
+      if (!result.ok) {
+        console.warn(
+          `Replay desync at tick ${tick}: ${describeAction(action)} failed (${result.reason})`,
+        );
+      }
+      if (action.type === "endTurn") {
+        endedTurn = true;
+        if (stopAtEndTurn) break;
+      }
+    }
+    return endedTurn;
+  }
+}
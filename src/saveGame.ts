@@ -0,0 +1,359 @@
+import { GameState, WorldLayout } from "./gameState";
+import { GravityWell } from "./gravity";
+import {
+  GameSprite,
+  PlanetSprite,
+  AsteroidSprite,
+  BlackHoleSprite,
+  SpriteKind,
+  createSprite,
+  isWeapon,
+} from "./sprite";
+import { RecordedAction } from "./actions";
+import { GameMap } from "./gameMap";
+import { MatchSettings, isMatchSettings } from "./matchSettings";
+import { AiDifficulty } from "./aiDifficulty";
+import { MIN_PLAYERS, MAX_PLAYERS } from "./constants";
+
+/**
+ * Versioned JSON save format for a match.
+ * Bump SAVE_VERSION whenever SaveData changes shape and add a migration in parseSave().
+ * Projectiles in flight are not saved - autosave runs on endTurn once shots have landed.
+ */
+export const SAVE_VERSION = 1;
+export const AUTOSAVE_KEY = "stellar-spite-autosave";
+
+export interface SavedSprite {
+  kind: SpriteKind;
+  name: string;
+  gridX: number;
+  gridY: number;
+  owner: number;
+  health: number;
+  maxHealth: number;
+  rotation?: number; // Dome shields
+  angle: number; // Visual spin
+  ammo?: number; // Turrets
+  rotationSpeed?: number; // Asteroids, black holes and planets
+  scale?: number; // Asteroids and black holes
+  vx?: number; // Launched sprites still in flight
+  vy?: number;
+}
+
+export interface SaveData {
+  version: number;
+  savedAt: string;
+  seed: number;
+  rngState: number;
+  width: number;
+  height: number;
+  aiMode: boolean;
+  aiDifficulty: AiDifficulty;
+  currentPlayer: number;
+  winner: string | null;
+  shieldRadius: number;
+  playerOre: number[];
+  playerEnergy: number[];
+  playerMaxEnergy: number[];
+  playerMineCount: number[];
+  playerSolarCount: number[];
+  playerCount: number;
+  bases: number[]; // Each player's base as an index into sprites (-1 if the base is gone; index 0 is unused)
+  settings: MatchSettings;
+  round: number; // Rounds played, for the turn limit
+  sprites: SavedSprite[];
+  gravityWells: GravityWell[];
+  // Action log for replays
+  stepCount: number;
+  actions: RecordedAction[];
+  map: GameMap | null; // Hand-authored map the match started from (null for generated worlds)
+  layout: WorldLayout; // How a generated world was laid out (so replays regenerate it)
+}
+
+// Snapshot a match into plain JSON data
+export function serializeState(
+  state: GameState,
+  aiMode: boolean,
+  aiDifficulty: AiDifficulty = "normal",
+): SaveData {
+  const sprites: SavedSprite[] = [];
+  const bases = state.bases.map(() => -1);
+
+  state.forEachSprite((sprite) => {
+    const player = state.bases.indexOf(sprite as PlanetSprite);
+    if (player > 0) bases[player] = sprites.length;
+    sprites.push(serializeSprite(sprite));
+  });
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    seed: state.seed,
+    rngState: state.rng.snapshot(),
+    width: state.width,
+    height: state.height,
+    aiMode,
+    aiDifficulty,
+    currentPlayer: state.currentPlayer,
+    winner: state.winner,
+    shieldRadius: state.shieldRadius,
+    playerOre: [...state.playerOre],
+    playerEnergy: [...state.playerEnergy],
+    playerMaxEnergy: [...state.playerMaxEnergy],
+    playerMineCount: [...state.playerMineCount],
+    playerSolarCount: [...state.playerSolarCount],
+    playerCount: state.playerCount,
+    bases,
+    settings: { ...state.settings },
+    round: state.round,
+    sprites,
+    gravityWells: state.gravity.wells.map((well) => ({ ...well })),
+    stepCount: state.stepCount,
+    actions: state.actionLog.map((action) => ({ ...action })),
+    map: state.map,
+    layout: state.layout,
+  };
+}
+
+function serializeSprite(sprite: GameSprite): SavedSprite {
+  const saved: SavedSprite = {
+    kind: sprite.kind,
+    name: sprite.name,
+    gridX: sprite.gridX,
+    gridY: sprite.gridY,
+    owner: sprite.owner,
+    health: sprite.health,
+    maxHealth: sprite.maxHealth,
+    angle: sprite.angle,
+  };
+
+  if (sprite.rotation !== undefined) saved.rotation = sprite.rotation;
+  if (sprite.vx !== 0 || sprite.vy !== 0) {
+    saved.vx = sprite.vx;
+    saved.vy = sprite.vy;
+  }
+
+  if (isWeapon(sprite)) saved.ammo = sprite.ammo;
+
+  if (sprite instanceof AsteroidSprite || sprite instanceof BlackHoleSprite) {
+    saved.rotationSpeed = sprite.rotationSpeed;
+    saved.scale = sprite.scale;
+  } else if (sprite instanceof PlanetSprite) {
+    saved.rotationSpeed = sprite.rotationSpeed;
+  }
+
+  return saved;
+}
+
+// Rebuild a match from save data (call parseSave first for untrusted input)
+export function deserializeState(data: SaveData): {
+  state: GameState;
+  aiMode: boolean;
+  aiDifficulty: AiDifficulty;
+} {
+  const state = new GameState(
+    data.width,
+    data.height,
+    data.seed,
+    data.playerCount,
+    data.settings,
+  );
+  state.shieldRadius = data.shieldRadius;
+
+  data.sprites.forEach((saved, index) => {
+    const sprite = createSprite(saved.kind, {
+      rotationSpeed: saved.rotationSpeed,
+      name: saved.name,
+      centerX: saved.gridX,
+      centerY: saved.gridY,
+      initialRotation: saved.angle,
+      scale: saved.scale,
+    });
+    sprite.name = saved.name;
+    sprite.owner = saved.owner;
+    sprite.health = saved.health;
+    sprite.maxHealth = saved.maxHealth;
+    sprite.angle = saved.angle;
+    sprite.rotation = saved.rotation;
+    sprite.vx = saved.vx ?? 0;
+    sprite.vy = saved.vy ?? 0;
+    if (saved.ammo !== undefined && isWeapon(sprite)) {
+      sprite.ammo = saved.ammo;
+    }
+
+    if (!state.placeSprite(saved.gridX, saved.gridY, sprite, saved.rotation)) {
+      console.warn(
+        `Save: could not place ${saved.name} at (${saved.gridX}, ${saved.gridY})`,
+      );
+      return;
+    }
+
+    const player = data.bases.indexOf(index);
+    if (player > 0) state.bases[player] = sprite as PlanetSprite;
+  });
+
+  // Gravity is kept apart from the sprites - restore exactly the wells that were saved
+  state.resetGravity(data.gravityWells);
+
+  state.currentPlayer = data.currentPlayer;
+  state.round = data.round;
+  state.winner = data.winner;
+  state.playerOre = [...data.playerOre];
+  state.playerEnergy = [...data.playerEnergy];
+  state.playerMaxEnergy = [...data.playerMaxEnergy];
+  state.playerMineCount = [...data.playerMineCount];
+  state.playerSolarCount = [...data.playerSolarCount];
+  state.rng.restore(data.rngState);
+  state.stepCount = data.stepCount;
+  state.actionLog = data.actions.map((action) => ({ ...action }));
+  state.map = data.map;
+  state.layout = data.layout;
+
+  return { state, aiMode: data.aiMode, aiDifficulty: data.aiDifficulty };
+}
+
+// Validate parsed JSON and upgrade older versions to the current format
+export function parseSave(json: unknown): SaveData {
+  if (!json || typeof json !== "object") {
+    throw new Error("Save file is not a JSON object");
+  }
+
+  const data = json as SaveData;
+  if (typeof data.version !== "number") {
+    throw new Error("Save file has no version");
+  }
+  if (data.version > SAVE_VERSION) {
+    throw new Error(
+      `Save file version ${data.version} is newer than this game (${SAVE_VERSION})`,
+    );
+  }
+  if (!Array.isArray(data.sprites) || !Array.isArray(data.gravityWells)) {
+    throw new Error("Save file is missing sprites or gravity data");
+  }
+  if (!Array.isArray(data.actions) || !Number.isInteger(data.stepCount)) {
+    throw new Error("Save file is missing the action log");
+  }
+  if (!(data.width > 0) || !(data.height > 0)) {
+    throw new Error("Save file needs a positive width and height");
+  }
+  if (
+    !Number.isInteger(data.playerCount) ||
+    data.playerCount < MIN_PLAYERS ||
+    data.playerCount > MAX_PLAYERS
+  ) {
+    throw new Error(
+      `Save file needs ${MIN_PLAYERS}-${MAX_PLAYERS} players, not ${data.playerCount}`,
+    );
+  }
+  if (
+    !Number.isInteger(data.currentPlayer) ||
+    data.currentPlayer < 1 ||
+    data.currentPlayer > data.playerCount
+  ) {
+    throw new Error(`Save file has no Player ${data.currentPlayer}`);
+  }
+  if (!Number.isInteger(data.round) || data.round < 1) {
+    throw new Error("Save file has no round count");
+  }
+
+  // Per-player lists have an unused slot 0 and then one entry for each player
+  const perPlayer = (values: unknown): values is number[] =>
+    Array.isArray(values) &&
+    values.length === data.playerCount + 1 &&
+    values.every((value) => Number.isFinite(value));
+  if (
+    !perPlayer(data.bases) ||
+    data.bases.some(
+      (index) =>
+        !Number.isInteger(index) || index < -1 || index >= data.sprites.length,
+    )
+  ) {
+    throw new Error("Save file has a broken list of bases");
+  }
+  for (const list of [
+    "playerOre",
+    "playerEnergy",
+    "playerMaxEnergy",
+    "playerMineCount",
+    "playerSolarCount",
+  ] as const) {
+    if (!perPlayer(data[list])) {
+      throw new Error(`Save file has a broken ${list} list`);
+    }
+  }
+
+  if (!isMatchSettings(data.settings)) {
+    throw new Error("Save file is missing match settings");
+  }
+  if (data.settings.teams && data.playerCount !== 4) {
+    throw new Error(
+      `Save file is a team match for ${data.playerCount} players (teams need four)`,
+    );
+  }
+
+  return data;
+}
+
+// Autosave
+
+export function saveToLocalStorage(data: SaveData) {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(data));
+  } catch (err) {
+    console.warn("Autosave failed:", err);
+  }
+}
+
+export function loadFromLocalStorage(): SaveData | null {
+  const raw = localStorage.getItem(AUTOSAVE_KEY);
+  if (!raw) return null;
+
+  try {
+    return parseSave(JSON.parse(raw));
+  } catch (err) {
+    console.warn("Discarding invalid autosave:", err);
+    clearAutosave();
+    return null;
+  }
+}
+
+export function clearAutosave() {
+  localStorage.removeItem(AUTOSAVE_KEY);
+}
+
+// Import/export
+
+// Download the save as a .json file
+export function downloadSave(data: SaveData) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `stellar-spite-${data.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Ask the player for a save file and parse it
+export function pickSaveFile(): Promise<SaveData> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error("No file selected"));
+        return;
+      }
+      try {
+        resolve(parseSave(JSON.parse(await file.text())));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    input.click();
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Uniform-grid spatial hash for broad-phase collision queries.
+ * Items are bucketed by the bounding box of their circle (in world pixels),
+ * so a query only looks at the few buckets around a point instead of the whole map.
+ */
+export class SpatialHash<T> {
+  private cellSize: number;
+  private buckets: Map<string, Set<T>> = new Map();
+  private itemKeys: Map<T, string[]> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.itemKeys.size;
+  }
+
+  insert(item: T, x: number, y: number, radius: number) {
+    if (this.itemKeys.has(item)) {
+      this.remove(item);
+    }
+
+    const keys = this.keysFor(x, y, radius);
+    for (const key of keys) {
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = new Set();
+        this.buckets.set(key, bucket);
+      }
+      bucket.add(item);
+    }
+    this.itemKeys.set(item, keys);
+  }
+
+  remove(item: T) {
+    const keys = this.itemKeys.get(item);
+    if (!keys) return;
+
+    for (const key of keys) {
+      const bucket = this.buckets.get(key);
+      if (!bucket) continue;
+      bucket.delete(item);
+      // Drop empty buckets so the map doesn't grow forever
+      if (bucket.size === 0) {
+        this.buckets.delete(key);
+      }
+    }
+    this.itemKeys.delete(item);
+  }
+
+  // Items whose bounding box may overlap the circle at (x, y) - callers do the exact test
+  query(x: number, y: number, radius: number = 0): T[] {
+    const found = new Set<T>();
+    for (const key of this.keysFor(x, y, radius)) {
+      const bucket = this.buckets.get(key);
+      if (!bucket) continue;
+      for (const item of bucket) {
+        found.add(item);
+      }
+    }
+    return [...found];
+  }
+
+  clear() {
+    this.buckets.clear();
+    this.itemKeys.clear();
+  }
+
+  private keysFor(x: number, y: number, radius: number): string[] {
+    const minX = Math.floor((x - radius) / this.cellSize);
+    const maxX = Math.floor((x + radius) / this.cellSize);
+    const minY = Math.floor((y - radius) / this.cellSize);
+    const maxY = Math.floor((y + radius) / this.cellSize);
+
+    const keys: string[] = [];
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        keys.push(`${cx},${cy}`);
+      }
+    }
+    return keys;
+  }
+}
@@ -1,13 +1,34 @@
-import { Sprite, Container, Texture, Rectangle } from "pixi.js";
-
-export const MAX_VELOCITY = 8;
+import { integrate } from "./trajectory";
+import {
+  BUILDINGS,
+  BuildingKind,
+  ProjectileKind,
+  WeaponStats,
+} from "./buildings";
+import type { GravitySource } from "./gravity";
+import { PLANET_HEALTH } from "./constants";
+
+export type SpriteKind =
+  | "bunny"
+  | "turret"
+  | "laserTurret"
+  | "mine"
+  | "solarPanel"
+  | "domeShield"
+  | "asteroid"
+  | "blackhole"
+  | "planet"
+  | "projectile"
+  | "generic";
 
 /**
- * Base game sprite interface/wrapper.
+ * Base game sprite model.
+ * Sprites hold gameplay state only - the Engine creates and syncs the Pixi
+ * display objects for them (see spriteDisplay.ts).
  * Subclasses should implement update(delta, ax, ay) for physics
  */
 export abstract class GameSprite {
-  display: Sprite | Container;
+  kind: SpriteKind;
   name: string;
   type: string;
   health: number;
@@ -19,16 +40,32 @@ export abstract class GameSprite {
   height?: number; // For rectangles: height in tiles (y-direction)
   rotation?: number; // For rotated rectangles: rotation angle in radians
   owner: number; // 0 = neutral, 1 = player 1, 2 = player 2
-  
+  invulnerable: boolean = false; // Absorbs hits without taking damage (black holes)
+
+  // World position in pixels (center of the sprite)
+  x: number = 0;
+  y: number = 0;
+
+  // Center cell on the grid while placed (-1 when not on the grid)
+  gridX: number = -1;
+  gridY: number = -1;
+
+  // Position before the last physics step (used to interpolate rendering)
+  prevX: number = 0;
+  prevY: number = 0;
+
+  // Visual spin in radians, advanced by update() for rotating bodies
+  angle: number = 0;
+
   // Physics properties
   vx: number = 0;
   vy: number = 0;
-  
-  // Planet to ignore gravity from (for projectiles launched from planet guns)
-  ignorePlanetGravity?: { centerX: number; centerY: number; radius: number };
+
+  // Body whose pull this sprite doesn't feel (e.g. for projectiles launched from planet guns)
+  ignoreGravityFrom?: GravitySource;
 
   constructor(
-    display: Sprite | Container,
+    kind: SpriteKind,
     name: string = "Unknown",
     type: string = "Unknown",
     health: number = 100,
@@ -40,7 +77,7 @@ export abstract class GameSprite {
     width?: number,
     height?: number
   ) {
-    this.display = display;
+    this.kind = kind;
     this.name = name;
     this.type = type;
     this.health = health;
@@ -58,30 +95,9 @@ export abstract class GameSprite {
 
   // Apply physics movement (called by sprites that should move)
   protected applyPhysics(delta: number, ax: number = 0, ay: number = 0) {
-    // Cap acceleration magnitude to prevent extreme forces near planets
-    const MAX_ACCELERATION = 20;
-    const accelMag = Math.sqrt(ax * ax + ay * ay);
-    if (accelMag > MAX_ACCELERATION) {
-      const scale = MAX_ACCELERATION / accelMag;
-      ax *= scale;
-      ay *= scale;
-    }
-
-    // Apply acceleration from gravity (scaled by delta time)
-    this.vx += ax * delta;
-    this.vy += ay * delta;
-
-    // Clamp speed to MAX_VELOCITY
-    const speed = Math.sqrt(this.vx * this.vx + this.vy * this.vy);
-    if (speed > MAX_VELOCITY) {
-      const scale = MAX_VELOCITY / speed;
-      this.vx *= scale;
-      this.vy *= scale;
-    }
-
-    // Move sprite
-    this.display.x += this.vx * delta;
-    this.display.y += this.vy * delta;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    integrate(this, ax, ay, delta);
   }
 
   // Take damage and return true if sprite is destroyed
@@ -89,18 +105,11 @@ export abstract class GameSprite {
     this.health -= amount;
     return this.health <= 0;
   }
-
-  // Return the underlying display object so the renderer can add it to the stage
-  getDisplay(): Sprite | Container {
-    return this.display;
-  }
 }
 
 export class BunnySprite extends GameSprite {
-  constructor(texture: Texture) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Building", "Building", 100, 100, 0, false); // Back to radius 0
+  constructor() {
+    super("bunny", "Building", "Building", 100, 100, 0, false); // Back to radius 0
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
@@ -109,55 +118,80 @@ export class BunnySprite extends GameSprite {
   }
 }
 
-export class TurretSprite extends GameSprite {
-  ammo: number;
-  maxAmmo: number;
-  damage: number;
-  ammoRegenRate: number;
-  
-  constructor(texture: Texture) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Turret", "Weapon", 200, 200, 2, true, "square"); // Radius 2 = 4x4 tiles
-    this.ammo = 0; // Start with 0 ammo, regenerate on first turn
-    this.maxAmmo = 1; // Max ammo cap
-    this.damage = 250; // Missile damage - increased for faster games
-    this.ammoRegenRate = 1; // Regenerate 1 ammo per turn
+/**
+ * Base for placeable buildings - name, HP and size come from the building catalogue.
+ */
+export abstract class BuildingSprite extends GameSprite {
+  constructor(kind: BuildingKind) {
+    const def = BUILDINGS[kind];
+    super(
+      kind,
+      def.name,
+      def.type,
+      def.health,
+      def.health,
+      def.radius,
+      true,
+      def.shape,
+      0,
+      def.width,
+      def.height,
+    );
   }
+}
 
-  update(delta: number, ax: number = 0, ay: number = 0) {
-    // Turrets don't move (immutable)
-    void delta; void ax; void ay;
-  }
+/**
+ * Anything that fires projectiles. Stats come from the building catalogue,
+ * only ammo changes during a match.
+ */
+export interface Weapon extends WeaponStats {
+  ammo: number;
+}
+
+export function isWeapon(sprite: GameSprite): sprite is GameSprite & Weapon {
+  return sprite instanceof TurretSprite;
 }
 
-export class LaserTurretSprite extends GameSprite {
+export class TurretSprite extends BuildingSprite implements Weapon {
   ammo: number;
   maxAmmo: number;
   damage: number;
   ammoRegenRate: number;
-  
-  constructor(texture: Texture) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Laser Turret", "Weapon", 150, 150, 2, true, "square"); // Radius 2 = 4x4 tiles
+  fireEnergy: number;
+  projectileKind: ProjectileKind;
+  aimPower: number;
+  trailColor: number;
+  trailSize: number;
+
+  constructor(kind: "turret" | "laserTurret" = "turret") {
+    super(kind);
+    const weapon = BUILDINGS[kind].weapon!;
     this.ammo = 0; // Start with 0 ammo, regenerate on first turn
-    this.maxAmmo = 3; // Max ammo cap
-    this.damage = 100; // Laser damage - increased for faster games
-    this.ammoRegenRate = 1; // Regenerate 1 ammo per turn
+    this.maxAmmo = weapon.maxAmmo;
+    this.damage = weapon.damage;
+    this.ammoRegenRate = weapon.ammoRegenRate;
+    this.fireEnergy = weapon.fireEnergy;
+    this.projectileKind = weapon.projectileKind;
+    this.aimPower = weapon.aimPower;
+    this.trailColor = weapon.trailColor;
+    this.trailSize = weapon.trailSize;
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
-    // Laser turrets don't move (immutable)
+    // Turrets don't move (immutable)
     void delta; void ax; void ay;
   }
 }
 
-export class MineSprite extends GameSprite {
-  constructor(texture: Texture) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Mine", "Resource", 100, 100, 1, true, "square"); // Radius 1 = 3x3 tiles
+export class LaserTurretSprite extends TurretSprite {
+  constructor() {
+    super("laserTurret");
+  }
+}
+
+export class MineSprite extends BuildingSprite {
+  constructor() {
+    super("mine");
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
@@ -166,11 +200,9 @@ export class MineSprite extends GameSprite {
   }
 }
 
-export class SolarPanelSprite extends GameSprite {
-  constructor(texture: Texture) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Solar Panel", "Resource", 80, 80, 1, true, "square"); // Radius 1 = 3x3 tiles
+export class SolarPanelSprite extends BuildingSprite {
+  constructor() {
+    super("solarPanel");
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
@@ -179,11 +211,9 @@ export class SolarPanelSprite extends GameSprite {
   }
 }
 
-export class DomeShieldSprite extends GameSprite {
-  constructor(texture: Texture) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Dome Shield", "Defense", 500, 500, 0, true, "rectangle", 0, 8, 2); // 8x2 rectangle
+export class DomeShieldSprite extends BuildingSprite {
+  constructor() {
+    super("domeShield");
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
@@ -193,186 +223,111 @@ export class DomeShieldSprite extends GameSprite {
 }
 
 export class AsteroidSprite extends GameSprite {
-  private rotationSpeed: number;
-
-  constructor(texture: Texture, rotationSpeed: number, scale: number = 1) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    // Scale to ASTEROID_TILES (12 tiles = 192px) then multiply by random scale
-    const baseScale = (16 * 12) / texture.width; // TILE_SIZE * ASTEROID_TILES / texture.width
-    sprite.scale.set(baseScale * scale);
+  rotationSpeed: number;
+  scale: number; // Size multiplier relative to ASTEROID_TILES
+
+  constructor(rotationSpeed: number, scale: number = 1) {
     // Round radius to ensure it's always an integer
     // Scale health based on size: base 500 HP, multiplied by scale (0.5-1.5x = 250-750 HP)
     const scaledHealth = Math.round(500 * scale);
-    super(sprite, "Asteroid", "Debris", scaledHealth, scaledHealth, Math.round(6 * scale), true);
+    super(
+      "asteroid",
+      "Asteroid",
+      "Debris",
+      scaledHealth,
+      scaledHealth,
+      Math.round(6 * scale),
+      true,
+    );
     this.rotationSpeed = rotationSpeed;
+    this.scale = scale;
   }
 
   update(delta: number, _ax: number = 0, _ay: number = 0) {
     // Asteroids are immutable - only rotate, don't respond to gravity
-    (this.display as Sprite).rotation += this.rotationSpeed * delta;
+    this.angle += this.rotationSpeed * delta;
   }
 }
 
 export class BlackHoleSprite extends GameSprite {
-  private rotationSpeed: number;
+  rotationSpeed: number;
+  scale: number; // Size multiplier relative to BLACK_HOLE_TILES
 
-  constructor(texture: Texture, rotationSpeed: number) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Black Hole", "???", 0, 0, 20, true);
+  constructor(rotationSpeed: number, scale: number = 1) {
+    super("blackhole", "Black Hole", "???", 0, 0, Math.round(20 * scale), true);
     this.rotationSpeed = rotationSpeed;
+    this.scale = scale;
+    this.invulnerable = true;
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
     // Black holes don't move (immutable) but they rotate
-    (this.display as Sprite).rotation += this.rotationSpeed * delta;
+    this.angle += this.rotationSpeed * delta;
     // Note: Black holes don't respond to physics themselves (immutable)
     void ax; void ay; // Suppress unused parameter warnings
   }
 }
 
 export class PlanetSprite extends GameSprite {
-  private rotationSpeed: number;
-  private shield: Sprite | null;
+  rotationSpeed: number;
   centerX: number;
   centerY: number;
   currentRotation: number;
 
   constructor(
-    texture: Texture,
     name: string,
     rotationSpeed: number,
     centerX: number,
     centerY: number,
-    shieldTexture?: Texture,
     initialRotation: number = 0
   ) {
-    // Use a container to hold both planet and shield
-    const container = new Container();
-    const planetSprite = new Sprite(texture);
-    planetSprite.anchor.set(0.5);
-    planetSprite.rotation = initialRotation; // Set initial rotation
-    container.addChild(planetSprite);
-    
-    let shield: Sprite | null = null;
-    
-    // Add shield if provided
-    if (shieldTexture) {
-      shield = new Sprite(shieldTexture);
-      shield.anchor.set(0.5);
-      shield.alpha = 0.3; // Make it transparent (30% opacity)
-      // Scale shield larger to encompass structures between planet and shield
-      const shieldScale = (texture.width * 2.0) / shieldTexture.width;
-      shield.scale.set(shieldScale);
-      shield.rotation = -initialRotation * 0.5; // Set initial shield rotation (opposite direction)
-      container.addChild(shield);
-    }
-    
-    super(container, name, "Planet", 1200, 1200, 25, true); // Reduced for 6-7 turn games
-    
-    this.shield = shield;
+    super("planet", name, "Planet", PLANET_HEALTH, PLANET_HEALTH, 25, true); // Reduced for 6-7 turn games
+
     this.rotationSpeed = rotationSpeed;
     this.centerX = centerX;
     this.centerY = centerY;
     this.currentRotation = initialRotation;
+    this.angle = initialRotation;
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
     // Planets don't move (immutable) but they rotate
     void ax; void ay; // Suppress unused parameter warnings
-    
-    // Rotate the planet sprite inside the container
-    const container = this.display as Container;
-    const planetSprite = container.children[0] as Sprite;
-    planetSprite.rotation += this.rotationSpeed * delta;
+
+    this.angle += this.rotationSpeed * delta;
     this.currentRotation += this.rotationSpeed * delta;
-    
-    // Optionally rotate shield slowly for effect
-    if (this.shield) {
-      this.shield.rotation -= this.rotationSpeed * delta * 0.5;
-    }
   }
 }
 
-export class ExplosionSprite extends GameSprite {
-  private currentFrame: number = 0;
-  private totalFrames: number;
-  private frameWidth: number;
-  private frameHeight: number;
-  private framesPerRow: number;
-  private animationSpeed: number;
-  private sprite: Sprite;
+/**
+ * A shot in flight. Lives in GameState.projectiles, not on the grid,
+ * and carries what it needs from the weapon that fired it.
+ */
+export class ProjectileSprite extends GameSprite {
+  firingTurret: GameSprite;
+  damage: number;
+  projectileKind: ProjectileKind;
+  trailColor: number;
+  trailSize: number;
 
-  constructor(
-    texture: Texture,
-    x: number,
-    y: number,
-    scale: number = 1,
-    totalFrames: number = 8,
-    frameWidth: number = 64,
-    frameHeight: number = 64,
-    framesPerRow: number = 8,
-    animationSpeed: number = 0.5
-  ) {
-    const sprite = new Sprite(texture);
-    sprite.anchor.set(0.5);
-    super(sprite, "Explosion", "Effect", 1, 1, 0, false);
-    
-    this.sprite = sprite;
-    this.totalFrames = totalFrames;
-    this.frameWidth = frameWidth;
-    this.frameHeight = frameHeight;
-    this.framesPerRow = framesPerRow;
-    this.animationSpeed = animationSpeed;
-    
-    // Set initial frame
-    this.updateFrame(0);
-    
-    sprite.position.set(x, y);
-    sprite.scale.set(scale);
-    
-    this.display = sprite;
-  }
-
-  private updateFrame(frameIndex: number) {
-    const row = Math.floor(frameIndex / this.framesPerRow);
-    const col = frameIndex % this.framesPerRow;
-    
-    const x = col * this.frameWidth;
-    const y = row * this.frameHeight;
-    
-    // Create a new texture from a region of the sprite sheet
-    this.sprite.texture = new Texture({
-      source: this.sprite.texture.source,
-      frame: new Rectangle(x, y, this.frameWidth, this.frameHeight),
-    });
+  constructor(weapon: GameSprite & Weapon) {
+    super("projectile", "Projectile", "Projectile", 100, 100, 0, false);
+    this.firingTurret = weapon;
+    this.damage = weapon.damage;
+    this.projectileKind = weapon.projectileKind;
+    this.trailColor = weapon.trailColor;
+    this.trailSize = weapon.trailSize;
+    this.owner = weapon.owner;
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
-    // Explosions don't respond to physics
-    void ax; void ay;
-    this.currentFrame += this.animationSpeed * delta;
-    
-    const frameIndex = Math.floor(this.currentFrame);
-    
-    if (frameIndex < this.totalFrames) {
-      this.updateFrame(frameIndex);
-    } else {
-      // Animation finished - make invisible
-      this.sprite.alpha = 0;
-    }
-  }
-
-  isFinished(): boolean {
-    return Math.floor(this.currentFrame) >= this.totalFrames;
+    this.applyPhysics(delta, ax, ay);
   }
 }
 
 export class GenericSprite extends GameSprite {
-  constructor(texture?: Texture) {
-    const display = texture ? new Sprite(texture) : new Container();
-    super(display);
+  constructor() {
+    super("generic");
   }
 
   update(delta: number, ax: number = 0, ay: number = 0) {
@@ -381,112 +336,77 @@ export class GenericSprite extends GameSprite {
   }
 }
 
-export type SpriteKind = "bunny" | "turret" | "laserTurret" | "mine" | "solarPanel" | "domeShield" | "asteroid" | "blackhole" | "planet" | "generic";
-
 /**
  * Factory to create sprites of different kinds.
  */
 export function createSprite(
   kind: SpriteKind,
   options?: {
-    texture?: Texture;
     rotationSpeed?: number;
     name?: string;
     centerX?: number;
     centerY?: number;
-    shieldTexture?: Texture;
     initialRotation?: number;
     scale?: number;
   }
 ): GameSprite {
   if (kind === "bunny") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("bunny") requires options.texture');
-    }
-    return new BunnySprite(options.texture);
+    return new BunnySprite();
   }
 
   if (kind === "turret") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("turret") requires options.texture');
-    }
-    return new TurretSprite(options.texture);
+    return new TurretSprite();
   }
-  
+
   if (kind === "laserTurret") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("laserTurret") requires options.texture');
-    }
-    return new LaserTurretSprite(options.texture);
+    return new LaserTurretSprite();
   }
-  
+
   if (kind === "mine") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("mine") requires options.texture');
-    }
-    return new MineSprite(options.texture);
+    return new MineSprite();
   }
-  
+
   if (kind === "solarPanel") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("solarPanel") requires options.texture');
-    }
-    return new SolarPanelSprite(options.texture);
+    return new SolarPanelSprite();
   }
-  
+
   if (kind === "domeShield") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("domeShield") requires options.texture');
-    }
-    return new DomeShieldSprite(options.texture);
+    return new DomeShieldSprite();
   }
 
   if (kind === "asteroid") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("asteroid") requires options.texture');
-    }
     return new AsteroidSprite(
-      options.texture,
-      options.rotationSpeed || 0.005,
-      options.scale || 1
+      options?.rotationSpeed || 0.005,
+      options?.scale || 1,
     );
   }
 
   if (kind === "blackhole") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("blackhole") requires options.texture');
-    }
     return new BlackHoleSprite(
-      options.texture,
-      options.rotationSpeed || 0.002
+      options?.rotationSpeed || 0.002,
+      options?.scale || 1,
     );
   }
 
   if (kind === "planet") {
-    if (!options || !options.texture) {
-      throw new Error('createSprite("planet") requires options.texture');
-    }
     return new PlanetSprite(
-      options.texture,
-      options.name || "Planet",
-      options.rotationSpeed || 0.0005,
-      options.centerX || 0,
-      options.centerY || 0,
-      options.shieldTexture,
-      options.initialRotation || 0
+      options?.name || "Planet",
+      options?.rotationSpeed || 0.0005,
+      options?.centerX || 0,
+      options?.centerY || 0,
+      options?.initialRotation || 0,
     );
   }
 
   // default: generic
-  return new GenericSprite(options?.texture);
+  return new GenericSprite();
 }
 
 /**
  * Grid cell type for a 2D gameplay grid.
- * Extended to support multi-tile sprites with radius and gravity acceleration
+ * Extended to support multi-tile sprites with radius
  */
 export interface GridCell {
-  gravity: { ax: number; ay: number }; // Acceleration from gravity wells
   sprite: GameSprite | null; // Single sprite reference (centermost cell)
   // Reference to center cell if this is part of a multi-tile sprite
   centerX?: number;
@@ -504,52 +424,12 @@ export function createGrid(width: number, height: number): Grid {
   for (let y = 0; y < height; y++) {
     const row: GridCell[] = [];
     for (let x = 0; x < width; x++) {
-      row.push({ 
-        gravity: { ax: 0, ay: 0 }, 
-        sprite: null, 
-        occupied: false 
+      row.push({
+        sprite: null,
+        occupied: false,
       });
     }
     grid.push(row);
   }
   return grid;
 }
-
-/**
- * Apply a gravity field to the grid centered at (gx, gy) with given radius and strength
- * This is used by planets and black holes to create gravitational attraction
- */
-export function applyGravityField(
-  grid: Grid,
-  centerX: number,
-  centerY: number,
-  radius: number,
-  strength: number
-): void {
-  const gridWidth = grid[0]?.length || 0;
-  const gridHeight = grid.length;
-
-  for (let y = centerY - radius; y <= centerY + radius; y++) {
-    for (let x = centerX - radius; x <= centerX + radius; x++) {
-      // Skip out of bounds
-      if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) continue;
-
-      const dx = x - centerX;
-      const dy = y - centerY;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      
-      // Skip if outside radius or at center
-      if (dist === 0 || dist > radius) continue;
-
-      // Compute falloff (linearly decreasing to 0 at radius)
-      const force = strength * (1 - dist / radius);
-
-      // Apply acceleration (normalized vector pointing toward center)
-      const ax = (-dx / dist) * force;
-      const ay = (-dy / dist) * force;
-
-      grid[y][x].gravity.ax += ax;
-      grid[y][x].gravity.ay += ay;
-    }
-  }
-}
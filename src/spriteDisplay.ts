@@ -0,0 +1,231 @@
+import { Container, Rectangle, Sprite, Texture } from "pixi.js";
+import {
+  AsteroidSprite,
+  BlackHoleSprite,
+  GameSprite,
+  ProjectileSprite,
+} from "./sprite";
+import {
+  TILE_SIZE,
+  ASTEROID_TILES,
+  BLACK_HOLE_TILES,
+  PLANET_TILES,
+  TURRET_TILES,
+} from "./constants";
+
+// Textures used to draw game sprites
+export interface SpriteTextures {
+  bunny: Texture;
+  turret: Texture;
+  laserTurret: Texture;
+  mine: Texture;
+  solarPanel: Texture;
+  domeShield: Texture;
+  asteroid: Texture;
+  blackHole: Texture;
+  planet: Texture;
+  shield: Texture;
+  missile: Texture;
+  laser: Texture;
+}
+
+// Scale that fits a texture's longest side into the given number of tiles
+export function scaleToTiles(texture: Texture, tiles: number): number {
+  return (TILE_SIZE * tiles) / Math.max(texture.width, texture.height);
+}
+
+/**
+ * Create the Pixi display object for a game sprite.
+ * worldWidth (in tiles) is used to flip turrets on the right half of the map.
+ */
+export function createSpriteDisplay(
+  sprite: GameSprite,
+  textures: SpriteTextures,
+  worldWidth: number,
+): Container {
+  if (sprite.kind === "planet") {
+    // Use a container to hold both planet and shield
+    const container = new Container();
+    const planetSprite = new Sprite(textures.planet);
+    planetSprite.anchor.set(0.5);
+    container.addChild(planetSprite);
+
+    const shield = new Sprite(textures.shield);
+    shield.anchor.set(0.5);
+    shield.alpha = 0.3; // Make it transparent (30% opacity)
+    // Scale shield larger to encompass structures between planet and shield
+    shield.scale.set((textures.planet.width * 2.0) / textures.shield.width);
+    container.addChild(shield);
+
+    container.scale.set((TILE_SIZE * PLANET_TILES) / textures.planet.width);
+    syncSpriteDisplay(sprite, container);
+    return container;
+  }
+
+  if (sprite.kind === "generic") {
+    return new Container();
+  }
+
+  if (sprite.kind === "projectile") {
+    return createProjectileDisplay(sprite as ProjectileSprite, textures);
+  }
+
+  let display: Sprite;
+  if (sprite.kind === "asteroid") {
+    display = new Sprite(textures.asteroid);
+    // Scale to ASTEROID_TILES then multiply by the asteroid's random scale
+    const baseScale = (TILE_SIZE * ASTEROID_TILES) / textures.asteroid.width;
+    display.scale.set(baseScale * (sprite as AsteroidSprite).scale);
+  } else if (sprite.kind === "blackhole") {
+    display = new Sprite(textures.blackHole);
+    const baseScale = (TILE_SIZE * BLACK_HOLE_TILES) / textures.blackHole.width;
+    display.scale.set(baseScale * (sprite as BlackHoleSprite).scale);
+  } else if (sprite.kind === "domeShield") {
+    display = new Sprite(textures.domeShield);
+    // For dome shield (8x2 rectangle), scale larger to cover diagonal rotation
+    // At 45° rotation, diagonal is sqrt(8^2 + 2^2) ≈ 8.25 tiles
+    // Scale to 10 tiles to ensure full coverage at all angles
+    display.scale.set(scaleToTiles(textures.domeShield, 10));
+    display.rotation = sprite.rotation || 0;
+  } else if (sprite.kind === "bunny") {
+    display = new Sprite(textures.bunny);
+    display.scale.set(scaleToTiles(textures.bunny, 1));
+  } else {
+    const texture = textures[sprite.kind];
+    display = new Sprite(texture);
+    const spriteScale = scaleToTiles(texture, TURRET_TILES);
+    display.scale.set(spriteScale);
+
+    // Flip turrets on the right half of the map so they face the enemy
+    if (sprite.type === "Weapon" && sprite.gridX > worldWidth / 2) {
+      display.scale.x = -spriteScale;
+    }
+  }
+
+  display.anchor.set(0.5);
+  syncSpriteDisplay(sprite, display);
+  return display;
+}
+
+// Color a base planet's shield (the second child of its container) with its player's color
+export function tintPlanetShield(display: Container, color: number) {
+  const shield = display.children[1];
+  if (shield instanceof Sprite) shield.tint = color;
+}
+
+// Create the display object for a projectile fired by a turret
+export function createProjectileDisplay(
+  projectile: ProjectileSprite,
+  textures: SpriteTextures,
+): Sprite {
+  const texture = textures[projectile.projectileKind];
+  const display = new Sprite(texture);
+  display.anchor.set(0.5);
+  display.scale.set(scaleToTiles(texture, 1));
+  display.position.set(projectile.x, projectile.y);
+  return display;
+}
+
+// Position between the last two physics steps (alpha 0 = previous step, 1 = current)
+export function interpolatePosition(
+  sprite: GameSprite,
+  alpha: number,
+): { x: number; y: number } {
+  return {
+    x: sprite.prevX + (sprite.x - sprite.prevX) * alpha,
+    y: sprite.prevY + (sprite.y - sprite.prevY) * alpha,
+  };
+}
+
+// Copy a sprite's (interpolated) position and spin onto its display object
+export function syncSpriteDisplay(
+  sprite: GameSprite,
+  display: Container,
+  alpha: number = 1,
+) {
+  const pos = interpolatePosition(sprite, alpha);
+  display.position.set(pos.x, pos.y);
+
+  if (sprite.kind === "planet") {
+    // Rotate the planet inside the container, shield slowly the other way
+    const container = display as Container;
+    container.children[0].rotation = sprite.angle;
+    if (container.children[1]) {
+      container.children[1].rotation = -sprite.angle * 0.5;
+    }
+  } else if (sprite.kind === "asteroid" || sprite.kind === "blackhole") {
+    display.rotation = sprite.angle;
+  }
+}
+
+/**
+ * Animated explosion from a sprite sheet.
+ * Purely visual - explosions are not part of the game state.
+ */
+export class ExplosionSprite {
+  display: Sprite;
+  private currentFrame: number = 0;
+  private totalFrames: number;
+  private frameWidth: number;
+  private frameHeight: number;
+  private framesPerRow: number;
+  private animationSpeed: number;
+
+  constructor(
+    texture: Texture,
+    x: number,
+    y: number,
+    scale: number = 1,
+    totalFrames: number = 8,
+    frameWidth: number = 64,
+    frameHeight: number = 64,
+    framesPerRow: number = 8,
+    animationSpeed: number = 0.5,
+  ) {
+    this.display = new Sprite(texture);
+    this.display.anchor.set(0.5);
+
+    this.totalFrames = totalFrames;
+    this.frameWidth = frameWidth;
+    this.frameHeight = frameHeight;
+    this.framesPerRow = framesPerRow;
+    this.animationSpeed = animationSpeed;
+
+    // Set initial frame
+    this.updateFrame(0);
+
+    this.display.position.set(x, y);
+    this.display.scale.set(scale);
+  }
+
+  private updateFrame(frameIndex: number) {
+    const row = Math.floor(frameIndex / this.framesPerRow);
+    const col = frameIndex % this.framesPerRow;
+
+    const x = col * this.frameWidth;
+    const y = row * this.frameHeight;
+
+    // Create a new texture from a region of the sprite sheet
+    this.display.texture = new Texture({
+      source: this.display.texture.source,
+      frame: new Rectangle(x, y, this.frameWidth, this.frameHeight),
+    });
+  }
+
+  update(delta: number) {
+    this.currentFrame += this.animationSpeed * delta;
+
+    const frameIndex = Math.floor(this.currentFrame);
+
+    if (frameIndex < this.totalFrames) {
+      this.updateFrame(frameIndex);
+    } else {
+      // Animation finished - make invisible
+      this.display.alpha = 0;
+    }
+  }
+
+  isFinished(): boolean {
+    return Math.floor(this.currentFrame) >= this.totalFrames;
+  }
+}
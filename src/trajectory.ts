@@ -0,0 +1,214 @@
+import type { GameSprite } from "./sprite";
+import type { GameState } from "./gameState";
+import type { GravitySource } from "./gravity";
+import {
+  TILE_SIZE,
+  PHYSICS_STEP,
+  MAX_VELOCITY,
+  MAX_ACCELERATION,
+} from "./constants";
+
+/**
+ * Shared trajectory integrator.
+ * Live projectiles, launched sprites, the aim preview and the AI all move
+ * bodies through stepBody() so predictions match what happens in game.
+ */
+
+// Anything that flies: live sprites, or plain copies used for prediction
+export interface TrajectoryBody {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  ignoreGravityFrom?: GravitySource; // Body whose pull is left out (e.g. the planet it was launched from)
+}
+
+// Projectiles hit any occupied cell, launched sprites hit immutable sprites within their radius
+export type CollisionMode = "projectile" | "sprite";
+
+export interface TrajectoryOptions {
+  collision: CollisionMode;
+  ignore?: GameSprite | null; // Sprite the body passes through (firing turret or the sprite itself)
+  maxSteps?: number; // Only used by simulateTrajectory
+  passThrough?: (sprite: GameSprite) => boolean; // Only used by simulateTrajectory - sprites to fly through (e.g. asteroids that could be shot away first)
+}
+
+export interface StepResult {
+  hit: GameSprite | null; // Sprite hit during this step
+  outOfBounds: boolean; // Body left the map
+}
+
+export interface TrajectoryResult {
+  path: { x: number; y: number }[]; // Position after every step, starting at the launch point
+  hit: GameSprite | null; // First sprite hit (null if the body left the map or ran out of steps)
+  hitPoint: { x: number; y: number } | null;
+  outOfBounds: boolean;
+  passed: GameSprite[]; // Sprites flown through because of passThrough
+}
+
+// Apply gravity, cap acceleration and speed, then move the body by one step
+export function integrate(
+  body: TrajectoryBody,
+  ax: number,
+  ay: number,
+  dt: number,
+) {
+  // Cap acceleration magnitude to prevent extreme forces near planets
+  const accelMag = Math.sqrt(ax * ax + ay * ay);
+  if (accelMag > MAX_ACCELERATION) {
+    const scale = MAX_ACCELERATION / accelMag;
+    ax *= scale;
+    ay *= scale;
+  }
+
+  // Apply acceleration from gravity (scaled by delta time)
+  body.vx += ax * dt;
+  body.vy += ay * dt;
+
+  // Clamp speed to MAX_VELOCITY
+  const speed = Math.sqrt(body.vx * body.vx + body.vy * body.vy);
+  if (speed > MAX_VELOCITY) {
+    const scale = MAX_VELOCITY / speed;
+    body.vx *= scale;
+    body.vy *= scale;
+  }
+
+  // Move body
+  body.x += body.vx * dt;
+  body.y += body.vy * dt;
+}
+
+// Gravity acting on a body, minus the body it ignores (if any)
+export function gravityFor(
+  state: GameState,
+  body: TrajectoryBody,
+): { ax: number; ay: number } {
+  return state.gravityAt(body.x, body.y, body.ignoreGravityFrom);
+}
+
+// Advance a body by one step and report what it ran into
+export function stepBody(
+  state: GameState,
+  body: TrajectoryBody,
+  dt: number,
+  options: TrajectoryOptions,
+): StepResult {
+  const { ax, ay } = gravityFor(state, body);
+  integrate(body, ax, ay, dt);
+
+  const gridX = Math.floor(body.x / TILE_SIZE);
+  const gridY = Math.floor(body.y / TILE_SIZE);
+  if (!state.inBounds(gridX, gridY)) {
+    return { hit: null, outOfBounds: true };
+  }
+
+  const hit =
+    options.collision === "projectile"
+      ? state.projectileHitAt(body.x, body.y, options.ignore)
+      : state.spriteHitAt(body.x, body.y, options.ignore);
+  return { hit, outOfBounds: false };
+}
+
+// Predict a full flight path without changing the game state
+export function simulateTrajectory(
+  state: GameState,
+  start: TrajectoryBody,
+  options: TrajectoryOptions,
+): TrajectoryResult {
+  const body: TrajectoryBody = { ...start };
+  const maxSteps = options.maxSteps ?? 200;
+  const path = [{ x: body.x, y: body.y }];
+  const passed: GameSprite[] = [];
+
+  for (let i = 0; i < maxSteps; i++) {
+    const result = stepBody(state, body, PHYSICS_STEP, options);
+    if (result.outOfBounds) {
+      return { path, hit: null, hitPoint: null, outOfBounds: true, passed };
+    }
+
+    path.push({ x: body.x, y: body.y });
+
+    if (result.hit && options.passThrough?.(result.hit)) {
+      if (!passed.includes(result.hit)) passed.push(result.hit);
+    } else if (result.hit) {
+      return {
+        path,
+        hit: result.hit,
+        hitPoint: { x: body.x, y: body.y },
+        outOfBounds: false,
+        passed,
+      };
+    }
+  }
+
+  return { path, hit: null, hitPoint: null, outOfBounds: false, passed };
+}
+
+// How close an aimed shot came to its target
+export interface ShotScore {
+  closestDistToTarget: number; // In pixels (0 for a direct hit, Infinity if it hit the shooter's own base)
+  hitsOwnBase: boolean;
+  hit: GameSprite | null; // Whatever stopped the shot
+  passed: GameSprite[]; // Sprites the shot flew through (see TrajectoryOptions.passThrough)
+}
+
+// Simulate a shot with the shared integrator and return its closest distance to the target
+export function simulateTrajectoryWithCollision(
+  state: GameState,
+  from: { x: number; y: number },
+  vx: number,
+  vy: number,
+  target: GameSprite,
+  ownBase: GameSprite | null,
+  options: {
+    ignore?: GameSprite | null;
+    maxSteps?: number;
+    passThrough?: (sprite: GameSprite) => boolean;
+  } = {},
+): ShotScore {
+  const result = simulateTrajectory(
+    state,
+    { x: from.x, y: from.y, vx, vy },
+    {
+      collision: "projectile",
+      ignore: options.ignore,
+      maxSteps: options.maxSteps ?? 300,
+      passThrough: options.passThrough,
+    },
+  );
+
+  // Check if projectile would hit our own base
+  if (ownBase && result.hit === ownBase) {
+    return {
+      closestDistToTarget: Infinity,
+      hitsOwnBase: true,
+      hit: result.hit,
+      passed: result.passed,
+    };
+  }
+
+  // Direct hit on the target
+  if (result.hit === target) {
+    return {
+      closestDistToTarget: 0,
+      hitsOwnBase: false,
+      hit: result.hit,
+      passed: result.passed,
+    };
+  }
+
+  // Otherwise score by the closest point before the shot left the map or hit something else
+  let closestDist = Infinity;
+  for (const point of result.path) {
+    const dx = point.x - target.x;
+    const dy = point.y - target.y;
+    closestDist = Math.min(closestDist, Math.sqrt(dx * dx + dy * dy));
+  }
+
+  return {
+    closestDistToTarget: closestDist,
+    hitsOwnBase: false,
+    hit: result.hit,
+    passed: result.passed,
+  };
+}
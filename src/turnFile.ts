@@ -0,0 +1,165 @@
+import { GameState } from "./gameState";
+import { MatchRecord, ReplayPlayer, recordMatch } from "./replay";
+import { stateChecksum } from "./checksum";
+
+/**
+ * Play-by-file: after ending a turn a player sends the match to their opponent as a file or link.
+ * The match is stored as its seed (or map) and full action log - replays rebuild every state exactly
+ * from those, so a file stays small however long the match runs. The checksum of the sender's
+ * settled state lets the receiver check that their rebuilt copy came out the same.
+ */
+export const TURN_FILE_VERSION = 1;
+export const TURN_LINK_PREFIX = "#turn=";
+
+// Links longer than this are left out (some browsers and chat apps cut long URLs)
+const MAX_LINK_LENGTH = 32000;
+
+// Safety cap when rebuilding a match so a broken file can't hang the page
+const MAX_REBUILD_TURNS = 10000;
+
+export interface TurnFile {
+  version: number;
+  savedAt: string;
+  player: number; // Who just played
+  turn: number; // Turns ended so far
+  match: MatchRecord;
+  checksum: number; // stateChecksum() of the sender's match once the turn's shots had landed
+}
+
+// Package a settled match right after a turn ended
+export function createTurnFile(state: GameState): TurnFile {
+  const match = recordMatch(state);
+  const turn = match.actions.filter(
+    (action) => action.type === "endTurn",
+  ).length;
+  const lastAction = match.actions[match.actions.length - 1];
+
+  return {
+    version: TURN_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    player: lastAction ? lastAction.player : state.currentPlayer,
+    turn,
+    match,
+    checksum: stateChecksum(state),
+  };
+}
+
+// Validate parsed JSON as a turn file
+export function parseTurnFile(json: unknown): TurnFile {
+  if (!json || typeof json !== "object") {
+    throw new Error("Turn file is not a JSON object");
+  }
+
+  const data = json as TurnFile;
+  if (typeof data.version !== "number") {
+    throw new Error("Turn file has no version");
+  }
+  if (data.version > TURN_FILE_VERSION) {
+    throw new Error(
+      `Turn file version ${data.version} is newer than this game (${TURN_FILE_VERSION})`,
+    );
+  }
+  if (
+    !data.match ||
+    !Array.isArray(data.match.actions) ||
+    typeof data.match.seed !== "number"
+  ) {
+    throw new Error("Turn file is missing the match");
+  }
+  if (typeof data.checksum !== "number") {
+    throw new Error("Turn file has no checksum");
+  }
+  return data;
+}
+
+// Re-run the whole match from its record. matches is false if it didn't end up where the sender's did
+export function rebuildMatch(file: TurnFile): {
+  state: GameState;
+  matches: boolean;
+} {
+  const replay = new ReplayPlayer(file.match);
+  for (let i = 0; i < MAX_REBUILD_TURNS && !replay.finished; i++) {
+    replay.stepTurn();
+  }
+  return {
+    state: replay.state,
+    matches: stateChecksum(replay.state) === file.checksum,
+  };
+}
+
+// Download the turn as a .json file
+export function downloadTurnFile(file: TurnFile) {
+  const blob = new Blob([JSON.stringify(file)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `stellar-spite-${file.match.seed}-turn-${file.turn}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Ask the player for a turn file and parse it
+export function pickTurnFile(): Promise<TurnFile> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "application/json,.json";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error("No file selected"));
+        return;
+      }
+      try {
+        resolve(parseTurnFile(JSON.parse(await file.text())));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    input.click();
+  });
+}
+
+// Links carry the turn file deflated and base64url encoded in the URL fragment (never sent to a server)
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+// Link that opens the game on this turn (null if it would be too long - send the file instead)
+export async function turnLink(file: TurnFile): Promise<string | null> {
+  const bytes = await deflate(JSON.stringify(file));
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  const encoded = btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+  const link = `${window.location.origin}${window.location.pathname}${TURN_LINK_PREFIX}${encoded}`;
+  return link.length <= MAX_LINK_LENGTH ? link : null;
+}
+
+// Turn file from a link's fragment (e.g. window.location.hash)
+export async function parseTurnLink(hash: string): Promise<TurnFile> {
+  if (!hash.startsWith(TURN_LINK_PREFIX)) {
+    throw new Error("Link has no turn in it");
+  }
+  const encoded = hash
+    .slice(TURN_LINK_PREFIX.length)
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const binary = atob(encoded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return parseTurnFile(JSON.parse(await inflate(bytes)));
+}